@@ -15,7 +15,7 @@
  */
 
 import { useState, useEffect } from "react";
-import { Switch, Route } from "wouter";
+import { Switch, Route, useLocation } from "wouter";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
@@ -26,26 +26,77 @@ import Characters from "@/pages/Characters";
 import CharacterDetail from "@/pages/CharacterDetail";
 import Scenes from "@/pages/Scenes";
 import SceneDetail from "@/pages/SceneDetail";
+import Stories from "@/pages/Stories";
+import StoryDetail from "@/pages/StoryDetail";
+import Settings from "@/pages/Settings";
+import Trash from "@/pages/Trash";
+import AccountSync from "@/pages/AccountSync";
+import Audit from "@/pages/Audit";
 import { cognitoAuth } from "@/lib/cognitoAuth";
 import { setSessionExpiredHandler, apiClient } from "@/lib/lunchWithApi";
-import type { UserProfile, UserAccountProfile } from "@shared/api-types";
+import { rememberAccountRoute, getAccountRoute } from "@/lib/accountRoutes";
+import { pendingDeletes } from "@/lib/pendingDeletes";
+import { installUnsavedChangesGuard } from "@/lib/unsavedChanges";
+import { fetchEnvironments, getSelectedEnvironment, setSelectedEnvironment, type EnvironmentList, type EnvironmentOption } from "@/lib/environment";
+import type { UserProfile, UserAccount, UserAccountProfile } from "@shared/api-types";
+
+interface RouterProps {
+  userId: string;
+  accounts: UserAccount[];
+  environments: EnvironmentOption[];
+  // Environment requests currently go to
+  environment: string;
+  onProfileUpdated: (profile: UserAccountProfile) => void;
+}
 
 /**
  * Application Router
  * Defines all routes and their corresponding page components
  * Includes a 404 fallback for unmatched routes
  */
-function Router() {
+function Router({ userId, accounts, environments, environment, onProfileUpdated }: RouterProps) {
   return (
     <Switch>
       {/* Characters routes */}
-      <Route path="/" component={Characters} />
-      <Route path="/characters" component={Characters} />
-      <Route path="/characters/:id" component={CharacterDetail} />
+      <Route path="/">
+        <Characters accounts={accounts} />
+      </Route>
+      <Route path="/characters">
+        <Characters accounts={accounts} />
+      </Route>
+      <Route path="/characters/:id">
+        <CharacterDetail accounts={accounts} />
+      </Route>
       
       {/* Scenes routes */}
-      <Route path="/scenes" component={Scenes} />
-      <Route path="/scenes/:id" component={SceneDetail} />
+      <Route path="/scenes">
+        <Scenes accounts={accounts} />
+      </Route>
+      <Route path="/scenes/:id">
+        <SceneDetail accounts={accounts} />
+      </Route>
+      
+      {/* Stories routes */}
+      <Route path="/stories" component={Stories} />
+      <Route path="/stories/:id" component={StoryDetail} />
+      
+      {/* Soft-deleted items */}
+      <Route path="/trash" component={Trash} />
+      
+      {/* Compare and sync accounts or environments */}
+      <Route path="/sync">
+        <AccountSync accounts={accounts} environments={environments} environment={environment} />
+      </Route>
+      
+      {/* Audit log of changes made through the proxy */}
+      <Route path="/audit">
+        <Audit accounts={accounts} />
+      </Route>
+      
+      {/* Account settings */}
+      <Route path="/settings">
+        <Settings userId={userId} accounts={accounts} onProfileUpdated={onProfileUpdated} />
+      </Route>
       
       {/* 404 fallback */}
       <Route>
@@ -69,6 +120,34 @@ export default function App() {
   const [availableUserIds, setAvailableUserIds] = useState<string[]>([]);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [userAccountProfile, setUserAccountProfile] = useState<UserAccountProfile | null>(null);
+  const [environmentList, setEnvironmentList] = useState<EnvironmentList | null>(null);
+  const [environment, setEnvironment] = useState(getSelectedEnvironment());
+  const [location, setLocation] = useLocation();
+
+  // Environment requests go to: the session's choice, else the server default
+  const activeEnvironment = environment || environmentList?.default || "";
+
+  /**
+   * Remember the current route for the selected account
+   * Used to return to the same place when switching back to this account
+   */
+  useEffect(() => {
+    if (isAuthenticated && userId) {
+      rememberAccountRoute(userId, location);
+    }
+  }, [location, userId, isAuthenticated]);
+
+  /**
+   * Commit undoable deletes once the user leaves the page they were made on
+   */
+  useEffect(() => {
+    pendingDeletes.flushOnNavigate(location);
+  }, [location]);
+
+  /**
+   * Ask before leaving the page, or going back/forward, with unsaved form changes
+   */
+  useEffect(() => installUnsavedChangesGuard(), []);
 
   /**
    * Handle session expiration from API requests
@@ -90,6 +169,25 @@ export default function App() {
     setSessionExpiredHandler(handleSessionExpired);
   }, []);
 
+  /**
+   * Refresh Cognito tokens before they expire while signed in
+   * If the refresh token itself has expired, treat it like an expired session
+   */
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    cognitoAuth.startRefreshTimer(handleSessionExpired);
+    return () => cognitoAuth.stopRefreshTimer();
+  }, [isAuthenticated]);
+
+  /**
+   * Load the upstream environments offered by the proxy on mount
+   */
+  useEffect(() => {
+    fetchEnvironments()
+      .then(setEnvironmentList)
+      .catch((error) => console.error("Failed to load environments:", error));
+  }, []);
+
   /**
    * Check for existing Cognito session on mount
    * If no session or not configured, show login dialog
@@ -118,7 +216,7 @@ export default function App() {
       setAvailableUserIds(session.user.availableUserIds);
       
       // Fetch user profile data
-      await fetchUserProfile();
+      await fetchUserProfile(session.user.userId);
     } else {
       setLoginDialogOpen(true);
     }
@@ -128,17 +226,20 @@ export default function App() {
 
   /**
    * Fetch user profile data from LunchWith.ai API
+   * @param selectedUserId - Currently selected LWAI account, preferred over the first account
    */
-  const fetchUserProfile = async () => {
+  const fetchUserProfile = async (selectedUserId: string) => {
     try {
       // Fetch general profile (identity + accounts)
       const profile = await apiClient.getUserProfile();
       setUserProfile(profile);
       
-      // If user has accounts, fetch the first account's detailed profile
+      // If user has accounts, fetch the selected account's detailed profile
       if (profile.accounts && profile.accounts.length > 0) {
-        const firstAccount = profile.accounts[0];
-        const accountProfile = await apiClient.getUserAccount(firstAccount.user_id);
+        const selectedAccount =
+          profile.accounts.find((account) => account.user_id === selectedUserId) ??
+          profile.accounts[0];
+        const accountProfile = await apiClient.getUserAccount(selectedAccount.user_id);
         setUserAccountProfile(accountProfile);
         
         // Use contactName from preferences if available
@@ -171,28 +272,85 @@ export default function App() {
       setAvailableUserIds(session.user.availableUserIds);
       
       // Fetch user profile data
-      await fetchUserProfile();
+      await fetchUserProfile(session.user.userId);
       
       // Invalidate all queries to refetch data with new authentication
       await queryClient.invalidateQueries();
     }
   };
 
+  /**
+   * Handle preference updates from the Settings page
+   * Keeps the header display name and accounts list in sync with the new contactName
+   */
+  const handleProfileUpdated = (accountProfile: UserAccountProfile) => {
+    setUserAccountProfile(accountProfile);
+    const { user_id, contactName } = accountProfile.preferences;
+    setUserProfile((prev) =>
+      prev
+        ? {
+            ...prev,
+            accounts: prev.accounts.map((account) =>
+              account.user_id === user_id ? { ...account, contactName } : account
+            ),
+          }
+        : prev
+    );
+    if (contactName) {
+      setUsername(contactName);
+    }
+  };
+
   /**
    * Handle account switching
-   * Switches to a different LWAI user account and reloads the page
+   * Switches the X-LWAI-User-Id used by the API client in place and returns
+   * to the last route used in the new account.
+   * Pages are keyed by userId (see <main>), so they remount; cached queries are
+   * scoped by account (see use-lunchwith), so switching back reuses them.
+   */
+  const handleAccountSwitch = async (index: number) => {
+    // Pending deletes must be sent to the account they were made in
+    await pendingDeletes.flushAll();
+
+    const newUserId = cognitoAuth.switchUserAccount(index);
+    if (newUserId === userId) return;
+
+    setUserId(newUserId);
+    setUserAccountProfile(null);
+    setLocation(getAccountRoute(newUserId) ?? "/");
+
+    await fetchUserProfile(newUserId);
+  };
+
+  /**
+   * Handle environment switching
+   * Routes subsequent API calls to the chosen upstream environment for this
+   * session. Detail routes are left for their list page, since ids from one
+   * environment do not exist in another.
    */
-  const handleAccountSwitch = (index: number) => {
-    cognitoAuth.switchUserAccount(index);
-    // Reload the page to refresh all data with the new user account
-    window.location.reload();
+  const handleEnvironmentChange = async (name: string) => {
+    if (name === activeEnvironment) return;
+
+    // Pending deletes must be sent to the environment they were made in
+    await pendingDeletes.flushAll();
+
+    setSelectedEnvironment(name);
+    setEnvironment(name);
+    setUserAccountProfile(null);
+    setLocation(`/${location.split("/")[1] ?? ""}`);
+
+    if (isAuthenticated) {
+      await fetchUserProfile(userId);
+    }
   };
 
   /**
    * Handle sign out
-   * Clears session, clears query cache, and shows login dialog
+   * Sends pending undoable deletes while still signed in, then clears session,
+   * clears query cache, and shows login dialog
    */
-  const handleSignOut = () => {
+  const handleSignOut = async () => {
+    await pendingDeletes.flushAll();
     cognitoAuth.signOut();
     setIsAuthenticated(false);
     setUsername("");
@@ -257,16 +415,26 @@ export default function App() {
         ) : (
           <div className="min-h-screen bg-background">
             <Header 
+              environments={environmentList?.environments ?? []}
+              environment={activeEnvironment}
+              onEnvironmentChange={handleEnvironmentChange}
               username={username}
               userId={userId}
               availableUserIds={availableUserIds}
+              accounts={userProfile?.accounts ?? []}
               isAuthenticated={isAuthenticated}
               onSignOut={handleSignOut}
               onManageAuth={() => setLoginDialogOpen(true)}
               onAccountSwitch={handleAccountSwitch}
             />
-            <main>
-              <Router />
+            <main key={`${activeEnvironment}:${userId}`}>
+              <Router
+                userId={userId}
+                accounts={userProfile?.accounts ?? []}
+                environments={environmentList?.environments ?? []}
+                environment={activeEnvironment}
+                onProfileUpdated={handleProfileUpdated}
+              />
             </main>
           </div>
         )}
@@ -0,0 +1,275 @@
+/**
+ * Augment Panel Component
+ *
+ * Side panel for the story console listing every cast entry with its
+ * augment (extra narrative text) for the current take.
+ * Features:
+ * - Loads each cast entry's augment in parallel
+ * - Inline editor to add or replace an augment
+ * - Clear action to delete the augment
+ *
+ * Augments only apply to the current take, so the panel reloads whenever
+ * the story's casting list changes.
+ *
+ * Used in: StoryDetail page
+ */
+
+import { useState, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { Edit, Eraser, Loader2 } from "lucide-react";
+import { apiClient } from "@/lib/lunchWithApi";
+import { useToast } from "@/hooks/use-toast";
+import ErrorDetails from "@/components/ErrorDetails";
+import { getErrorMessage } from "@/lib/apiError";
+import type { StoryCasting, StoryAugment, Cast } from "@shared/api-types";
+
+interface AugmentPanelProps {
+  storyId: string;
+  casting: StoryCasting[];
+  castById: Record<string, Cast>;
+}
+
+export default function AugmentPanel({ storyId, casting, castById }: AugmentPanelProps) {
+  // Current augment per cast_id (null = no augment for this take)
+  const [augments, setAugments] = useState<Record<string, StoryAugment | null>>({});
+  const [loadErrors, setLoadErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+
+  const castIdsKey = casting.map((entry) => entry.cast_id).join(",");
+
+  /**
+   * Loads augments for every cast entry in parallel
+   * A failure for one cast entry is recorded without hiding the others
+   */
+  const loadAugments = async () => {
+    setIsLoading(true);
+    const nextAugments: Record<string, StoryAugment | null> = {};
+    const nextErrors: Record<string, string> = {};
+
+    await Promise.all(
+      casting.map(async (entry) => {
+        try {
+          nextAugments[entry.cast_id] = await apiClient.getAugment(storyId, entry.cast_id);
+        } catch (error) {
+          nextErrors[entry.cast_id] = getErrorMessage(error);
+        }
+      })
+    );
+
+    setAugments(nextAugments);
+    setLoadErrors(nextErrors);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadAugments();
+  }, [storyId, castIdsKey]);
+
+  /**
+   * Saves augment text for a cast entry
+   * Uses PUT when an augment already exists and POST otherwise
+   */
+  const handleSave = async (castId: string, text: string) => {
+    try {
+      const saved = augments[castId]
+        ? await apiClient.updateAugment(storyId, castId, text)
+        : await apiClient.createAugment(storyId, castId, text);
+      setAugments((prev) => ({
+        ...prev,
+        [castId]: saved ?? { story_id: storyId, cast_id: castId, augment: text },
+      }));
+      setLoadErrors((prev) => {
+        const { [castId]: _, ...rest } = prev;
+        return rest;
+      });
+      toast({
+        title: "Augment saved",
+        description: "The augment will be used for the current take.",
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error saving augment",
+        description: <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Deletes the augment for a cast entry
+   */
+  const handleClear = async (castId: string) => {
+    try {
+      await apiClient.deleteAugment(storyId, castId);
+      setAugments((prev) => ({ ...prev, [castId]: null }));
+      toast({
+        title: "Augment cleared",
+        description: "The augment has been removed from the current take.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error clearing augment",
+        description: <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div data-testid="panel-augments">
+      <h3 className="text-xl font-semibold mb-6">Augments</h3>
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : casting.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-sm text-muted-foreground">No cast entries to augment</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {casting.map((entry) => (
+            <AugmentEditor
+              key={entry.cast_id}
+              role={entry.role ?? castById[entry.cast_id]?.role ?? entry.cast_id}
+              castId={entry.cast_id}
+              augment={augments[entry.cast_id] ?? null}
+              loadError={loadErrors[entry.cast_id]}
+              onSave={handleSave}
+              onClear={handleClear}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AugmentEditorProps {
+  role: string;
+  castId: string;
+  augment: StoryAugment | null;
+  loadError?: string;
+  onSave: (castId: string, text: string) => Promise<boolean>;
+  onClear: (castId: string) => Promise<void>;
+}
+
+function AugmentEditor({ role, castId, augment, loadError, onSave, onClear }: AugmentEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [text, setText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleEdit = () => {
+    setText(augment?.augment ?? "");
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await onSave(castId, text);
+    setIsSaving(false);
+    if (saved) setIsEditing(false);
+  };
+
+  const handleClear = async () => {
+    setIsSaving(true);
+    await onClear(castId);
+    setIsSaving(false);
+  };
+
+  return (
+    <Card data-testid={`card-augment-${castId}`}>
+      <CardContent className="pt-6">
+        <div className="flex items-start justify-between gap-4 mb-3">
+          <h4 className="text-base font-medium">{role}</h4>
+          {!isEditing && (
+            <div className="flex gap-1">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleEdit}
+                    disabled={isSaving}
+                    className="h-7 w-7"
+                    data-testid="button-edit-augment"
+                  >
+                    <Edit className="w-3.5 h-3.5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{augment ? "Edit augment" : "Add augment"}</p>
+                </TooltipContent>
+              </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleClear}
+                    disabled={isSaving || !augment}
+                    className="h-7 w-7"
+                    data-testid="button-clear-augment"
+                  >
+                    <Eraser className="w-3.5 h-3.5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Clear augment</p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+          )}
+        </div>
+        {isEditing ? (
+          <div className="space-y-3">
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Extra narrative text for this cast member"
+              className="min-h-24"
+              data-testid="input-augment"
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsEditing(false)}
+                disabled={isSaving}
+                data-testid="button-cancel-augment"
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={isSaving || !text.trim()}
+                data-testid="button-save-augment"
+              >
+                Save Augment
+              </Button>
+            </div>
+          </div>
+        ) : loadError ? (
+          <p className="text-sm text-destructive">{loadError}</p>
+        ) : augment ? (
+          <p className="text-sm whitespace-pre-wrap" data-testid="text-augment">{augment.augment}</p>
+        ) : (
+          <p className="text-sm text-muted-foreground">No augment for the current take</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,6 +10,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
+import DraftRestorePrompt from "@/components/DraftRestorePrompt";
+import UnsavedChangesDialog from "@/components/UnsavedChangesDialog";
+import { useFormDraft } from "@/hooks/use-form-draft";
+import { draftKeys } from "@/lib/formDrafts";
 import type { Cast } from "@shared/api-types";
 
 interface CastFormProps {
@@ -17,7 +21,8 @@ interface CastFormProps {
   onOpenChange: (open: boolean) => void;
   sceneId: string;
   cast?: Cast;
-  onSave: (cast: Partial<Cast>) => void;
+  // Resolves true once saved; until then the form's draft is kept
+  onSave: (cast: Partial<Cast>) => Promise<boolean>;
 }
 
 export default function CastForm({
@@ -43,8 +48,27 @@ export default function CastForm({
     }
   }, [cast, open]);
 
-  const handleSave = () => {
-    onSave({
+  const [confirmCloseOpen, setConfirmCloseOpen] = useState(false);
+  const draft = useFormDraft({
+    draftKey: draftKeys.cast(sceneId, cast?.cast_id),
+    open,
+    initial: {
+      role: cast?.role ?? "",
+      goal: cast?.goal ?? "",
+      start: cast?.start ?? "",
+    },
+    values: { role, goal, start },
+    onRestore: (content) => {
+      setRole(content.role ?? "");
+      setGoal(content.goal ?? "");
+      setStart(content.start ?? "");
+    },
+  });
+
+  const handleSave = async () => {
+    // Kept until the save succeeds, so a failed save loses nothing
+    draft.saveNow();
+    const saved = onSave({
       ...(cast?.cast_id && { cast_id: cast.cast_id }),
       scene_id: sceneId,
       role,
@@ -52,63 +76,98 @@ export default function CastForm({
       start,
     });
     onOpenChange(false);
+    if (await saved) {
+      draft.clear();
+    }
+  };
+
+  // Closing with unsaved changes asks first
+  const handleOpenChange = (next: boolean) => {
+    if (!next && draft.isDirty) {
+      setConfirmCloseOpen(true);
+      return;
+    }
+    onOpenChange(next);
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl" data-testid="dialog-cast-form">
-        <DialogHeader>
-          <DialogTitle>
-            {cast ? "Edit Cast Member" : "Add Cast Member"}
-          </DialogTitle>
-        </DialogHeader>
-        <div className="space-y-6 py-4">
-          <div className="space-y-2">
-            <Label htmlFor="role">Role</Label>
-            <Input
-              id="role"
-              value={role}
-              onChange={(e) => setRole(e.target.value)}
-              placeholder="e.g., Detective, Client"
-              data-testid="input-cast-role"
-            />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="goal">Goal</Label>
-            <Textarea
-              id="goal"
-              value={goal}
-              onChange={(e) => setGoal(e.target.value)}
-              placeholder="What does this character want to achieve?"
-              className="min-h-32"
-              data-testid="input-cast-goal"
-            />
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-cast-form">
+          <DialogHeader>
+            <DialogTitle>
+              {cast ? "Edit Cast Member" : "Add Cast Member"}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-6 py-4">
+            {draft.pendingDraft && (
+              <DraftRestorePrompt
+                draft={draft.pendingDraft}
+                onRestore={draft.restoreDraft}
+                onDiscard={draft.discardDraft}
+              />
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="role">Role</Label>
+              <Input
+                id="role"
+                value={role}
+                onChange={(e) => setRole(e.target.value)}
+                placeholder="e.g., Detective, Client"
+                data-testid="input-cast-role"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="goal">Goal</Label>
+              <Textarea
+                id="goal"
+                value={goal}
+                onChange={(e) => setGoal(e.target.value)}
+                placeholder="What does this character want to achieve?"
+                className="min-h-32"
+                data-testid="input-cast-goal"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="start">Start</Label>
+              <Textarea
+                id="start"
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+                placeholder="How does this character enter the scene?"
+                className="min-h-32"
+                data-testid="input-cast-start"
+              />
+            </div>
           </div>
-          <div className="space-y-2">
-            <Label htmlFor="start">Start</Label>
-            <Textarea
-              id="start"
-              value={start}
-              onChange={(e) => setStart(e.target.value)}
-              placeholder="How does this character enter the scene?"
-              className="min-h-32"
-              data-testid="input-cast-start"
-            />
-          </div>
-        </div>
-        <DialogFooter>
-          <Button
-            variant="ghost"
-            onClick={() => onOpenChange(false)}
-            data-testid="button-cancel"
-          >
-            Cancel
-          </Button>
-          <Button onClick={handleSave} data-testid="button-save-cast">
-            Save Cast Member
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+          <DialogFooter>
+            <Button
+              variant="ghost"
+              onClick={() => handleOpenChange(false)}
+              data-testid="button-cancel"
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSave} data-testid="button-save-cast">
+              Save Cast Member
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <UnsavedChangesDialog
+        open={confirmCloseOpen}
+        onKeepEditing={() => setConfirmCloseOpen(false)}
+        onDiscard={() => {
+          draft.clear();
+          setConfirmCloseOpen(false);
+          onOpenChange(false);
+        }}
+        onClose={() => {
+          setConfirmCloseOpen(false);
+          onOpenChange(false);
+        }}
+      />
+    </>
   );
 }
@@ -12,16 +12,19 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { Eye, ChevronDown } from "lucide-react";
+import { Eye, ChevronDown, Send } from "lucide-react";
 import type { Character } from "@shared/api-types";
 import IdDisplay from "@/components/IdDisplay";
 
 interface CharacterCardProps {
   character: Character;
+  // Shown as a "Copy to account…" action when provided
+  onCopyToAccount?: (character: Character) => void;
 }
 
 export default function CharacterCard({
   character,
+  onCopyToAccount,
 }: CharacterCardProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [, setLocation] = useLocation();
@@ -37,6 +40,23 @@ export default function CharacterCard({
             <IdDisplay id={character.character_id} testId="text-character-id" />
           </div>
           <div className="flex items-center gap-2">
+            {onCopyToAccount && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onCopyToAccount(character)}
+                    data-testid="button-copy-character-to-account"
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Copy to account…</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -10,13 +10,18 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
+import DraftRestorePrompt from "@/components/DraftRestorePrompt";
+import UnsavedChangesDialog from "@/components/UnsavedChangesDialog";
+import { useFormDraft } from "@/hooks/use-form-draft";
+import { draftKeys } from "@/lib/formDrafts";
 import type { Character } from "@shared/api-types";
 
 interface CharacterFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   character?: Character;
-  onSave: (character: Partial<Character>) => void;
+  // Resolves true once saved; until then the form's draft is kept
+  onSave: (character: Partial<Character>) => Promise<boolean>;
 }
 
 export default function CharacterForm({
@@ -41,71 +46,125 @@ export default function CharacterForm({
     }
   }, [character, open]);
 
-  const handleSave = () => {
-    onSave({
+  const [confirmCloseOpen, setConfirmCloseOpen] = useState(false);
+  const draft = useFormDraft({
+    draftKey: draftKeys.character(character?.character_id),
+    open,
+    initial: {
+      name: character?.name ?? "",
+      description: character?.description ?? "",
+      motivation: character?.motivation ?? "",
+    },
+    values: { name, description, motivation },
+    onRestore: (content) => {
+      setName(content.name ?? "");
+      setDescription(content.description ?? "");
+      setMotivation(content.motivation ?? "");
+    },
+  });
+
+  const handleSave = async () => {
+    // Kept until the save succeeds, so a failed save loses nothing
+    draft.saveNow();
+    const saved = onSave({
       ...(character?.character_id && { character_id: character.character_id }),
       name,
       description,
       motivation,
     });
     onOpenChange(false);
+    if (await saved) {
+      draft.clear();
+    }
+  };
+
+  // Closing with unsaved changes asks first
+  const handleOpenChange = (next: boolean) => {
+    if (!next && draft.isDirty) {
+      setConfirmCloseOpen(true);
+      return;
+    }
+    onOpenChange(next);
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl" data-testid="dialog-character-form">
-        <DialogHeader>
-          <DialogTitle>
-            {character ? "Edit Character" : "Add New Character"}
-          </DialogTitle>
-        </DialogHeader>
-        <div className="space-y-6 py-4">
-          <div className="space-y-2">
-            <Label htmlFor="name">Name</Label>
-            <Input
-              id="name"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              placeholder="Character name"
-              data-testid="input-character-name"
-            />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
-            <Textarea
-              id="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Character description"
-              className="min-h-32"
-              data-testid="input-character-description"
-            />
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-character-form">
+          <DialogHeader>
+            <DialogTitle>
+              {character ? "Edit Character" : "Add New Character"}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-6 py-4">
+            {draft.pendingDraft && (
+              <DraftRestorePrompt
+                draft={draft.pendingDraft}
+                onRestore={draft.restoreDraft}
+                onDiscard={draft.discardDraft}
+              />
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Character name"
+                data-testid="input-character-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Character description"
+                className="min-h-32"
+                data-testid="input-character-description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="motivation">Motivation</Label>
+              <Textarea
+                id="motivation"
+                value={motivation}
+                onChange={(e) => setMotivation(e.target.value)}
+                placeholder="Character motivation"
+                className="min-h-32"
+                data-testid="input-character-motivation"
+              />
+            </div>
           </div>
-          <div className="space-y-2">
-            <Label htmlFor="motivation">Motivation</Label>
-            <Textarea
-              id="motivation"
-              value={motivation}
-              onChange={(e) => setMotivation(e.target.value)}
-              placeholder="Character motivation"
-              className="min-h-32"
-              data-testid="input-character-motivation"
-            />
-          </div>
-        </div>
-        <DialogFooter>
-          <Button
-            variant="ghost"
-            onClick={() => onOpenChange(false)}
-            data-testid="button-cancel"
-          >
-            Cancel
-          </Button>
-          <Button onClick={handleSave} data-testid="button-save-character">
-            Save Character
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+          <DialogFooter>
+            <Button
+              variant="ghost"
+              onClick={() => handleOpenChange(false)}
+              data-testid="button-cancel"
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSave} data-testid="button-save-character">
+              Save Character
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <UnsavedChangesDialog
+        open={confirmCloseOpen}
+        onKeepEditing={() => setConfirmCloseOpen(false)}
+        onDiscard={() => {
+          draft.clear();
+          setConfirmCloseOpen(false);
+          onOpenChange(false);
+        }}
+        onClose={() => {
+          setConfirmCloseOpen(false);
+          onOpenChange(false);
+        }}
+      />
+    </>
   );
 }
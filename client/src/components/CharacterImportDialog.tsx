@@ -0,0 +1,407 @@
+import { useState, useEffect, useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, CheckCircle2 } from "lucide-react";
+import ErrorDetails from "@/components/ErrorDetails";
+import { DELIMITER_LABELS, detectDelimiter, parseDelimited, type Delimiter } from "@/lib/delimitedText";
+import {
+  CHARACTER_FIELDS,
+  guessColumnMapping,
+  hasHeaderRow,
+  importCharacters,
+  planCharacterImport,
+  type ColumnMapping,
+  type ImportProgress,
+  type ImportRow,
+  type ImportRowResult,
+} from "@/lib/characterImport";
+import { apiClient } from "@/lib/lunchWithApi";
+import { useRefreshAccountData } from "@/hooks/use-lunchwith";
+import type { Character } from "@shared/api-types";
+
+interface CharacterImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Current (non-deleted) characters, used to flag duplicates
+  characters: Character[];
+}
+
+type Step = "source" | "preview" | "importing" | "report";
+
+const FIELD_LABELS = { name: "Name", description: "Description", motivation: "Motivation" } as const;
+
+const STATUS_BADGES = {
+  ready: { label: "Ready", variant: "secondary" },
+  duplicate: { label: "Duplicate", variant: "outline" },
+  invalid: { label: "Invalid", variant: "destructive" },
+} as const;
+
+// Select value for "do not import this field"
+const UNMAPPED = "none";
+
+/**
+ * Imports characters from CSV/TSV (see lib/characterImport)
+ *
+ * Steps:
+ * - source: choose a .csv/.tsv file or paste cells copied from a spreadsheet
+ * - preview: map columns to character fields and review a dry run of every
+ *   row, with invalid rows and duplicates of existing characters flagged
+ * - importing: progress while each character is created
+ * - report: per-row results, with failed rows available to retry
+ */
+export default function CharacterImportDialog({ open, onOpenChange, characters }: CharacterImportDialogProps) {
+  const refreshAccountData = useRefreshAccountData();
+
+  const [step, setStep] = useState<Step>("source");
+  const [text, setText] = useState("");
+  const [sourceError, setSourceError] = useState("");
+  const [delimiter, setDelimiter] = useState<Delimiter>(",");
+  const [headerRow, setHeaderRow] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({ name: null, description: null, motivation: null });
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+
+  // Reset whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setStep("source");
+      setText("");
+      setSourceError("");
+      setIncludeDuplicates(false);
+      setProgress(null);
+      setResults([]);
+    }
+  }, [open]);
+
+  const rows = useMemo(() => parseDelimited(text, delimiter), [text, delimiter]);
+  const columnCount = useMemo(() => Math.max(0, ...rows.map((row) => row.fields.length)), [rows]);
+  const plan = useMemo(
+    () => planCharacterImport(rows, mapping, headerRow, characters),
+    [rows, mapping, headerRow, characters]
+  );
+
+  const toImport = plan.filter((row) => row.status === "ready" || (includeDuplicates && row.status === "duplicate"));
+  const countOf = (status: ImportRow["status"]) => plan.filter((row) => row.status === status).length;
+  const failed = results.filter((result) => result.status === "failed");
+
+  /**
+   * Detects the delimiter, header row and column mapping for new source text
+   */
+  const loadSource = (source: string) => {
+    const detected = detectDelimiter(source);
+    const parsed = parseDelimited(source, detected);
+    if (parsed.length === 0) {
+      setSourceError("No rows found. Paste or choose a file with at least one character.");
+      return;
+    }
+
+    const detectedHeader = hasHeaderRow(parsed[0].fields);
+    setText(source);
+    setDelimiter(detected);
+    setHeaderRow(detectedHeader);
+    setMapping(guessColumnMapping(parsed[0].fields, detectedHeader));
+    setSourceError("");
+    setStep("preview");
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      loadSource(await file.text());
+    } catch (error) {
+      setSourceError(error instanceof Error ? error.message : "The file could not be read.");
+    }
+  };
+
+  const handleDelimiterChange = (next: Delimiter) => {
+    const parsed = parseDelimited(text, next);
+    setDelimiter(next);
+    if (parsed.length > 0) setMapping(guessColumnMapping(parsed[0].fields, headerRow));
+  };
+
+  const handleHeaderRowChange = (next: boolean) => {
+    setHeaderRow(next);
+    if (rows.length > 0) setMapping(guessColumnMapping(rows[0].fields, next));
+  };
+
+  const runImport = async (importRows: ImportRow[], previous: ImportRowResult[]) => {
+    setStep("importing");
+    const imported = await importCharacters(apiClient, importRows, setProgress);
+    setResults([...previous, ...imported].sort((a, b) => a.row.line - b.row.line));
+    setStep("report");
+    await refreshAccountData();
+  };
+
+  const columnLabel = (index: number) => {
+    const header = headerRow ? rows[0]?.fields[index]?.trim() : "";
+    return header ? `${header} (column ${index + 1})` : `Column ${index + 1}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => step !== "importing" && onOpenChange(next)}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto" data-testid="dialog-import-characters">
+        <DialogHeader>
+          <DialogTitle>Import Characters</DialogTitle>
+          <DialogDescription>
+            Create characters from a CSV file or from cells copied out of a spreadsheet. Columns can be mapped to
+            name, description and motivation; nothing is created until you confirm the preview.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "source" && (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="character-import-file">File (.csv or .tsv)</Label>
+              <Input
+                id="character-import-file"
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+                data-testid="input-character-import-file"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="character-import-paste">Or paste from a spreadsheet</Label>
+              <Textarea
+                id="character-import-paste"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={"Name\tDescription\tMotivation\nAda\tA retired engineer\tFinish her last invention"}
+                className="min-h-40 font-mono text-sm"
+                data-testid="input-character-import-paste"
+              />
+            </div>
+            {sourceError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription data-testid="text-character-import-error">{sourceError}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-6 py-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="character-import-delimiter">Separator</Label>
+                <Select value={delimiter} onValueChange={(value) => handleDelimiterChange(value as Delimiter)}>
+                  <SelectTrigger id="character-import-delimiter" data-testid="select-character-import-delimiter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DELIMITER_LABELS) as Delimiter[]).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {DELIMITER_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <Checkbox
+                  id="character-import-header"
+                  checked={headerRow}
+                  onCheckedChange={(checked) => handleHeaderRowChange(checked === true)}
+                  data-testid="checkbox-character-import-header"
+                />
+                <Label htmlFor="character-import-header">First row contains column names</Label>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {CHARACTER_FIELDS.map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`character-import-column-${field}`}>{FIELD_LABELS[field]}</Label>
+                  <Select
+                    value={mapping[field] === null ? UNMAPPED : String(mapping[field])}
+                    onValueChange={(value) =>
+                      setMapping((current) => ({ ...current, [field]: value === UNMAPPED ? null : Number(value) }))
+                    }
+                  >
+                    <SelectTrigger id={`character-import-column-${field}`} data-testid={`select-column-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                      {Array.from({ length: columnCount }, (_, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {columnLabel(index)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-sm text-muted-foreground" data-testid="text-character-import-summary">
+              {plan.length} rows: {countOf("ready")} ready, {countOf("duplicate")} duplicates, {countOf("invalid")}{" "}
+              invalid
+            </p>
+
+            {countOf("duplicate") > 0 && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="character-import-duplicates"
+                  checked={includeDuplicates}
+                  onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                  data-testid="checkbox-character-import-duplicates"
+                />
+                <Label htmlFor="character-import-duplicates">Import duplicates anyway</Label>
+              </div>
+            )}
+
+            <div className="max-h-80 overflow-y-auto border rounded-md">
+              <Table data-testid="table-character-import-preview">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Line</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Motivation</TableHead>
+                    <TableHead className="w-40">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.map((row) => (
+                    <TableRow key={row.line} data-testid={`row-character-import-${row.line}`}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell className="font-medium">{row.character.name}</TableCell>
+                      <TableCell className="max-w-48 truncate">{row.character.description}</TableCell>
+                      <TableCell className="max-w-48 truncate">{row.character.motivation}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGES[row.status].variant}>{STATUS_BADGES[row.status].label}</Badge>
+                        {row.reason && <p className="text-xs text-muted-foreground mt-1">{row.reason}</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {step === "importing" && progress && (
+          <div className="space-y-2 py-4">
+            <Progress value={(progress.completed / Math.max(progress.total, 1)) * 100} />
+            <p className="text-sm text-muted-foreground" data-testid="text-character-import-progress">
+              {progress.step} ({progress.completed}/{progress.total})
+            </p>
+          </div>
+        )}
+
+        {step === "report" && (
+          <div className="space-y-4 py-4" data-testid="character-import-report">
+            {failed.length === 0 ? (
+              <Alert>
+                <CheckCircle2 className="h-4 w-4" />
+                <AlertTitle>Import complete</AlertTitle>
+                <AlertDescription>Created {results.length} characters.</AlertDescription>
+              </Alert>
+            ) : (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Import partly failed</AlertTitle>
+                <AlertDescription>
+                  Created {results.length - failed.length} of {results.length} characters; {failed.length} failed.
+                  Created characters were kept.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="max-h-80 overflow-y-auto border rounded-md">
+              <Table data-testid="table-character-import-results">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Line</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result) => (
+                    <TableRow key={result.row.line} data-testid={`row-character-import-result-${result.row.line}`}>
+                      <TableCell className="text-muted-foreground">{result.row.line}</TableCell>
+                      <TableCell className="font-medium">{result.row.character.name}</TableCell>
+                      <TableCell>
+                        {result.status === "created" ? (
+                          <Badge variant="secondary">Created</Badge>
+                        ) : (
+                          <div className="space-y-1">
+                            <Badge variant="destructive">Failed</Badge>
+                            <ErrorDetails error={result.error} />
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "source" && (
+            <Button onClick={() => loadSource(text)} disabled={!text.trim()} data-testid="button-character-import-preview">
+              Preview
+            </Button>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("source")} data-testid="button-character-import-back">
+                Back
+              </Button>
+              <Button
+                onClick={() => runImport(toImport, [])}
+                disabled={toImport.length === 0}
+                data-testid="button-start-character-import"
+              >
+                Import {toImport.length} {toImport.length === 1 ? "Character" : "Characters"}
+              </Button>
+            </>
+          )}
+          {step === "report" && (
+            <>
+              {failed.length > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    runImport(
+                      failed.map((result) => result.row),
+                      results.filter((result) => result.status === "created")
+                    )
+                  }
+                  data-testid="button-retry-character-import"
+                >
+                  Retry Failed
+                </Button>
+              )}
+              <Button onClick={() => onOpenChange(false)} data-testid="button-close-character-import">
+                Close
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
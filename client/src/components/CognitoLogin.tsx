@@ -10,7 +10,15 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle } from "lucide-react";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { AlertCircle, CheckCircle2 } from "lucide-react";
+import {
+  cognitoAuth,
+  getCognitoErrorCode,
+  getCognitoErrorMessage,
+  type AuthChallenge,
+  type SignInResult,
+} from "@/lib/cognitoAuth";
 
 interface CognitoLoginProps {
   open: boolean;
@@ -18,6 +26,24 @@ interface CognitoLoginProps {
   onLoginSuccess: () => void;
 }
 
+const MFA_CODE_LENGTH = 6;
+
+// Account recovery screens, shown instead of the credentials form
+type RecoveryView = "forgotPassword" | "resetPassword" | "confirmAccount";
+
+/**
+ * Sign-in dialog
+ *
+ * Steps:
+ * - credentials: username and password
+ * - new password: shown when Cognito requires a temporary password to be replaced
+ * - MFA code: shown for SMS or authenticator app (TOTP) challenges
+ *
+ * Account recovery:
+ * - forgot password: send a code, then confirm it with a new password
+ * - confirm account: enter (or resend) the sign-up confirmation code; also
+ *   shown when signing in to an unconfirmed account
+ */
 export default function CognitoLogin({
   open,
   onOpenChange,
@@ -26,87 +52,490 @@ export default function CognitoLogin({
   // Login state
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
-  
+
+  // Challenge state
+  const [challenge, setChallenge] = useState<AuthChallenge | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [mfaCode, setMfaCode] = useState("");
+
+  // Recovery state
+  const [recovery, setRecovery] = useState<RecoveryView | null>(null);
+  const [verificationCode, setVerificationCode] = useState("");
+  const [codeDestination, setCodeDestination] = useState<string | undefined>();
+
   // UI state
   const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleLogin = async () => {
-    if (!username || !password) {
-      setError("Please enter both username and password");
-      return;
+  const resetChallenge = () => {
+    cognitoAuth.cancelChallenge();
+    setChallenge(null);
+    setNewPassword("");
+    setConfirmPassword("");
+    setMfaCode("");
+  };
+
+  /**
+   * Switches between the credentials form and the recovery screens
+   */
+  const showRecovery = (view: RecoveryView | null) => {
+    setRecovery(view);
+    setVerificationCode("");
+    setNewPassword("");
+    setConfirmPassword("");
+    setError("");
+    setNotice("");
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      resetChallenge();
+      showRecovery(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  /**
+   * Runs a recovery action with loading and error handling
+   * @returns Whether the action succeeded
+   */
+  const runRecovery = async (action: () => Promise<void>, fallbackError: string): Promise<boolean> => {
+    setIsLoading(true);
+    setError("");
+    setNotice("");
+
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(getCognitoErrorMessage(err, fallbackError));
+      return false;
+    } finally {
+      setIsLoading(false);
     }
+  };
 
+  /**
+   * Runs a sign-in step and moves to the next challenge or finishes
+   */
+  const runStep = async (step: () => Promise<SignInResult>, fallbackError: string) => {
     setIsLoading(true);
     setError("");
+    setNotice("");
 
     try {
-      const { cognitoAuth } = await import("@/lib/cognitoAuth");
-      await cognitoAuth.signIn(username, password);
-      
+      const result = await step();
+      if (result.status === "challenge") {
+        setChallenge(result.challenge);
+        setMfaCode("");
+        return;
+      }
+
       // Success - notify parent component
+      resetChallenge();
       onLoginSuccess();
       onOpenChange(false);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Login failed");
+      if (getCognitoErrorCode(err) === "UserNotConfirmedException") {
+        showRecovery("confirmAccount");
+      }
+      setError(getCognitoErrorMessage(err, fallbackError));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleLogin = async () => {
+    if (!username || !password) {
+      setError("Please enter both username and password");
+      return;
+    }
+
+    await runStep(() => cognitoAuth.signIn(username, password), "Login failed");
+  };
+
+  const handleNewPassword = async () => {
+    if (!newPassword) {
+      setError("Please enter a new password");
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    await runStep(() => cognitoAuth.completeNewPassword(newPassword), "Failed to set new password");
+  };
+
+  const handleMfaCode = async (code: string = mfaCode) => {
+    if (code.length !== MFA_CODE_LENGTH) {
+      setError(`Please enter the ${MFA_CODE_LENGTH}-digit code`);
+      return;
+    }
+
+    await runStep(() => cognitoAuth.submitMfaCode(code), "Verification failed");
+  };
+
+  const requireUsername = () => {
+    if (!username) {
+      setError("Please enter your username");
+      return false;
+    }
+    return true;
+  };
+
+  const handleSendResetCode = async () => {
+    if (!requireUsername()) return;
+
+    const sent = await runRecovery(async () => {
+      const { destination } = await cognitoAuth.forgotPassword(username);
+      setCodeDestination(destination);
+    }, "Failed to send reset code");
+    if (sent) {
+      setRecovery("resetPassword");
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!verificationCode) {
+      setError("Please enter the verification code");
+      return;
+    }
+    if (!newPassword) {
+      setError("Please enter a new password");
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    const reset = await runRecovery(
+      () => cognitoAuth.confirmForgotPassword(username, verificationCode.trim(), newPassword),
+      "Failed to reset password"
+    );
+    if (reset) {
+      showRecovery(null);
+      setPassword("");
+      setNotice("Password reset. Sign in with your new password.");
+    }
+  };
+
+  const handleResendConfirmation = async () => {
+    if (!requireUsername()) return;
+
+    let destination: string | undefined;
+    const sent = await runRecovery(async () => {
+      ({ destination } = await cognitoAuth.resendConfirmationCode(username));
+    }, "Failed to resend confirmation code");
+    if (sent) {
+      setNotice(`Confirmation code sent${destination ? ` to ${destination}` : ""}.`);
+    }
+  };
+
+  const handleConfirmAccount = async () => {
+    if (!requireUsername()) return;
+    if (!verificationCode) {
+      setError("Please enter the confirmation code");
+      return;
+    }
+
+    const confirmed = await runRecovery(
+      () => cognitoAuth.confirmRegistration(username, verificationCode.trim()),
+      "Failed to confirm account"
+    );
+    if (confirmed) {
+      showRecovery(null);
+      setNotice("Account confirmed. Sign in to continue.");
+    }
+  };
+
+  // Rendered as e.g. " to a***@example.com" when Cognito reports the destination
+  const codeDestinationSuffix = () => (codeDestination ? ` to ${codeDestination}` : "");
+
+  const description = (() => {
+    if (cognitoAuth.isStubMode()) {
+      return "Stub sign-in for the local mock API: any username and password work";
+    }
+    switch (recovery) {
+      case "forgotPassword":
+        return "Enter your username and we'll send you a code to reset your password";
+      case "resetPassword":
+        return `Enter the code sent${codeDestinationSuffix()} and choose a new password`;
+      case "confirmAccount":
+        return "Enter the confirmation code sent when your account was created";
+    }
+    switch (challenge?.type) {
+      case "NEW_PASSWORD_REQUIRED":
+        return "Your password must be changed before you can continue";
+      case "SMS_MFA":
+        return `Enter the code sent to ${challenge.destination ?? "your phone"}`;
+      case "SOFTWARE_TOKEN_MFA":
+        return "Enter the code from your authenticator app";
+      default:
+        return "Sign in to access LunchWith.ai";
+    }
+  })();
+
+  const errorAlert = error ? (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription data-testid="text-login-error">{error}</AlertDescription>
+    </Alert>
+  ) : notice ? (
+    <Alert>
+      <CheckCircle2 className="h-4 w-4" />
+      <AlertDescription data-testid="text-login-notice">{notice}</AlertDescription>
+    </Alert>
+  ) : null;
+
+  const usernameField = (
+    <div className="space-y-2">
+      <Label htmlFor="username">Username or Email</Label>
+      <Input
+        id="username"
+        type="text"
+        placeholder="Enter your username"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        data-testid="input-username"
+      />
+    </div>
+  );
+
+  const verificationCodeField = (
+    <div className="space-y-2">
+      <Label htmlFor="verification-code">Verification Code</Label>
+      <Input
+        id="verification-code"
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder="Enter the code"
+        value={verificationCode}
+        onChange={(e) => setVerificationCode(e.target.value)}
+        data-testid="input-verification-code"
+      />
+    </div>
+  );
+
+  const newPasswordFields = (onSubmit: () => void) => (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="new-password">New Password</Label>
+        <Input
+          id="new-password"
+          type="password"
+          placeholder="Enter a new password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          data-testid="input-new-password"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirm-password">Confirm Password</Label>
+        <Input
+          id="confirm-password"
+          type="password"
+          placeholder="Enter the new password again"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !isLoading) {
+              onSubmit();
+            }
+          }}
+          data-testid="input-confirm-password"
+        />
+      </div>
+    </>
+  );
+
+  const backButton = (
+    <Button
+      variant="ghost"
+      className="w-full"
+      onClick={() => {
+        resetChallenge();
+        showRecovery(null);
+        setPassword("");
+      }}
+      disabled={isLoading}
+      data-testid="button-back-to-sign-in"
+    >
+      Back to sign in
+    </Button>
+  );
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-md" data-testid="dialog-cognito-login">
         <DialogHeader>
           <DialogTitle>AWS Cognito Authentication</DialogTitle>
-          <DialogDescription>
-            Sign in to access LunchWith.ai
-          </DialogDescription>
+          <DialogDescription>{description}</DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="username">Username or Email</Label>
-            <Input
-              id="username"
-              type="text"
-              placeholder="Enter your username"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              data-testid="input-username"
-            />
+        {recovery === "forgotPassword" ? (
+          <div className="space-y-4">
+            {usernameField}
+            {errorAlert}
+            <Button
+              onClick={handleSendResetCode}
+              className="w-full"
+              disabled={isLoading}
+              data-testid="button-send-reset-code"
+            >
+              {isLoading ? "Sending..." : "Send Reset Code"}
+            </Button>
+            {backButton}
+          </div>
+        ) : recovery === "resetPassword" ? (
+          <div className="space-y-4">
+            {verificationCodeField}
+            {newPasswordFields(handleResetPassword)}
+            {errorAlert}
+            <Button
+              onClick={handleResetPassword}
+              className="w-full"
+              disabled={isLoading}
+              data-testid="button-reset-password"
+            >
+              {isLoading ? "Resetting..." : "Reset Password"}
+            </Button>
+            <Button
+              variant="ghost"
+              className="w-full"
+              onClick={handleSendResetCode}
+              disabled={isLoading}
+              data-testid="button-resend-reset-code"
+            >
+              Send a new code
+            </Button>
+            {backButton}
+          </div>
+        ) : recovery === "confirmAccount" ? (
+          <div className="space-y-4">
+            {usernameField}
+            {verificationCodeField}
+            {errorAlert}
+            <Button
+              onClick={handleConfirmAccount}
+              className="w-full"
+              disabled={isLoading}
+              data-testid="button-confirm-account"
+            >
+              {isLoading ? "Confirming..." : "Confirm Account"}
+            </Button>
+            <Button
+              variant="ghost"
+              className="w-full"
+              onClick={handleResendConfirmation}
+              disabled={isLoading}
+              data-testid="button-resend-confirmation"
+            >
+              Resend confirmation code
+            </Button>
+            {backButton}
+          </div>
+        ) : challenge?.type === "NEW_PASSWORD_REQUIRED" ? (
+          <div className="space-y-4">
+            {newPasswordFields(handleNewPassword)}
+            {errorAlert}
+            <Button
+              onClick={handleNewPassword}
+              className="w-full"
+              disabled={isLoading}
+              data-testid="button-set-password"
+            >
+              {isLoading ? "Saving..." : "Set Password"}
+            </Button>
+            {backButton}
+          </div>
+        ) : challenge ? (
+          <div className="space-y-4">
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={MFA_CODE_LENGTH}
+                value={mfaCode}
+                onChange={setMfaCode}
+                onComplete={(code: string) => {
+                  if (!isLoading) {
+                    handleMfaCode(code);
+                  }
+                }}
+                autoFocus
+                data-testid="input-mfa-code"
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: MFA_CODE_LENGTH }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            {errorAlert}
+            <Button
+              onClick={() => handleMfaCode()}
+              className="w-full"
+              disabled={isLoading}
+              data-testid="button-verify-code"
+            >
+              {isLoading ? "Verifying..." : "Verify"}
+            </Button>
+            {backButton}
           </div>
-          <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
-            <Input
-              id="password"
-              type="password"
-              placeholder="Enter your password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === "Enter" && !isLoading) {
-                  handleLogin();
-                }
-              }}
-              data-testid="input-password"
-            />
+        ) : (
+          <div className="space-y-4">
+            {usernameField}
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder="Enter your password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !isLoading) {
+                    handleLogin();
+                  }
+                }}
+                data-testid="input-password"
+              />
+            </div>
+            {errorAlert}
+            <Button
+              onClick={handleLogin}
+              className="w-full"
+              disabled={isLoading}
+              data-testid="button-sign-in"
+            >
+              {isLoading ? "Signing in..." : "Sign In"}
+            </Button>
+            {!cognitoAuth.isStubMode() && (
+              <div className="flex justify-between text-sm">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => showRecovery("forgotPassword")}
+                  data-testid="link-forgot-password"
+                >
+                  Forgot password?
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => showRecovery("confirmAccount")}
+                  data-testid="link-confirm-account"
+                >
+                  Resend confirmation
+                </Button>
+              </div>
+            )}
           </div>
-          {error && (
-            <Alert variant="destructive">
-              <AlertCircle className="h-4 w-4" />
-              <AlertDescription>{error}</AlertDescription>
-            </Alert>
-          )}
-          <Button 
-            onClick={handleLogin} 
-            className="w-full"
-            disabled={isLoading}
-            data-testid="button-sign-in"
-          >
-            {isLoading ? "Signing in..." : "Sign In"}
-          </Button>
-        </div>
+        )}
       </DialogContent>
     </Dialog>
   );
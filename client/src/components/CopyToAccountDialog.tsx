@@ -0,0 +1,214 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, CheckCircle2 } from "lucide-react";
+import ErrorDetails from "@/components/ErrorDetails";
+import IdDisplay from "@/components/IdDisplay";
+import { cognitoAuth } from "@/lib/cognitoAuth";
+import {
+  copyCharacterToAccount,
+  copySceneToAccount,
+  type AccountCopyReport,
+  type CopyProgress,
+} from "@/lib/accountCopy";
+import { useRefreshAccountData } from "@/hooks/use-lunchwith";
+import type { Character, Scene, UserAccount } from "@shared/api-types";
+
+export type CopyToAccountItem = { kind: "character"; character: Character } | { kind: "scene"; scene: Scene };
+
+interface CopyToAccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // What to copy; the dialog stays closed without one
+  item: CopyToAccountItem | null;
+  // Accounts from the user profile, used for contact names
+  accounts: UserAccount[];
+}
+
+type Step = "select" | "copying" | "report";
+
+const KIND_LABELS = { character: "Character", scene: "Scene", cast: "Cast member" } as const;
+
+/**
+ * Whether the signed-in user has another account to copy into
+ */
+export function canCopyToAccount(): boolean {
+  return cognitoAuth.getAvailableUserIds().length > 1;
+}
+
+/**
+ * Copies a character, or a scene with its cast, into another of the user's
+ * LWAI accounts (see lib/accountCopy)
+ *
+ * Steps:
+ * - select: choose the target account
+ * - copying: progress while the copies are created
+ * - report: the new ids in the target account, and any failures
+ */
+export default function CopyToAccountDialog({ open, onOpenChange, item, accounts }: CopyToAccountDialogProps) {
+  const refreshAccountData = useRefreshAccountData();
+
+  const [step, setStep] = useState<Step>("select");
+  const [targetUserId, setTargetUserId] = useState("");
+  const [progress, setProgress] = useState<CopyProgress | null>(null);
+  const [report, setReport] = useState<AccountCopyReport | null>(null);
+
+  const currentUserId = cognitoAuth.getSelectedUserId();
+  const targets = cognitoAuth.getAvailableUserIds().filter((id) => id !== currentUserId);
+
+  // Reset whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setStep("select");
+      setTargetUserId(targets[0] ?? "");
+      setProgress(null);
+      setReport(null);
+    }
+  }, [open]);
+
+  const accountLabel = (accountId: string) => {
+    const account = accounts.find((entry) => entry.user_id === accountId);
+    return account?.contactName ? `${account.contactName} (${accountId})` : accountId;
+  };
+
+  const itemName = item?.kind === "character" ? item.character.name : item?.scene.name;
+
+  const handleCopy = async () => {
+    if (!item || !targetUserId) return;
+
+    setStep("copying");
+    const result =
+      item.kind === "character"
+        ? await copyCharacterToAccount(item.character, targetUserId, setProgress)
+        : await copySceneToAccount(item.scene, targetUserId, setProgress);
+    setReport(result);
+    setStep("report");
+    await refreshAccountData(targetUserId);
+  };
+
+  return (
+    <Dialog open={open && item !== null} onOpenChange={(next) => step !== "copying" && onOpenChange(next)}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto" data-testid="dialog-copy-to-account">
+        <DialogHeader>
+          <DialogTitle>Copy to Account</DialogTitle>
+          <DialogDescription>
+            {item?.kind === "scene"
+              ? `Create a copy of "${itemName}" and its cast members in another account.`
+              : `Create a copy of "${itemName}" in another account.`}{" "}
+            The copy gets new IDs; the original stays in this account.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "select" && (
+          <div className="space-y-2 py-4">
+            <Label htmlFor="copy-target">Copy into</Label>
+            <Select value={targetUserId} onValueChange={setTargetUserId}>
+              <SelectTrigger id="copy-target" data-testid="select-copy-target">
+                <SelectValue placeholder="Choose an account" />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {accountLabel(id)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {step === "copying" && progress && (
+          <div className="space-y-2 py-4">
+            <Progress value={(progress.completed / Math.max(progress.total, 1)) * 100} />
+            <p className="text-sm text-muted-foreground" data-testid="text-copy-progress">
+              {progress.step} ({progress.completed}/{progress.total})
+            </p>
+          </div>
+        )}
+
+        {step === "report" && report && (
+          <div className="space-y-4 py-4" data-testid="copy-report">
+            {report.failed.length === 0 ? (
+              <Alert>
+                <CheckCircle2 className="h-4 w-4" />
+                <AlertTitle>Copy complete</AlertTitle>
+                <AlertDescription>Copied into {accountLabel(report.targetUserId)}.</AlertDescription>
+              </Alert>
+            ) : (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>{report.copied.length === 0 ? "Copy failed" : "Copy partly failed"}</AlertTitle>
+                <AlertDescription>
+                  Copied {report.copied.length} items into {accountLabel(report.targetUserId)}; {report.failed.length}{" "}
+                  failed. Copied items were kept.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {report.copied.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">New IDs in the target account</p>
+                <ul className="space-y-2">
+                  {report.copied.map((copied) => (
+                    <li
+                      key={`${copied.kind}:${copied.sourceId}`}
+                      className="text-sm border rounded-md p-2 space-y-1"
+                      data-testid={`copied-${copied.kind}-${copied.sourceId}`}
+                    >
+                      <p className="font-medium">
+                        {KIND_LABELS[copied.kind]} "{copied.name}"
+                      </p>
+                      <IdDisplay id={copied.newId} label={`New ${KIND_LABELS[copied.kind].toLowerCase()} ID`} />
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.failed.length > 0 && (
+              <ul className="space-y-2">
+                {report.failed.map((failure) => (
+                  <li key={`${failure.kind}:${failure.sourceId}`} className="text-sm border rounded-md p-2 space-y-1">
+                    <p className="font-medium">
+                      {KIND_LABELS[failure.kind]} "{failure.name}"
+                    </p>
+                    <ErrorDetails error={failure.error} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "select" && (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-copy">
+                Cancel
+              </Button>
+              <Button onClick={handleCopy} disabled={!targetUserId} data-testid="button-start-copy">
+                Copy
+              </Button>
+            </>
+          )}
+          {step === "report" && (
+            <Button onClick={() => onOpenChange(false)} data-testid="button-close-copy">
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
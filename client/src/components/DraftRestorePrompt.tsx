@@ -0,0 +1,33 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { FileClock } from "lucide-react";
+import type { StoredDraft } from "@/lib/formDrafts";
+
+interface DraftRestorePromptProps {
+  draft: StoredDraft;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Offers an unsaved draft found when a form opens (see use-form-draft)
+ */
+export default function DraftRestorePrompt({ draft, onRestore, onDiscard }: DraftRestorePromptProps) {
+  return (
+    <Alert data-testid="prompt-restore-draft">
+      <FileClock className="h-4 w-4" />
+      <AlertTitle>Unsaved draft</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>You have changes from {new Date(draft.savedAt).toLocaleString()} that were not saved.</p>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={onRestore} data-testid="button-restore-draft">
+            Restore Draft
+          </Button>
+          <Button size="sm" variant="outline" onClick={onDiscard} data-testid="button-discard-draft">
+            Discard
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, RotateCcw } from "lucide-react";
+import ErrorDetails from "@/components/ErrorDetails";
+import { useEntityHistory } from "@/hooks/use-lunchwith";
+import { useToast } from "@/hooks/use-toast";
+import { diffVersion, revertContent } from "@/lib/entityHistory";
+import type { EntityHistoryVersion, HistoryEntityType } from "@shared/api-types";
+
+interface EntityHistoryProps {
+  entityType: HistoryEntityType;
+  entityId: string;
+  // Content fields to compare and restore, mapped to their labels
+  fields: Record<string, string>;
+  // Saves the given content as the entity's current state
+  onRevert: (content: Record<string, string>) => Promise<unknown>;
+}
+
+const ACTION_LABELS = { create: "Created", update: "Updated", delete: "Deleted" } as const;
+
+/**
+ * Version history of a character, scene or cast member (see lib/entityHistory)
+ *
+ * Lists every recorded write, newest first, with who made it, when, and the
+ * fields it changed. Any earlier version can be restored with "Revert to this
+ * version", which saves its content as a new version.
+ */
+export default function EntityHistory({ entityType, entityId, fields, onRevert }: EntityHistoryProps) {
+  const { toast } = useToast();
+  const { data: versions, isLoading, error, refetch } = useEntityHistory(entityType, entityId);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  // Report load failures
+  useEffect(() => {
+    if (!error) return;
+    toast({
+      title: "Error loading history",
+      description: <ErrorDetails error={error} />,
+      variant: "destructive",
+    });
+  }, [error]);
+
+  const fieldNames = Object.keys(fields);
+
+  const handleRevert = async (version: EntityHistoryVersion) => {
+    const content = revertContent(version, fieldNames);
+    if (!content) return;
+
+    setRevertingId(version.id);
+    try {
+      await onRevert(content);
+      toast({
+        title: "Version restored",
+        description: `Reverted to the version from ${new Date(version.createdAt).toLocaleString()}.`,
+      });
+    } catch (revertError) {
+      toast({
+        title: "Error reverting",
+        description: <ErrorDetails error={revertError} />,
+        variant: "destructive",
+      });
+    } finally {
+      setRevertingId(null);
+      await refetch();
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!versions || versions.length === 0) {
+    return (
+      <div className="text-center py-12" data-testid={`history-empty-${entityType}`}>
+        <p className="text-lg font-medium mb-2">No history yet</p>
+        <p className="text-sm text-muted-foreground">Changes saved through this app are recorded here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid={`history-${entityType}`}>
+      {versions.map((version, index) => {
+        const changes = diffVersion(version, fieldNames);
+        const canRevert = index > 0 && revertContent(version, fieldNames) !== null;
+
+        return (
+          <Card key={version.id} data-testid={`history-version-${version.id}`}>
+            <CardContent className="pt-6 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={version.action === "delete" ? "destructive" : "secondary"}>
+                      {ACTION_LABELS[version.action]}
+                    </Badge>
+                    {index === 0 && <Badge variant="outline">Current</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {new Date(version.createdAt).toLocaleString()} by {version.author}
+                  </p>
+                </div>
+                {canRevert && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevert(version)}
+                    disabled={revertingId !== null}
+                    data-testid="button-revert-version"
+                  >
+                    {revertingId === version.id ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                    )}
+                    Revert to this version
+                  </Button>
+                )}
+              </div>
+
+              {changes.length > 0 ? (
+                <div className="space-y-2 text-sm">
+                  {changes.map((change) => (
+                    <div key={change.field} className="grid grid-cols-[8rem_1fr] gap-2">
+                      <span className="text-muted-foreground">{fields[change.field]}</span>
+                      <div className="space-y-1 min-w-0">
+                        {version.action !== "create" && (
+                          <p className="line-through text-destructive break-words">{change.before || "(empty)"}</p>
+                        )}
+                        <p className="break-words">{change.after || "(empty)"}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                version.action !== "delete" && (
+                  <p className="text-sm text-muted-foreground">No content changes</p>
+                )
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useState } from "react";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { ChevronDown } from "lucide-react";
+import { getErrorMessage, getErrorTechnicalDetails } from "@/lib/apiError";
+
+interface ErrorDetailsProps {
+  error: unknown;
+}
+
+/**
+ * Renders a human-readable error message with an expandable technical section
+ * Intended for toast descriptions and inline error states
+ */
+export default function ErrorDetails({ error }: ErrorDetailsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const technical = getErrorTechnicalDetails(error);
+
+  return (
+    <div className="space-y-1" data-testid="error-details">
+      <p>{getErrorMessage(error)}</p>
+      {technical && (
+        <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+          <CollapsibleTrigger
+            className="flex items-center gap-1 text-xs underline opacity-80"
+            data-testid="button-toggle-error-details"
+          >
+            Technical details
+            <ChevronDown className={`w-3 h-3 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap break-all rounded bg-black/10 p-2 text-xs font-mono">
+              {technical}
+            </pre>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+}
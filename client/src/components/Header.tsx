@@ -1,12 +1,18 @@
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { LogOut, User } from "lucide-react";
+import { LogOut, User, Server } from "lucide-react";
+import type { UserAccount } from "@shared/api-types";
+import type { EnvironmentOption } from "@/lib/environment";
 
 interface HeaderProps {
+  environments: EnvironmentOption[]; // Upstream environments offered by the proxy
+  environment: string; // Active environment name
+  onEnvironmentChange: (name: string) => void;
   username: string;
   userId: string;
   availableUserIds: string[];
+  accounts: UserAccount[]; // Account metadata from /user/me, used for contact names
   isAuthenticated: boolean;
   onSignOut: () => void;
   onManageAuth: () => void;
@@ -14,9 +20,13 @@ interface HeaderProps {
 }
 
 export default function Header({ 
+  environments = [],
+  environment,
+  onEnvironmentChange,
   username, 
   userId, 
   availableUserIds = [], 
+  accounts = [],
   isAuthenticated, 
   onSignOut, 
   onManageAuth,
@@ -25,9 +35,20 @@ export default function Header({
   const [location] = useLocation();
   const hasMultipleAccounts = availableUserIds.length > 1;
   const currentIndex = availableUserIds.indexOf(userId);
+  const activeEnvironment = environments.find((option) => option.name === environment);
+  const isProduction = activeEnvironment?.production ?? false;
+
+  /**
+   * Looks up the contact name for an account, if the profile provides one
+   */
+  const contactNameFor = (id: string) =>
+    accounts.find((account) => account.user_id === id)?.contactName;
 
   return (
-    <header className="sticky top-0 z-50 bg-background border-b">
+    <header
+      className={`sticky top-0 z-50 bg-background border-b ${isProduction ? "border-b-2 border-destructive" : ""}`}
+      data-testid="header"
+    >
       <div className="max-w-7xl mx-auto px-8">
         <div className="flex items-center justify-between h-16">
           <div className="flex items-center gap-8">
@@ -49,9 +70,78 @@ export default function Header({
                   Scenes
                 </Button>
               </Link>
+              <Link href="/stories">
+                <Button
+                  variant={location === "/stories" ? "secondary" : "ghost"}
+                  data-testid="nav-stories"
+                >
+                  Stories
+                </Button>
+              </Link>
+              <Link href="/trash">
+                <Button
+                  variant={location === "/trash" ? "secondary" : "ghost"}
+                  data-testid="nav-trash"
+                >
+                  Trash
+                </Button>
+              </Link>
+              <Link href="/sync">
+                <Button
+                  variant={location === "/sync" ? "secondary" : "ghost"}
+                  data-testid="nav-sync"
+                >
+                  Sync
+                </Button>
+              </Link>
+              <Link href="/audit">
+                <Button
+                  variant={location === "/audit" ? "secondary" : "ghost"}
+                  data-testid="nav-audit"
+                >
+                  Audit
+                </Button>
+              </Link>
+              <Link href="/settings">
+                <Button
+                  variant={location === "/settings" ? "secondary" : "ghost"}
+                  data-testid="nav-settings"
+                >
+                  Settings
+                </Button>
+              </Link>
             </nav>
           </div>
           <div className="flex items-center gap-4">
+            {environments.length > 0 && (
+              <Select value={environment} onValueChange={onEnvironmentChange}>
+                <SelectTrigger
+                  className={`w-[170px] text-xs ${
+                    isProduction ? "border-destructive text-destructive font-semibold" : ""
+                  }`}
+                  data-testid="select-environment"
+                >
+                  <Server className="w-3.5 h-3.5 mr-1 shrink-0" />
+                  <SelectValue placeholder="Environment" />
+                </SelectTrigger>
+                <SelectContent>
+                  {environments.map((option) => (
+                    <SelectItem
+                      key={option.name}
+                      value={option.name}
+                      data-testid={`select-environment-${option.name}`}
+                    >
+                      <span className="text-xs">
+                        {option.label}
+                        {option.production && (
+                          <span className="text-destructive"> (production)</span>
+                        )}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             {isAuthenticated && (
               <>
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -65,21 +155,31 @@ export default function Header({
                     onValueChange={(value) => onAccountSwitch(parseInt(value, 10))}
                   >
                     <SelectTrigger 
-                      className="w-[280px] text-xs font-mono"
+                      className="w-[280px] text-xs"
                       data-testid="select-user-account"
                     >
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {availableUserIds.map((id, index) => (
-                        <SelectItem 
-                          key={id} 
-                          value={index.toString()}
-                          data-testid={`select-user-account-${index}`}
-                        >
-                          <span className="font-mono text-xs">{id}</span>
-                        </SelectItem>
-                      ))}
+                      {availableUserIds.map((id, index) => {
+                        const contactName = contactNameFor(id);
+                        return (
+                          <SelectItem 
+                            key={id} 
+                            value={index.toString()}
+                            data-testid={`select-user-account-${index}`}
+                          >
+                            {contactName ? (
+                              <span className="text-xs">
+                                {contactName}{" "}
+                                <span className="font-mono text-muted-foreground">{id.slice(0, 8)}</span>
+                              </span>
+                            ) : (
+                              <span className="font-mono text-xs">{id}</span>
+                            )}
+                          </SelectItem>
+                        );
+                      })}
                     </SelectContent>
                   </Select>
                 ) : (
@@ -87,7 +187,7 @@ export default function Header({
                     className="text-xs font-mono text-muted-foreground px-2 py-1 border rounded-md bg-muted/50"
                     data-testid="text-user-id"
                   >
-                    {userId}
+                    {contactNameFor(userId) ?? userId}
                   </div>
                 )}
               </>
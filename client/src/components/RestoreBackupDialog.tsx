@@ -0,0 +1,264 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, CheckCircle2, Download } from "lucide-react";
+import ErrorDetails from "@/components/ErrorDetails";
+import { apiClient } from "@/lib/lunchWithApi";
+import {
+  parseAccountBackup,
+  restoreAccountBackup,
+  summarizeBackup,
+  type AccountBackup,
+  type BackupProgress,
+  type RestoreReport,
+} from "@/lib/accountBackup";
+import { downloadJson } from "@/lib/sceneBundle";
+import { useRefreshAccountData } from "@/hooks/use-lunchwith";
+import type { UserAccount } from "@shared/api-types";
+
+interface RestoreBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Currently selected LWAI account, the default restore target
+  userId: string;
+  // Accounts the user can restore into
+  accounts: UserAccount[];
+}
+
+type Step = "select" | "preview" | "restoring" | "report";
+
+const KIND_LABELS = { character: "Character", scene: "Scene", cast: "Cast member" } as const;
+
+/**
+ * Restore wizard for account backups (see lib/accountBackup)
+ *
+ * Steps:
+ * - select: choose a backup file
+ * - preview: review what it contains and pick the target account
+ * - restoring: progress while every item is recreated
+ * - report: restored counts, failures, and a downloadable old -> new id map
+ */
+export default function RestoreBackupDialog({ open, onOpenChange, userId, accounts }: RestoreBackupDialogProps) {
+  const refreshAccountData = useRefreshAccountData();
+
+  const [step, setStep] = useState<Step>("select");
+  const [backup, setBackup] = useState<AccountBackup | null>(null);
+  const [fileError, setFileError] = useState("");
+  const [targetUserId, setTargetUserId] = useState(userId);
+  const [progress, setProgress] = useState<BackupProgress | null>(null);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  // Reset whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setStep("select");
+      setBackup(null);
+      setFileError("");
+      setTargetUserId(userId);
+      setProgress(null);
+      setReport(null);
+    }
+  }, [open, userId]);
+
+  const accountLabel = (accountId: string) => {
+    const account = accounts.find((entry) => entry.user_id === accountId);
+    return account?.contactName ? `${account.contactName} (${accountId})` : accountId;
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    setFileError("");
+
+    try {
+      setBackup(parseAccountBackup(await file.text()));
+      setStep("preview");
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "The file could not be read.");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    setStep("restoring");
+    const client = targetUserId === userId ? apiClient : apiClient.withTarget({ userId: targetUserId });
+    const result = await restoreAccountBackup(backup, client, targetUserId, setProgress);
+    setReport(result);
+    setStep("report");
+    await refreshAccountData(targetUserId);
+  };
+
+  const handleDownloadIdMap = () => {
+    if (!backup || !report) return;
+    downloadJson(`lunchwith-restore-idmap-${report.targetUserId}.json`, {
+      source: backup.source,
+      backupCreatedAt: backup.createdAt,
+      targetUserId: report.targetUserId,
+      restoredAt: new Date().toISOString(),
+      idMap: report.idMap,
+    });
+  };
+
+  const summary = backup ? summarizeBackup(backup) : null;
+  const restoredCount = report
+    ? Object.values(report.idMap).reduce((sum, ids) => sum + Object.keys(ids).length, 0)
+    : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => step !== "restoring" && onOpenChange(next)}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto" data-testid="dialog-restore-backup">
+        <DialogHeader>
+          <DialogTitle>Restore Backup</DialogTitle>
+          <DialogDescription>
+            Recreate the characters, scenes and cast members of an account backup. Restored items get new IDs and are
+            added alongside any existing items.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "select" && (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="backup-file">Backup file (.json)</Label>
+              <Input
+                id="backup-file"
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+                data-testid="input-backup-file"
+              />
+            </div>
+            {fileError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription data-testid="text-backup-error">{fileError}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && backup && summary && (
+          <div className="space-y-6 py-4">
+            <div className="space-y-1 text-sm">
+              <p>
+                <span className="text-muted-foreground">Backed up </span>
+                {new Date(backup.createdAt).toLocaleString()}
+              </p>
+              <p>
+                <span className="text-muted-foreground">From account </span>
+                <span className="font-mono">{backup.source.userId}</span>
+                {backup.source.environment && <> ({backup.source.environment})</>}
+              </p>
+              <p data-testid="text-backup-summary">
+                <span className="text-muted-foreground">Contains </span>
+                {summary.characters} characters, {summary.scenes} scenes and {summary.cast} cast members
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="restore-target">Restore into</Label>
+              <Select value={targetUserId} onValueChange={setTargetUserId}>
+                <SelectTrigger id="restore-target" data-testid="select-restore-target">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(accounts.some((account) => account.user_id === userId) ? accounts : [{ user_id: userId }, ...accounts]).map(
+                    (account) => (
+                      <SelectItem key={account.user_id} value={account.user_id}>
+                        {accountLabel(account.user_id)}
+                        {account.user_id === userId && " — current"}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {step === "restoring" && progress && (
+          <div className="space-y-2 py-4">
+            <Progress value={(progress.completed / Math.max(progress.total, 1)) * 100} />
+            <p className="text-sm text-muted-foreground" data-testid="text-restore-progress">
+              {progress.step} ({progress.completed}/{progress.total})
+            </p>
+          </div>
+        )}
+
+        {step === "report" && report && (
+          <div className="space-y-4 py-4" data-testid="restore-report">
+            {report.failed.length === 0 ? (
+              <Alert>
+                <CheckCircle2 className="h-4 w-4" />
+                <AlertTitle>Restore complete</AlertTitle>
+                <AlertDescription>
+                  Restored {Object.keys(report.idMap.character).length} characters,{" "}
+                  {Object.keys(report.idMap.scene).length} scenes and {Object.keys(report.idMap.cast).length} cast
+                  members into {accountLabel(report.targetUserId)}.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Restore partly failed</AlertTitle>
+                <AlertDescription>
+                  Restored {restoredCount} items into {accountLabel(report.targetUserId)}; {report.failed.length} failed
+                  {report.skipped.length > 0 && <> and {report.skipped.length} cast members were skipped because their scene failed</>}.
+                  Restored items were kept.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {report.failed.length > 0 && (
+              <ul className="space-y-2">
+                {report.failed.map((failure) => (
+                  <li key={`${failure.kind}:${failure.oldId}`} className="text-sm border rounded-md p-2 space-y-1">
+                    <p className="font-medium">
+                      {KIND_LABELS[failure.kind]} "{failure.name}"
+                    </p>
+                    <ErrorDetails error={failure.error} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("select")} data-testid="button-choose-another-backup">
+                Choose Another File
+              </Button>
+              <Button onClick={handleRestore} data-testid="button-start-restore">
+                Restore
+              </Button>
+            </>
+          )}
+          {step === "report" && (
+            <>
+              <Button variant="outline" onClick={handleDownloadIdMap} data-testid="button-download-idmap">
+                <Download className="w-4 h-4 mr-2" />
+                Download ID Map
+              </Button>
+              <Button onClick={() => onOpenChange(false)} data-testid="button-close-restore">
+                Close
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,7 +11,7 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { ChevronDown, Eye, Copy, Check } from "lucide-react";
+import { ChevronDown, Eye, Copy, Check, Send } from "lucide-react";
 import type { Scene, Cast } from "@shared/api-types";
 import IdDisplay from "@/components/IdDisplay";
 import { useToast } from "@/hooks/use-toast";
@@ -20,12 +20,15 @@ interface SceneCardProps {
   scene: Scene;
   castMembers: Cast[];
   onView: (sceneId: string) => void;
+  // Shown as a "Copy to account…" action when provided
+  onCopyToAccount?: (scene: Scene) => void;
 }
 
 export default function SceneCard({
   scene,
   castMembers,
   onView,
+  onCopyToAccount,
 }: SceneCardProps) {
   const [isOpen, setIsOpen] = useState(false);
 
@@ -43,6 +46,24 @@ export default function SceneCard({
               {scene.name}
             </h3>
             <div className="flex gap-1">
+              {onCopyToAccount && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onCopyToAccount(scene)}
+                      className="h-7 w-7"
+                      data-testid="button-copy-scene-to-account"
+                    >
+                      <Send className="w-3.5 h-3.5" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Copy to account…</p>
+                  </TooltipContent>
+                </Tooltip>
+              )}
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Button
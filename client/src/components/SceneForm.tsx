@@ -10,13 +10,18 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
+import DraftRestorePrompt from "@/components/DraftRestorePrompt";
+import UnsavedChangesDialog from "@/components/UnsavedChangesDialog";
+import { useFormDraft } from "@/hooks/use-form-draft";
+import { draftKeys } from "@/lib/formDrafts";
 import type { Scene } from "@shared/api-types";
 
 interface SceneFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   scene?: Scene;
-  onSave: (scene: Partial<Scene>) => void;
+  // Resolves true once saved; until then the form's draft is kept
+  onSave: (scene: Partial<Scene>) => Promise<boolean>;
 }
 
 export default function SceneForm({
@@ -38,59 +43,111 @@ export default function SceneForm({
     }
   }, [scene, open]);
 
-  const handleSave = () => {
-    onSave({
+  const [confirmCloseOpen, setConfirmCloseOpen] = useState(false);
+  const draft = useFormDraft({
+    draftKey: draftKeys.scene(scene?.scene_id),
+    open,
+    initial: {
+      name: scene?.name ?? "",
+      description: scene?.description ?? "",
+    },
+    values: { name, description },
+    onRestore: (content) => {
+      setName(content.name ?? "");
+      setDescription(content.description ?? "");
+    },
+  });
+
+  const handleSave = async () => {
+    // Kept until the save succeeds, so a failed save loses nothing
+    draft.saveNow();
+    const saved = onSave({
       ...(scene?.scene_id && { scene_id: scene.scene_id }),
       name,
       description,
     });
     onOpenChange(false);
+    if (await saved) {
+      draft.clear();
+    }
+  };
+
+  // Closing with unsaved changes asks first
+  const handleOpenChange = (next: boolean) => {
+    if (!next && draft.isDirty) {
+      setConfirmCloseOpen(true);
+      return;
+    }
+    onOpenChange(next);
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl" data-testid="dialog-scene-form">
-        <DialogHeader>
-          <DialogTitle>
-            {scene ? "Edit Scene" : "Add New Scene"}
-          </DialogTitle>
-        </DialogHeader>
-        <div className="space-y-6 py-4">
-          <div className="space-y-2">
-            <Label htmlFor="name">Name</Label>
-            <Input
-              id="name"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              placeholder="Scene name"
-              data-testid="input-scene-name"
-            />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
-            <Textarea
-              id="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Scene description"
-              className="min-h-32"
-              data-testid="input-scene-description"
-            />
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-scene-form">
+          <DialogHeader>
+            <DialogTitle>
+              {scene ? "Edit Scene" : "Add New Scene"}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-6 py-4">
+            {draft.pendingDraft && (
+              <DraftRestorePrompt
+                draft={draft.pendingDraft}
+                onRestore={draft.restoreDraft}
+                onDiscard={draft.discardDraft}
+              />
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Scene name"
+                data-testid="input-scene-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Scene description"
+                className="min-h-32"
+                data-testid="input-scene-description"
+              />
+            </div>
           </div>
-        </div>
-        <DialogFooter>
-          <Button
-            variant="ghost"
-            onClick={() => onOpenChange(false)}
-            data-testid="button-cancel"
-          >
-            Cancel
-          </Button>
-          <Button onClick={handleSave} data-testid="button-save-scene">
-            Save Scene
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+          <DialogFooter>
+            <Button
+              variant="ghost"
+              onClick={() => handleOpenChange(false)}
+              data-testid="button-cancel"
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSave} data-testid="button-save-scene">
+              Save Scene
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <UnsavedChangesDialog
+        open={confirmCloseOpen}
+        onKeepEditing={() => setConfirmCloseOpen(false)}
+        onDiscard={() => {
+          draft.clear();
+          setConfirmCloseOpen(false);
+          onOpenChange(false);
+        }}
+        onClose={() => {
+          setConfirmCloseOpen(false);
+          onOpenChange(false);
+        }}
+      />
+    </>
   );
 }
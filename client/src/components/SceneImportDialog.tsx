@@ -0,0 +1,461 @@
+import { useState, useEffect, useMemo } from "react";
+import { useLocation } from "wouter";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import ErrorDetails from "@/components/ErrorDetails";
+import { apiClient } from "@/lib/lunchWithApi";
+import {
+  parseSceneBundle,
+  importSceneBundle,
+  createCastMembers,
+  rollbackSceneImport,
+  uniqueSceneName,
+  type SceneBundle,
+  type SceneImportProgress,
+  type SceneImportReport,
+  type SceneRollbackReport,
+} from "@/lib/sceneBundle";
+import { useRefreshAccountData } from "@/hooks/use-lunchwith";
+import type { Scene } from "@shared/api-types";
+
+interface SceneImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Current (non-deleted) scenes, used to detect name collisions
+  scenes: Scene[];
+}
+
+// What to do when a scene with the bundle's name already exists
+type CollisionMode = "rename" | "keep" | "replace";
+
+type Step = "select" | "preview" | "importing" | "report";
+
+/**
+ * Imports a scene bundle (see lib/sceneBundle) into the selected account
+ *
+ * Steps:
+ * - select: choose a bundle file
+ * - preview: review the scene and cast, and choose how to handle a name collision
+ * - importing: progress while the scene and each cast member are created
+ * - report: results; if some cast members failed, retry them, roll the
+ *   import back, or keep the partial scene
+ */
+export default function SceneImportDialog({ open, onOpenChange, scenes }: SceneImportDialogProps) {
+  const [, setLocation] = useLocation();
+  const refreshAccountData = useRefreshAccountData();
+
+  const [step, setStep] = useState<Step>("select");
+  const [bundle, setBundle] = useState<SceneBundle | null>(null);
+  const [fileError, setFileError] = useState("");
+  const [collisionMode, setCollisionMode] = useState<CollisionMode>("rename");
+  const [sceneName, setSceneName] = useState("");
+  const [progress, setProgress] = useState<SceneImportProgress | null>(null);
+  const [report, setReport] = useState<SceneImportReport | null>(null);
+  const [finishError, setFinishError] = useState<{ title: string; error: unknown } | null>(null);
+  // Set once the import has been rolled back, with anything left behind
+  const [rollback, setRollback] = useState<SceneRollbackReport | null>(null);
+  // Existing scene to delete once the import is kept (collision mode "replace")
+  const [replaceTarget, setReplaceTarget] = useState<Scene | undefined>();
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Reset whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setStep("select");
+      setBundle(null);
+      setFileError("");
+      setProgress(null);
+      setReport(null);
+      setFinishError(null);
+      setRollback(null);
+      setReplaceTarget(undefined);
+    }
+  }, [open]);
+
+  const existingNames = useMemo(() => new Set(scenes.map((scene) => scene.name)), [scenes]);
+  const collidingScene = bundle ? scenes.find((scene) => scene.name === bundle.scene.name) : undefined;
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    setFileError("");
+
+    try {
+      const parsed = parseSceneBundle(await file.text());
+      setBundle(parsed);
+      const collides = existingNames.has(parsed.scene.name);
+      setCollisionMode("rename");
+      setSceneName(collides ? uniqueSceneName(parsed.scene.name, existingNames) : parsed.scene.name);
+      setStep("preview");
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "The file could not be read.");
+    }
+  };
+
+  const handleCollisionModeChange = (mode: CollisionMode) => {
+    if (!bundle) return;
+    setCollisionMode(mode);
+    setSceneName(mode === "rename" ? uniqueSceneName(bundle.scene.name, existingNames) : bundle.scene.name);
+  };
+
+  /**
+   * Finishes a kept import: replaces the colliding scene if asked to
+   * The replaced scene is soft-deleted, so it can be restored from the Trash
+   * @returns false if replacing failed
+   */
+  const finishImport = async (target: Scene | undefined = replaceTarget): Promise<boolean> => {
+    let replaced = true;
+    if (target) {
+      try {
+        await apiClient.deleteScene(target.scene_id);
+      } catch (error) {
+        setFinishError({ title: "The existing scene could not be replaced", error });
+        replaced = false;
+      }
+    }
+    await refreshAccountData();
+    return replaced;
+  };
+
+  const handleImport = async () => {
+    if (!bundle || !sceneName.trim()) return;
+
+    // Resolve the scene to replace now, before the imported scene (with the same name) joins the list
+    const target = collisionMode === "replace" ? collidingScene : undefined;
+    setReplaceTarget(target);
+
+    setStep("importing");
+    const result = await importSceneBundle(apiClient, bundle, sceneName.trim(), setProgress);
+    setReport(result);
+    setStep("report");
+
+    if (result.scene && result.failed.length === 0) {
+      await finishImport(target);
+    } else {
+      await refreshAccountData();
+    }
+  };
+
+  const handleRetryFailed = async () => {
+    if (!report?.scene) return;
+
+    setIsWorking(true);
+    const retry = await createCastMembers(
+      apiClient,
+      report.scene.scene_id,
+      report.failed.map(({ cast }) => cast),
+      (completed, stepLabel) => setProgress({ completed, total: report.failed.length, step: stepLabel })
+    );
+    const next = { ...report, created: [...report.created, ...retry.created], failed: retry.failed };
+    setReport(next);
+    if (next.failed.length === 0) {
+      await finishImport();
+    } else {
+      await refreshAccountData();
+    }
+    setIsWorking(false);
+  };
+
+  const handleRollback = async () => {
+    if (!report) return;
+
+    setIsWorking(true);
+    setRollback(await rollbackSceneImport(apiClient, report));
+    await refreshAccountData();
+    setIsWorking(false);
+  };
+
+  const handleKeepPartial = async () => {
+    setIsWorking(true);
+    const replaced = await finishImport();
+    setIsWorking(false);
+    if (replaced) {
+      onOpenChange(false);
+    }
+  };
+
+  const handleOpenScene = () => {
+    if (!report?.scene) return;
+    onOpenChange(false);
+    setLocation(`/scenes/${report.scene.scene_id}`);
+  };
+
+  const rolledBack = rollback !== null;
+  const rollbackIncomplete = !!rollback && (rollback.castFailed.length > 0 || !!rollback.sceneError);
+  const partial = !!report?.scene && report.failed.length > 0 && !rolledBack;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => step !== "importing" && !isWorking && onOpenChange(next)}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto" data-testid="dialog-import-scene">
+        <DialogHeader>
+          <DialogTitle>Import Scene</DialogTitle>
+          <DialogDescription>
+            Create a scene and its cast members from a scene bundle exported from any account or environment
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "select" && (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="scene-bundle-file">Scene bundle (.json)</Label>
+              <Input
+                id="scene-bundle-file"
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+                data-testid="input-scene-bundle-file"
+              />
+            </div>
+            {fileError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription data-testid="text-bundle-error">{fileError}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && bundle && (
+          <div className="space-y-6 py-4">
+            <div className="text-sm text-muted-foreground">
+              Exported {new Date(bundle.exportedAt).toLocaleString()} from account{" "}
+              <span className="font-mono">{bundle.source.userId}</span>
+              {bundle.source.environment && <> ({bundle.source.environment})</>}
+            </div>
+
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">Scene</p>
+              <p className="font-medium" data-testid="text-bundle-scene-name">{bundle.scene.name}</p>
+              {bundle.scene.description && (
+                <p className="text-sm whitespace-pre-wrap">{bundle.scene.description}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Cast members ({bundle.cast.length})</p>
+              {bundle.cast.length === 0 ? (
+                <p className="text-sm">No cast members</p>
+              ) : (
+                <ul className="space-y-2">
+                  {bundle.cast.map((member, index) => (
+                    <li key={index} className="text-sm border rounded-md p-2">
+                      <span className="font-medium">{member.role}</span>
+                      {member.goal && <span className="text-muted-foreground"> — {member.goal}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {collidingScene ? (
+              <div className="space-y-3">
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    A scene named "{bundle.scene.name}" already exists in this account.
+                  </AlertDescription>
+                </Alert>
+                <RadioGroup
+                  value={collisionMode}
+                  onValueChange={(value) => handleCollisionModeChange(value as CollisionMode)}
+                  data-testid="radio-collision-mode"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="rename" id="collision-rename" />
+                    <Label htmlFor="collision-rename">Import under a new name</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="keep" id="collision-keep" />
+                    <Label htmlFor="collision-keep">Keep both scenes with the same name</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="replace" id="collision-replace" />
+                    <Label htmlFor="collision-replace">
+                      Replace the existing scene (it moves to the Trash after the import succeeds)
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            ) : null}
+
+            {collisionMode === "rename" && (
+              <div className="space-y-2">
+                <Label htmlFor="import-scene-name">Scene name</Label>
+                <Input
+                  id="import-scene-name"
+                  value={sceneName}
+                  onChange={(e) => setSceneName(e.target.value)}
+                  data-testid="input-import-scene-name"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {(step === "importing" || (isWorking && !rolledBack)) && progress && (
+          <div className="space-y-2 py-4">
+            <Progress value={(progress.completed / Math.max(progress.total, 1)) * 100} />
+            <p className="text-sm text-muted-foreground" data-testid="text-import-progress">
+              {progress.step} ({progress.completed}/{progress.total})
+            </p>
+          </div>
+        )}
+
+        {step === "report" && report && (
+          <div className="space-y-4 py-4" data-testid="import-report">
+            {report.sceneError ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>The scene could not be created</AlertTitle>
+                <AlertDescription>
+                  <ErrorDetails error={report.sceneError} />
+                </AlertDescription>
+              </Alert>
+            ) : rollbackIncomplete ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Import partly rolled back</AlertTitle>
+                <AlertDescription>
+                  {rollback.sceneError
+                    ? `The scene "${report.scene?.name}" could not be deleted.`
+                    : `The scene "${report.scene?.name}" was deleted.`}{" "}
+                  {rollback.castFailed.length} of {report.created.length} imported cast member
+                  {report.created.length === 1 ? "" : "s"} could not be deleted; remove what is left by hand.
+                </AlertDescription>
+              </Alert>
+            ) : rolledBack ? (
+              <Alert>
+                <CheckCircle2 className="h-4 w-4" />
+                <AlertTitle>Import rolled back</AlertTitle>
+                <AlertDescription>
+                  The scene "{report.scene?.name}" and its {report.created.length} imported cast member
+                  {report.created.length === 1 ? "" : "s"} were deleted.
+                </AlertDescription>
+              </Alert>
+            ) : partial ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Import partly failed</AlertTitle>
+                <AlertDescription>
+                  Created the scene "{report.scene?.name}" and {report.created.length} of{" "}
+                  {report.created.length + report.failed.length} cast members.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Alert>
+                <CheckCircle2 className="h-4 w-4" />
+                <AlertTitle>Import complete</AlertTitle>
+                <AlertDescription>
+                  Created the scene "{report.scene?.name}" with {report.created.length} cast member
+                  {report.created.length === 1 ? "" : "s"}.
+                  {replaceTarget && !finishError && (
+                    <> The previous scene was moved to the Trash.</>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {rollbackIncomplete && (
+              <div className="space-y-2" data-testid="rollback-failures">
+                <p className="text-sm text-muted-foreground">Not removed by the rollback</p>
+                <ul className="space-y-2">
+                  {rollback.sceneError ? (
+                    <li className="text-sm border rounded-md p-2 space-y-1">
+                      <p className="font-medium">Scene "{report.scene?.name}"</p>
+                      <ErrorDetails error={rollback.sceneError} />
+                    </li>
+                  ) : null}
+                  {rollback.castFailed.map(({ cast, error }) => (
+                    <li key={cast.cast_id} className="text-sm border rounded-md p-2 space-y-1">
+                      <p className="font-medium">{cast.role}</p>
+                      <ErrorDetails error={error} />
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {partial && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">Failed cast members</p>
+                <ul className="space-y-2">
+                  {report.failed.map(({ cast, error }, index) => (
+                    <li key={index} className="text-sm border rounded-md p-2 space-y-1">
+                      <p className="font-medium">{cast.role}</p>
+                      <ErrorDetails error={error} />
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {finishError ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>{finishError.title}</AlertTitle>
+                <AlertDescription>
+                  <ErrorDetails error={finishError.error} />
+                </AlertDescription>
+              </Alert>
+            ) : null}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("select")} data-testid="button-choose-another-file">
+                Choose Another File
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={collisionMode === "rename" && !sceneName.trim()}
+                data-testid="button-import-scene"
+              >
+                Import
+              </Button>
+            </>
+          )}
+          {step === "report" && partial && (
+            <>
+              <Button variant="outline" onClick={handleRollback} disabled={isWorking} data-testid="button-rollback-import">
+                Roll Back Import
+              </Button>
+              <Button variant="outline" onClick={handleKeepPartial} disabled={isWorking} data-testid="button-keep-partial">
+                Keep Partial Import
+              </Button>
+              <Button onClick={handleRetryFailed} disabled={isWorking} data-testid="button-retry-failed">
+                {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Retry Failed
+              </Button>
+            </>
+          )}
+          {step === "report" && !partial && (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-close-import">
+                Close
+              </Button>
+              {report?.scene && !rolledBack && (
+                <Button onClick={handleOpenScene} data-testid="button-open-imported-scene">
+                  Open Scene
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { generateStoryId } from "@/lib/lunchWithApi";
+import type { Scene } from "@shared/api-types";
+
+interface StartStoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scenes: Scene[];
+  onStart: (storyId: string, sceneId: string) => void;
+}
+
+export default function StartStoryDialog({
+  open,
+  onOpenChange,
+  scenes,
+  onStart,
+}: StartStoryDialogProps) {
+  const [storyId, setStoryId] = useState("");
+  const [sceneId, setSceneId] = useState("");
+
+  // Generate a fresh story ID every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setStoryId(generateStoryId());
+      setSceneId("");
+    }
+  }, [open]);
+
+  const handleStart = () => {
+    onStart(storyId.trim(), sceneId);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-start-story">
+        <DialogHeader>
+          <DialogTitle>Start Story</DialogTitle>
+          <DialogDescription>
+            Start a new story from one of your scenes
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="story-scene">Scene</Label>
+            <Select value={sceneId} onValueChange={setSceneId}>
+              <SelectTrigger id="story-scene" data-testid="select-story-scene">
+                <SelectValue placeholder="Select a scene" />
+              </SelectTrigger>
+              <SelectContent>
+                {scenes.map((scene) => (
+                  <SelectItem key={scene.scene_id} value={scene.scene_id}>
+                    {scene.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="story-id">Story ID</Label>
+            <Input
+              id="story-id"
+              value={storyId}
+              onChange={(e) => setStoryId(e.target.value)}
+              className="font-mono"
+              data-testid="input-story-id"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => onOpenChange(false)}
+            data-testid="button-cancel"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleStart}
+            disabled={!sceneId || !storyId.trim()}
+            data-testid="button-start-story"
+          >
+            Start Story
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
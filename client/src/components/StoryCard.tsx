@@ -0,0 +1,79 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { Eye } from "lucide-react";
+import type { Story } from "@shared/api-types";
+import IdDisplay from "@/components/IdDisplay";
+
+interface StoryCardProps {
+  story: Story;
+  sceneName?: string;
+  onView: (storyId: string) => void;
+}
+
+export default function StoryCard({
+  story,
+  sceneName,
+  onView,
+}: StoryCardProps) {
+  const casting = story.casting ?? [];
+
+  return (
+    <Card data-testid={`card-story-${story.story_id}`}>
+      <CardContent className="pt-6">
+        <div className="flex items-start justify-between gap-4 mb-3">
+          <h3 className="text-base font-medium" data-testid="text-story-scene-name">
+            {sceneName ?? "Unknown scene"}
+          </h3>
+          <div className="flex gap-1">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onView(story.story_id)}
+                  className="h-7 w-7"
+                  data-testid="button-view-story"
+                >
+                  <Eye className="w-3.5 h-3.5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Open story console</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+        </div>
+        <div className="space-y-1.5 text-sm">
+          <IdDisplay id={story.story_id} label="Story ID" testId="text-story-id" />
+          <IdDisplay id={story.scene_id} label="Scene ID" testId="text-story-scene-id" />
+          <div>
+            <span className="text-muted-foreground">Casting </span>
+            <span className="text-foreground">
+              {casting.length} {casting.length === 1 ? "cast member" : "cast members"}
+            </span>
+          </div>
+          {(story.finishup || story.end_conversation) && (
+            <div className="flex gap-2 pt-1">
+              {story.finishup && (
+                <Badge variant="secondary" data-testid="badge-story-finishup">
+                  Finishing up
+                </Badge>
+              )}
+              {story.end_conversation && (
+                <Badge variant="secondary" data-testid="badge-story-end-conversation">
+                  Ending conversation
+                </Badge>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+/**
+ * Story Casting Item Component
+ *
+ * Displays a single casting entry of an active story.
+ * Features:
+ * - Role, goal and start text (falls back to the scene's cast record when
+ *   the story response omits them)
+ * - Bound character ID once a character has been cast
+ * - Summarize flag with an action to mark the entry for summarization
+ *
+ * Used in: StoryDetail page to display the story's casting list
+ */
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { FileText } from "lucide-react";
+import type { StoryCasting, Cast } from "@shared/api-types";
+import IdDisplay from "@/components/IdDisplay";
+
+interface StoryCastingItemProps {
+  casting: StoryCasting;
+  cast?: Cast;
+  disabled?: boolean;
+  onSummarize: (castId: string) => void;
+}
+
+export default function StoryCastingItem({
+  casting,
+  cast,
+  disabled = false,
+  onSummarize,
+}: StoryCastingItemProps) {
+  const role = casting.role ?? cast?.role;
+  const goal = casting.goal ?? cast?.goal;
+  const start = casting.start ?? cast?.start;
+
+  return (
+    <Card data-testid={`card-story-casting-${casting.cast_id}`}>
+      <CardContent className="pt-6">
+        <div className="flex items-start justify-between gap-4 mb-3">
+          <div className="flex items-center gap-2">
+            <h4 className="text-base font-medium" data-testid="text-casting-role">
+              {role || "Unnamed role"}
+            </h4>
+            {casting.summarize && (
+              <Badge variant="secondary" data-testid="badge-casting-summarize">
+                Summarize
+              </Badge>
+            )}
+          </div>
+          <div className="flex gap-1">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onSummarize(casting.cast_id)}
+                  disabled={disabled || casting.summarize}
+                  className="h-7 w-7"
+                  data-testid="button-summarize-casting"
+                >
+                  <FileText className="w-3.5 h-3.5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Mark for summarization</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+        </div>
+        <div className="space-y-1.5 text-sm">
+          <IdDisplay id={casting.cast_id} label="Cast ID" testId="text-casting-cast-id" />
+          {casting.character_id ? (
+            <IdDisplay id={casting.character_id} label="Character ID" testId="text-casting-character-id" />
+          ) : (
+            <div className="text-xs text-muted-foreground">No character cast yet</div>
+          )}
+          {goal && (
+            <div className="truncate">
+              <span className="text-muted-foreground">Goal </span>
+              <span className="text-foreground">{goal}</span>
+            </div>
+          )}
+          {start && (
+            <div className="truncate">
+              <span className="text-muted-foreground">Start </span>
+              <span className="text-foreground">{start}</span>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,306 @@
+/**
+ * Story Launcher Component
+ *
+ * Two-step dialog that runs a scene as a new story.
+ * Steps:
+ * 1. Start: pick a story ID and call start_scene for the scene
+ * 2. Cast: walk through the returned casting list and bind each cast slot
+ *    to a character via POST /story/{id}/cast/{character_id}/as/{cast_id}
+ *
+ * Bindings are sent one at a time so a failure on one slot does not
+ * prevent the others from being cast. Failed slots can be retried.
+ *
+ * Used in: SceneDetail page ("Start story" action)
+ */
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, AlertCircle, Loader2 } from "lucide-react";
+import { apiClient, generateStoryId } from "@/lib/lunchWithApi";
+import { useToast } from "@/hooks/use-toast";
+import ErrorDetails from "@/components/ErrorDetails";
+import { getErrorMessage } from "@/lib/apiError";
+import type { Scene, Cast, Character, Story } from "@shared/api-types";
+
+interface StoryLauncherProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scene: Scene;
+  castMembers: Cast[];
+  onOpenStory: (storyId: string) => void;
+}
+
+type LauncherStep = "start" | "cast";
+
+export default function StoryLauncher({
+  open,
+  onOpenChange,
+  scene,
+  castMembers,
+  onOpenStory,
+}: StoryLauncherProps) {
+  const [step, setStep] = useState<LauncherStep>("start");
+  const [storyId, setStoryId] = useState("");
+  const [story, setStory] = useState<Story | null>(null);
+  const [characters, setCharacters] = useState<Character[]>([]);
+
+  // Selected character per cast slot, and the character actually bound on the server
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [bound, setBound] = useState<Record<string, string>>({});
+  const [bindErrors, setBindErrors] = useState<Record<string, string>>({});
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { toast } = useToast();
+
+  /**
+   * Resets the launcher and loads characters every time the dialog opens
+   */
+  useEffect(() => {
+    if (!open) return;
+
+    setStep("start");
+    setStoryId(generateStoryId());
+    setStory(null);
+    setSelections({});
+    setBound({});
+    setBindErrors({});
+
+    apiClient
+      .getCharacters()
+      .then((data) => setCharacters(data.filter((char) => !char.deleted)))
+      .catch((error) => {
+        toast({
+          title: "Error loading characters",
+          description: <ErrorDetails error={error} />,
+          variant: "destructive",
+        });
+      });
+  }, [open]);
+
+  const castById: Record<string, Cast> = {};
+  castMembers.forEach((cast) => {
+    castById[cast.cast_id] = cast;
+  });
+  const casting = story?.casting ?? [];
+  const isSlotBound = (castId: string) => !!bound[castId] && bound[castId] === selections[castId];
+  const allBound = casting.length > 0 && casting.every((entry) => isSlotBound(entry.cast_id));
+
+  /**
+   * Starts the story and moves on to the casting step
+   * Any characters already bound by the server are pre-selected
+   */
+  const handleStart = async () => {
+    try {
+      setIsWorking(true);
+      const started = await apiClient.startScene(storyId.trim(), scene.scene_id);
+      setStory(started);
+
+      const existing: Record<string, string> = {};
+      (started.casting ?? []).forEach((entry) => {
+        if (entry.character_id) existing[entry.cast_id] = entry.character_id;
+      });
+      setSelections(existing);
+      setBound(existing);
+      setStep("cast");
+    } catch (error) {
+      toast({
+        title: "Error starting story",
+        description: <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  /**
+   * Binds every selected character that is not yet bound to its cast slot
+   * Records per-slot errors instead of stopping at the first failure
+   */
+  const handleBind = async () => {
+    if (!story) return;
+
+    setIsWorking(true);
+    const nextBound = { ...bound };
+    const nextErrors: Record<string, string> = {};
+
+    for (const entry of casting) {
+      const characterId = selections[entry.cast_id];
+      if (!characterId || nextBound[entry.cast_id] === characterId) continue;
+
+      try {
+        await apiClient.castCharacter(story.story_id, characterId, entry.cast_id);
+        nextBound[entry.cast_id] = characterId;
+      } catch (error) {
+        nextErrors[entry.cast_id] = getErrorMessage(error);
+      }
+    }
+
+    setBound(nextBound);
+    setBindErrors(nextErrors);
+    setIsWorking(false);
+
+    const failed = Object.keys(nextErrors).length;
+    if (failed > 0) {
+      toast({
+        title: "Some cast members were not bound",
+        description: `${failed} ${failed === 1 ? "binding" : "bindings"} failed. You can retry them.`,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Characters cast",
+        description: "The selected characters have been bound to their roles.",
+      });
+    }
+  };
+
+  const handleOpenStory = () => {
+    if (!story) return;
+    onOpenChange(false);
+    onOpenStory(story.story_id);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl" data-testid="dialog-story-launcher">
+        <DialogHeader>
+          <DialogTitle>
+            {step === "start" ? "Start Story" : "Cast Characters"}
+          </DialogTitle>
+          <DialogDescription>
+            {step === "start"
+              ? `Run "${scene.name}" as a new story`
+              : "Choose which character plays each role in this story"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "start" ? (
+          <div className="space-y-6 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="launcher-story-id">Story ID</Label>
+              <Input
+                id="launcher-story-id"
+                value={storyId}
+                onChange={(e) => setStoryId(e.target.value)}
+                className="font-mono"
+                data-testid="input-launcher-story-id"
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {castMembers.length} {castMembers.length === 1 ? "cast member" : "cast members"} will be included in the casting.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            {casting.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                The story has no casting entries to bind.
+              </p>
+            ) : (
+              casting.map((entry) => {
+                const cast = castById[entry.cast_id];
+                const role = entry.role ?? cast?.role ?? entry.cast_id;
+                const isBound = isSlotBound(entry.cast_id);
+                return (
+                  <div
+                    key={entry.cast_id}
+                    className="space-y-2"
+                    data-testid={`launcher-casting-${entry.cast_id}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <Label>{role}</Label>
+                      {isBound && (
+                        <span className="flex items-center gap-1 text-xs text-green-600">
+                          <Check className="w-3 h-3" />
+                          Cast
+                        </span>
+                      )}
+                    </div>
+                    <Select
+                      value={selections[entry.cast_id] ?? ""}
+                      onValueChange={(value) =>
+                        setSelections((prev) => ({ ...prev, [entry.cast_id]: value }))
+                      }
+                    >
+                      <SelectTrigger data-testid={`select-launcher-character-${entry.cast_id}`}>
+                        <SelectValue placeholder="Select a character" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {characters.map((character) => (
+                          <SelectItem key={character.character_id} value={character.character_id}>
+                            {character.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {bindErrors[entry.cast_id] && (
+                      <p className="flex items-center gap-1 text-xs text-destructive">
+                        <AlertCircle className="w-3 h-3" />
+                        {bindErrors[entry.cast_id]}
+                      </p>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "start" ? (
+            <>
+              <Button
+                variant="ghost"
+                onClick={() => onOpenChange(false)}
+                data-testid="button-cancel"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleStart}
+                disabled={isWorking || !storyId.trim()}
+                data-testid="button-launcher-start"
+              >
+                {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Start Story
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                variant={allBound ? "default" : "ghost"}
+                onClick={handleOpenStory}
+                disabled={isWorking}
+                data-testid="button-launcher-open-story"
+              >
+                Open Story Console
+              </Button>
+              {!allBound && (
+                <Button
+                  onClick={handleBind}
+                  disabled={isWorking || casting.every((entry) => !selections[entry.cast_id])}
+                  data-testid="button-launcher-bind"
+                >
+                  {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Cast Characters
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,282 @@
+/**
+ * Story Transcript Component
+ *
+ * Chat-style transcript for an active story.
+ * Features:
+ * - Post a line as any cast entry (POST /story/{id}/post_response/{cast_id})
+ * - "Generate reply" per cast entry (GET /story/{id}/get_response_step/{cast_id})
+ * - Pending generations shown inline until their response is delivered
+ *
+ * Generated responses are not returned by get_response_step; the backend
+ * sends them to the account's sqs_url. The transcript polls the local
+ * delivery endpoint (see fetchDeliveredResponses) while any generation is
+ * pending and fills in the oldest pending entry for the same cast member.
+ *
+ * Used in: StoryDetail page
+ */
+
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Send, Sparkles, Loader2 } from "lucide-react";
+import { apiClient } from "@/lib/lunchWithApi";
+import { fetchDeliveredResponses } from "@/lib/storyResponses";
+import { useToast } from "@/hooks/use-toast";
+import ErrorDetails from "@/components/ErrorDetails";
+import type { StoryCasting, Cast, DeliveredStoryResponse } from "@shared/api-types";
+
+// How often to check for delivered responses while generations are pending
+const DELIVERY_POLL_INTERVAL_MS = 3000;
+
+interface StoryTranscriptProps {
+  storyId: string;
+  casting: StoryCasting[];
+  castById: Record<string, Cast>;
+}
+
+interface TranscriptEntry {
+  id: string;
+  castId: string;
+  text: string;
+  kind: "posted" | "generated";
+  status: "sent" | "pending" | "delivered";
+}
+
+export default function StoryTranscript({ storyId, casting, castById }: StoryTranscriptProps) {
+  const [entries, setEntries] = useState<TranscriptEntry[]>([]);
+  const [speakerId, setSpeakerId] = useState("");
+  const [draft, setDraft] = useState("");
+  const [isPosting, setIsPosting] = useState(false);
+  const [generatingIds, setGeneratingIds] = useState<Record<string, boolean>>({});
+
+  // Timestamp of the newest delivered response seen so far, used as the poll
+  // cursor; the poll includes responses at that time, which are skipped by id
+  const lastReceivedAt = useRef<string | undefined>(undefined);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const roleFor = (castId: string) =>
+    casting.find((entry) => entry.cast_id === castId)?.role ?? castById[castId]?.role ?? castId;
+  const hasPending = entries.some((entry) => entry.status === "pending");
+
+  /**
+   * Merges delivered responses into the transcript
+   * Each response resolves the oldest pending entry for its cast member,
+   * or is appended if nothing is pending for that cast member
+   */
+  const applyDelivered = (delivered: DeliveredStoryResponse[]) => {
+    if (delivered.length === 0) return;
+    lastReceivedAt.current = delivered[delivered.length - 1].receivedAt;
+
+    setEntries((prev) => {
+      const next = [...prev];
+      delivered.forEach((response) => {
+        if (next.some((entry) => entry.id === response.id)) return;
+        const pendingIndex = next.findIndex(
+          (entry) => entry.status === "pending" && entry.castId === response.castId
+        );
+        const entry: TranscriptEntry = {
+          id: response.id,
+          castId: response.castId,
+          text: response.response,
+          kind: "generated",
+          status: "delivered",
+        };
+        if (pendingIndex >= 0) {
+          next[pendingIndex] = entry;
+        } else {
+          next.push(entry);
+        }
+      });
+      return next;
+    });
+  };
+
+  // Load responses that were delivered before the page was opened
+  useEffect(() => {
+    setEntries([]);
+    lastReceivedAt.current = undefined;
+    fetchDeliveredResponses(storyId)
+      .then(applyDelivered)
+      .catch((error) => {
+        toast({
+          title: "Error loading delivered responses",
+          description: <ErrorDetails error={error} />,
+          variant: "destructive",
+        });
+      });
+  }, [storyId]);
+
+  // Poll for deliveries only while at least one generation is pending
+  useEffect(() => {
+    if (!hasPending) return;
+
+    const interval = setInterval(() => {
+      fetchDeliveredResponses(storyId, lastReceivedAt.current)
+        .then(applyDelivered)
+        .catch((error) => console.error("Failed to poll delivered responses:", error));
+    }, DELIVERY_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [storyId, hasPending]);
+
+  // Keep the newest entry in view
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [entries]);
+
+  // Default the speaker to the first cast entry
+  useEffect(() => {
+    if (!speakerId && casting.length > 0) {
+      setSpeakerId(casting[0].cast_id);
+    }
+  }, [casting, speakerId]);
+
+  /**
+   * Posts the drafted line as the selected cast member
+   */
+  const handlePost = async () => {
+    const text = draft.trim();
+    if (!text || !speakerId) return;
+
+    try {
+      setIsPosting(true);
+      await apiClient.postResponse(storyId, speakerId, text);
+      setEntries((prev) => [
+        ...prev,
+        { id: crypto.randomUUID(), castId: speakerId, text, kind: "posted", status: "sent" },
+      ]);
+      setDraft("");
+    } catch (error) {
+      toast({
+        title: "Error posting response",
+        description: <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  /**
+   * Triggers reply generation for a cast member and adds a pending entry
+   */
+  const handleGenerate = async (castId: string) => {
+    try {
+      setGeneratingIds((prev) => ({ ...prev, [castId]: true }));
+      await apiClient.getResponseStep(storyId, castId);
+      setEntries((prev) => [
+        ...prev,
+        { id: crypto.randomUUID(), castId, text: "", kind: "generated", status: "pending" },
+      ]);
+    } catch (error) {
+      toast({
+        title: "Error generating reply",
+        description: <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+    } finally {
+      setGeneratingIds((prev) => ({ ...prev, [castId]: false }));
+    }
+  };
+
+  return (
+    <div data-testid="panel-transcript">
+      <h3 className="text-xl font-semibold mb-6">Transcript</h3>
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div ref={scrollRef} className="max-h-96 overflow-y-auto space-y-3">
+            {entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No lines yet. Post a line or generate a reply to begin.
+              </p>
+            ) : (
+              entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className={`rounded-md border p-3 text-sm ${
+                    entry.kind === "posted" ? "bg-muted/50" : ""
+                  }`}
+                  data-testid={`transcript-entry-${entry.id}`}
+                >
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <span className="font-medium">{roleFor(entry.castId)}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {entry.kind === "posted" ? "Posted" : "Generated"}
+                    </span>
+                  </div>
+                  {entry.status === "pending" ? (
+                    <span className="flex items-center gap-2 text-muted-foreground">
+                      <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                      Waiting for delivery...
+                    </span>
+                  ) : (
+                    <p className="whitespace-pre-wrap">{entry.text}</p>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {casting.length > 0 && (
+            <div className="flex flex-wrap gap-2 pt-3 border-t">
+              {casting.map((entry) => (
+                <Button
+                  key={entry.cast_id}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleGenerate(entry.cast_id)}
+                  disabled={generatingIds[entry.cast_id]}
+                  data-testid={`button-generate-reply-${entry.cast_id}`}
+                >
+                  <Sparkles className="w-3.5 h-3.5 mr-2" />
+                  Generate reply: {roleFor(entry.cast_id)}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2 pt-3 border-t">
+            <Select value={speakerId} onValueChange={setSpeakerId}>
+              <SelectTrigger data-testid="select-transcript-speaker">
+                <SelectValue placeholder="Speak as..." />
+              </SelectTrigger>
+              <SelectContent>
+                {casting.map((entry) => (
+                  <SelectItem key={entry.cast_id} value={entry.cast_id}>
+                    {roleFor(entry.cast_id)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey && !isPosting) {
+                    e.preventDefault();
+                    handlePost();
+                  }
+                }}
+                placeholder="Type a line and press Enter"
+                className="min-h-16"
+                data-testid="input-transcript-line"
+              />
+              <Button
+                size="icon"
+                onClick={handlePost}
+                disabled={isPosting || !draft.trim() || !speakerId}
+                data-testid="button-post-line"
+              >
+                <Send className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface UnsavedChangesDialogProps {
+  open: boolean;
+  // Stay in the form
+  onKeepEditing: () => void;
+  // Close the form and delete its draft
+  onDiscard: () => void;
+  // Close the form and keep its draft for next time
+  onClose: () => void;
+}
+
+/**
+ * Asks what to do with unsaved changes when a form is closed
+ */
+export default function UnsavedChangesDialog({ open, onKeepEditing, onDiscard, onClose }: UnsavedChangesDialogProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={(next) => !next && onKeepEditing()}>
+      <AlertDialogContent data-testid="dialog-unsaved-changes">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Unsaved changes</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your changes have not been saved. Close the form and keep them as a draft to restore later, or discard them.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel data-testid="button-keep-editing">Keep Editing</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onDiscard}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            data-testid="button-discard-changes"
+          >
+            Discard Changes
+          </AlertDialogAction>
+          <AlertDialogAction onClick={onClose} data-testid="button-close-keep-draft">
+            Keep Draft
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
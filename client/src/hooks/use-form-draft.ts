@@ -0,0 +1,156 @@
+/**
+ * Form Draft Autosave
+ *
+ * Keeps a form's unsaved content as a draft (see lib/formDrafts) while it is
+ * open, and offers an earlier draft back when the form is reopened.
+ * - Each time the form opens, the selected account and environment are taken
+ *   as the draft's scope, and an existing draft that differs from the form's
+ *   starting values becomes pendingDraft, for a "restore draft" prompt;
+ *   autosave waits until it is restored or discarded, but changes made in
+ *   the meantime are still saved when the form closes
+ * - Changes are saved a moment after typing stops, and right away when the
+ *   form closes or unmounts
+ * - While the values differ from the starting values the form counts as
+ *   having unsaved changes (see lib/unsavedChanges)
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  clearDraft,
+  currentDraftScope,
+  loadDraft,
+  storeDraft,
+  type DraftContent,
+  type DraftScope,
+  type StoredDraft,
+} from "@/lib/formDrafts";
+import { markUnsaved } from "@/lib/unsavedChanges";
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+interface FormDraftOptions {
+  // Which form and entity, see draftKeys
+  draftKey: string;
+  open: boolean;
+  // Values the form starts with (the entity being edited, or empty)
+  initial: DraftContent;
+  // Current values
+  values: DraftContent;
+  // Puts a restored draft's values into the form
+  onRestore: (content: DraftContent) => void;
+}
+
+const sameContent = (a: DraftContent, b: DraftContent) =>
+  Object.keys({ ...a, ...b }).every((field) => (a[field] ?? "") === (b[field] ?? ""));
+
+export function useFormDraft({ draftKey, open, initial, values, onRestore }: FormDraftOptions) {
+  const [pendingDraft, setPendingDraft] = useState<StoredDraft | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  // Account and environment the form was opened in
+  const scopeRef = useRef<DraftScope>(currentDraftScope());
+  // Values changed since the last autosave, with the draft they belong to
+  const unsavedRef = useRef<{ scope: DraftScope; draftKey: string; content: DraftContent } | null>(null);
+  // Whether this form wrote the stored draft since it opened
+  const storedRef = useRef(false);
+
+  const isDirty = open && !sameContent(values, initial);
+  const valuesKey = JSON.stringify(values);
+
+  const flush = useCallback(() => {
+    const unsaved = unsavedRef.current;
+    if (!unsaved) return;
+    unsavedRef.current = null;
+    storeDraft(unsaved.scope, unsaved.draftKey, unsaved.content);
+    storedRef.current = true;
+  }, []);
+
+  // Look for a draft each time the form opens
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setLoaded(false);
+    setPendingDraft(null);
+    storedRef.current = false;
+    scopeRef.current = currentDraftScope();
+    loadDraft(scopeRef.current, draftKey).then((draft) => {
+      if (cancelled) return;
+      if (draft && !sameContent(draft.content, initial)) {
+        setPendingDraft(draft);
+      }
+      setLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, draftKey]);
+
+  // Autosave once typing pauses; drop the draft if the values are back to the start.
+  // While an earlier draft is offered, changes are only kept for the close flush,
+  // so the offered draft is not replaced before the user has chosen.
+  useEffect(() => {
+    if (!open || !loaded) return;
+
+    if (!isDirty) {
+      unsavedRef.current = null;
+      if (storedRef.current) {
+        storedRef.current = false;
+        clearDraft(scopeRef.current, draftKey);
+      }
+      return;
+    }
+
+    unsavedRef.current = { scope: scopeRef.current, draftKey, content: values };
+    if (pendingDraft) return;
+    const timer = setTimeout(flush, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [valuesKey, open, loaded, pendingDraft, draftKey]);
+
+  // Save pending changes when the form closes or unmounts; on reopening,
+  // autosave waits for the draft lookup again
+  useEffect(() => {
+    if (open) return;
+    flush();
+    setLoaded(false);
+  }, [open]);
+  useEffect(() => flush, []);
+
+  // Register unsaved changes for the leave-page guards
+  useEffect(() => {
+    if (!isDirty) return;
+    return markUnsaved(draftKey);
+  }, [isDirty, draftKey]);
+
+  const restoreDraft = () => {
+    if (!pendingDraft) return;
+    onRestore(pendingDraft.content);
+    setPendingDraft(null);
+    storedRef.current = true;
+  };
+
+  const discardDraft = () => {
+    clearDraft(scopeRef.current, draftKey);
+    setPendingDraft(null);
+  };
+
+  /**
+   * Saves the current values as the draft right away (e.g. before submitting)
+   */
+  const saveNow = () => {
+    if (isDirty) {
+      unsavedRef.current = { scope: scopeRef.current, draftKey, content: values };
+    }
+    flush();
+  };
+
+  /**
+   * Deletes the draft and any pending autosave (e.g. once the form is saved)
+   */
+  const clear = () => {
+    unsavedRef.current = null;
+    storedRef.current = false;
+    clearDraft(scopeRef.current, draftKey);
+  };
+
+  return { pendingDraft, isDirty, restoreDraft, discardDraft, saveNow, clear };
+}
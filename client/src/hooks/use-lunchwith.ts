@@ -0,0 +1,679 @@
+/**
+ * LunchWith.ai Query Hooks
+ *
+ * TanStack Query layer over apiClient for characters, scenes and cast.
+ * - Query keys are scoped by the selected environment and LWAI account, so
+ *   cached data from one account is never shown in another
+ * - Detail queries are seeded from the list cache, so opening a detail page
+ *   from a list does not refetch
+ * - Mutations update the cache optimistically and roll back on failure;
+ *   the server's response replaces the optimistic entry on success
+ * - useTrash reads the deletes this client recorded (see lib/trash), and
+ *   restore hooks bring those items back
+ * - useHideDeleted hides items ahead of a deferred (undoable) DELETE
+ * - useEntityHistory reads the version history the proxy records for writes
+ * - useAuditLog reads the proxy's audit log of mutating calls
+ */
+
+import { useEffect, useState } from "react";
+import { useQuery, useQueries, useMutation, useQueryClient, type QueryClient, type QueryKey } from "@tanstack/react-query";
+import { apiClient } from "@/lib/lunchWithApi";
+import { LunchWithApiError } from "@/lib/apiError";
+import { cognitoAuth } from "@/lib/cognitoAuth";
+import { getSelectedEnvironment } from "@/lib/environment";
+import { fetchEntityHistory } from "@/lib/entityHistory";
+import { fetchAuditLog } from "@/lib/auditLog";
+import { moveTrashedCast, readTrash, removeFromTrash, subscribeTrash } from "@/lib/trash";
+import type {
+  Character,
+  Scene,
+  Cast,
+  InsertCharacter,
+  InsertScene,
+  InsertCast,
+  HistoryEntityType,
+  AuditLogFilters,
+} from "@shared/api-types";
+
+// ============================================================================
+// QUERY KEYS
+// ============================================================================
+
+/**
+ * Cache scope: data is cached per upstream environment and LWAI account
+ */
+export interface QueryScope {
+  environment: string;
+  userId: string;
+}
+
+export const lunchWithKeys = {
+  all: ["lunchwith"] as const,
+  account: ({ environment, userId }: QueryScope) => ["lunchwith", environment, userId] as const,
+  characters: (scope: QueryScope) => [...lunchWithKeys.account(scope), "characters"] as const,
+  character: (scope: QueryScope, characterId: string) => [...lunchWithKeys.characters(scope), characterId] as const,
+  scenes: (scope: QueryScope) => [...lunchWithKeys.account(scope), "scenes"] as const,
+  scene: (scope: QueryScope, sceneId: string) => [...lunchWithKeys.scenes(scope), sceneId] as const,
+  castMembers: (scope: QueryScope, sceneId: string) => [...lunchWithKeys.account(scope), "cast", sceneId] as const,
+  history: (scope: QueryScope, entityType: HistoryEntityType, entityId: string) =>
+    [...lunchWithKeys.account(scope), "history", entityType, entityId] as const,
+  // Scoped like the rest: which entries the server returns depends on the
+  // selected account, even when the filters name other accounts
+  audit: (scope: QueryScope, filters: AuditLogFilters) => [...lunchWithKeys.account(scope), "audit", filters] as const,
+};
+
+/**
+ * Selected environment and account; pages remount when either changes
+ * (see <main key> in App)
+ */
+function useQueryScope(): QueryScope {
+  return { environment: getSelectedEnvironment(), userId: cognitoAuth.getSelectedUserId() };
+}
+
+/**
+ * Returns a function that refetches everything cached for an account, for
+ * bulk operations that call apiClient directly (e.g. imports, restores)
+ * The function takes the account's user_id and defaults to the selected account.
+ */
+export function useRefreshAccountData() {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  return (userId: string = scope.userId) =>
+    queryClient.invalidateQueries({ queryKey: lunchWithKeys.account({ ...scope, userId }) });
+}
+
+/**
+ * Returns a function that refetches everything cached for every account and
+ * environment, for operations that write outside the selected account (e.g.
+ * account sync)
+ */
+export function useRefreshAllAccountData() {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: lunchWithKeys.all });
+}
+
+// ============================================================================
+// CACHE HELPERS
+// ============================================================================
+
+// Prefix for client-side ids given to optimistically created items
+const OPTIMISTIC_ID_PREFIX = "optimistic-";
+
+export function isOptimisticId(id: string) {
+  return id.startsWith(OPTIMISTIC_ID_PREFIX);
+}
+
+function optimisticId() {
+  return `${OPTIMISTIC_ID_PREFIX}${crypto.randomUUID()}`;
+}
+
+type Snapshot = Array<[QueryKey, unknown]>;
+
+/**
+ * Cancels in-flight fetches for the keys and records their current data
+ */
+async function takeSnapshot(queryClient: QueryClient, keys: QueryKey[]): Promise<Snapshot> {
+  await Promise.all(keys.map((queryKey) => queryClient.cancelQueries({ queryKey, exact: true })));
+  return keys.map((key) => [key, queryClient.getQueryData(key)]);
+}
+
+function restoreSnapshot(queryClient: QueryClient, snapshot: Snapshot | undefined) {
+  snapshot?.forEach(([key, data]) => queryClient.setQueryData<unknown>(key, data));
+}
+
+/**
+ * Replaces the item matching idOf(item) === id in a cached list, or appends it
+ */
+function upsertInList<T>(list: T[] | undefined, id: string, item: T, idOf: (item: T) => string): T[] | undefined {
+  if (!list) return list;
+  return list.some((entry) => idOf(entry) === id)
+    ? list.map((entry) => (idOf(entry) === id ? item : entry))
+    : [...list, item];
+}
+
+/**
+ * Flags an item as soft-deleted, matching what the API returns after DELETE
+ * @param deleted - Pass false to clear the flag again
+ */
+function markDeletedInList<T extends { deleted?: boolean }>(
+  list: T[] | undefined,
+  id: string,
+  idOf: (item: T) => string,
+  deleted = true
+): T[] | undefined {
+  return list?.map((entry) => (idOf(entry) === id ? { ...entry, deleted } : entry));
+}
+
+function removeFromList<T>(list: T[] | undefined, id: string, idOf: (item: T) => string): T[] | undefined {
+  return list?.filter((entry) => idOf(entry) !== id);
+}
+
+const characterIdOf = (character: Character) => character.character_id;
+const sceneIdOf = (scene: Scene) => scene.scene_id;
+const castIdOf = (cast: Cast) => cast.cast_id;
+
+// ============================================================================
+// RESTORE HELPERS
+// ============================================================================
+
+/**
+ * Deletes recorded by this client for the selected account and environment,
+ * kept up to date as deletes complete and items are restored
+ */
+export function useTrash() {
+  const scope = useQueryScope();
+  const [trash, setTrash] = useState(() => readTrash(scope));
+
+  useEffect(() => {
+    setTrash(readTrash(scope));
+    return subscribeTrash(() => setTrash(readTrash(scope)));
+  }, [scope.environment, scope.userId]);
+
+  return trash;
+}
+
+/**
+ * Outcome of restoring a soft-deleted item
+ * recreated is true when the item came back as a copy with a new id
+ */
+export interface RestoreResult<T> {
+  item: T;
+  recreated: boolean;
+}
+
+/**
+ * Restores an item with PUT { deleted: false }, falling back to recreating it
+ * with the same content when the API will not update deleted records (404/400)
+ * or ignores the deleted flag
+ * The PUT response may leave the deleted flag out; the item then only counts
+ * as restored if reading it succeeds (the API does not return deleted items).
+ */
+async function restoreOrRecreate<T extends { deleted?: boolean }>(
+  restore: () => Promise<T>,
+  read: () => Promise<T>,
+  recreate: () => Promise<T>
+): Promise<RestoreResult<T>> {
+  try {
+    const restored = await restore();
+    if (restored.deleted === false) {
+      return { item: restored, recreated: false };
+    }
+    if (restored.deleted === undefined) {
+      const item = await read();
+      if (!item.deleted) {
+        return { item, recreated: false };
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof LunchWithApiError && (error.status === 404 || error.status === 400))) {
+      throw error;
+    }
+  }
+  return { item: await recreate(), recreated: true };
+}
+
+/**
+ * Hides items from the cached lists while their DELETE is held back for undo
+ * (see use-undoable-delete). Each function returns a function that unhides.
+ */
+export function useHideDeleted() {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+
+  const hide = <T extends { deleted?: boolean }>(listKey: QueryKey, id: string, idOf: (item: T) => string) => {
+    queryClient.setQueryData<T[]>(listKey, (list) => markDeletedInList(list, id, idOf));
+    return () => queryClient.setQueryData<T[]>(listKey, (list) => markDeletedInList(list, id, idOf, false));
+  };
+
+  return {
+    character: (characterId: string) => hide(lunchWithKeys.characters(scope), characterId, characterIdOf),
+    scene: (sceneId: string) => hide(lunchWithKeys.scenes(scope), sceneId, sceneIdOf),
+    cast: (sceneId: string, castId: string) => hide(lunchWithKeys.castMembers(scope, sceneId), castId, castIdOf),
+  };
+}
+
+// ============================================================================
+// CHARACTER HOOKS
+// ============================================================================
+
+/**
+ * All characters for the selected account (the API leaves out soft-deleted ones)
+ */
+export function useCharacters() {
+  const scope = useQueryScope();
+  return useQuery({
+    queryKey: lunchWithKeys.characters(scope),
+    queryFn: () => apiClient.getCharacters(),
+    enabled: !!scope.userId,
+  });
+}
+
+/**
+ * A single character, seeded from the characters list when it is cached
+ */
+export function useCharacter(characterId: string) {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  return useQuery({
+    queryKey: lunchWithKeys.character(scope, characterId),
+    queryFn: () => apiClient.getCharacter(characterId),
+    initialData: () =>
+      queryClient
+        .getQueryData<Character[]>(lunchWithKeys.characters(scope))
+        ?.find((character) => character.character_id === characterId),
+    enabled: !!scope.userId && !!characterId,
+  });
+}
+
+export function useCreateCharacter() {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  const listKey = lunchWithKeys.characters(scope);
+
+  return useMutation({
+    mutationFn: (character: InsertCharacter) => apiClient.createCharacter(character),
+    onMutate: async (character) => {
+      const snapshot = await takeSnapshot(queryClient, [listKey]);
+      const tempId = optimisticId();
+      queryClient.setQueryData<Character[]>(listKey, (list) =>
+        upsertInList(list, tempId, { ...character, character_id: tempId }, characterIdOf)
+      );
+      return { snapshot, tempId };
+    },
+    onError: (_error, _character, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSuccess: (created, _character, context) => {
+      queryClient.setQueryData<Character[]>(listKey, (list) =>
+        upsertInList(removeFromList(list, context.tempId, characterIdOf), created.character_id, created, characterIdOf)
+      );
+      queryClient.setQueryData(lunchWithKeys.character(scope, created.character_id), created);
+    },
+  });
+}
+
+export function useUpdateCharacter() {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  const listKey = lunchWithKeys.characters(scope);
+
+  return useMutation({
+    mutationFn: ({ characterId, updates }: { characterId: string; updates: Partial<Character> }) =>
+      apiClient.updateCharacter(characterId, updates),
+    onMutate: async ({ characterId, updates }) => {
+      const detailKey = lunchWithKeys.character(scope, characterId);
+      const snapshot = await takeSnapshot(queryClient, [listKey, detailKey]);
+      queryClient.setQueryData<Character[]>(listKey, (list) =>
+        list?.map((character) => (character.character_id === characterId ? { ...character, ...updates } : character))
+      );
+      queryClient.setQueryData<Character>(detailKey, (character) => character && { ...character, ...updates });
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSuccess: (updated, { characterId }) => {
+      queryClient.setQueryData<Character[]>(listKey, (list) => upsertInList(list, characterId, updated, characterIdOf));
+      queryClient.setQueryData(lunchWithKeys.character(scope, characterId), updated);
+    },
+  });
+}
+
+export function useDeleteCharacter() {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  const listKey = lunchWithKeys.characters(scope);
+
+  return useMutation({
+    mutationFn: (characterId: string) => apiClient.deleteCharacter(characterId),
+    onMutate: async (characterId) => {
+      const snapshot = await takeSnapshot(queryClient, [listKey]);
+      queryClient.setQueryData<Character[]>(listKey, (list) => markDeletedInList(list, characterId, characterIdOf));
+      return { snapshot };
+    },
+    onError: (_error, _characterId, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSuccess: (_data, characterId) => {
+      queryClient.removeQueries({ queryKey: lunchWithKeys.character(scope, characterId), exact: true });
+    },
+  });
+}
+
+/**
+ * Restores a character from the Trash (see restoreOrRecreate)
+ */
+export function useRestoreCharacter() {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  const listKey = lunchWithKeys.characters(scope);
+
+  return useMutation({
+    mutationFn: ({ character_id, deleted, ...content }: Character) =>
+      restoreOrRecreate(
+        () => apiClient.updateCharacter(character_id, { deleted: false }),
+        () => apiClient.getCharacter(character_id),
+        () => apiClient.createCharacter(content)
+      ),
+    onMutate: async ({ character_id }) => {
+      const snapshot = await takeSnapshot(queryClient, [listKey]);
+      queryClient.setQueryData<Character[]>(listKey, (list) =>
+        list?.map((character) => (character.character_id === character_id ? { ...character, deleted: false } : character))
+      );
+      return { snapshot };
+    },
+    onError: (_error, _character, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSuccess: ({ item, recreated }, { character_id }) => {
+      removeFromTrash(scope, "character", character_id);
+      queryClient.setQueryData<Character[]>(listKey, (list) =>
+        upsertInList(recreated ? removeFromList(list, character_id, characterIdOf) : list, item.character_id, item, characterIdOf)
+      );
+      queryClient.setQueryData(lunchWithKeys.character(scope, item.character_id), item);
+    },
+  });
+}
+
+// ============================================================================
+// SCENE HOOKS
+// ============================================================================
+
+/**
+ * All scenes for the selected account (the API leaves out soft-deleted ones)
+ */
+export function useScenes() {
+  const scope = useQueryScope();
+  return useQuery({
+    queryKey: lunchWithKeys.scenes(scope),
+    queryFn: () => apiClient.getScenes(),
+    enabled: !!scope.userId,
+  });
+}
+
+/**
+ * A single scene, seeded from the scenes list when it is cached
+ */
+export function useScene(sceneId: string) {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  return useQuery({
+    queryKey: lunchWithKeys.scene(scope, sceneId),
+    queryFn: () => apiClient.getScene(sceneId),
+    initialData: () =>
+      queryClient
+        .getQueryData<Scene[]>(lunchWithKeys.scenes(scope))
+        ?.find((scene) => scene.scene_id === sceneId),
+    enabled: !!scope.userId && !!sceneId,
+  });
+}
+
+export function useCreateScene() {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  const listKey = lunchWithKeys.scenes(scope);
+
+  return useMutation({
+    mutationFn: (scene: InsertScene) => apiClient.createScene(scene),
+    onMutate: async (scene) => {
+      const snapshot = await takeSnapshot(queryClient, [listKey]);
+      const tempId = optimisticId();
+      queryClient.setQueryData<Scene[]>(listKey, (list) =>
+        upsertInList(list, tempId, { ...scene, scene_id: tempId }, sceneIdOf)
+      );
+      return { snapshot, tempId };
+    },
+    onError: (_error, _scene, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSuccess: (created, _scene, context) => {
+      queryClient.setQueryData<Scene[]>(listKey, (list) =>
+        upsertInList(removeFromList(list, context.tempId, sceneIdOf), created.scene_id, created, sceneIdOf)
+      );
+      queryClient.setQueryData(lunchWithKeys.scene(scope, created.scene_id), created);
+      // A new scene has no cast yet
+      queryClient.setQueryData<Cast[]>(lunchWithKeys.castMembers(scope, created.scene_id), []);
+    },
+  });
+}
+
+export function useUpdateScene() {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  const listKey = lunchWithKeys.scenes(scope);
+
+  return useMutation({
+    mutationFn: ({ sceneId, updates }: { sceneId: string; updates: Partial<Scene> }) =>
+      apiClient.updateScene(sceneId, updates),
+    onMutate: async ({ sceneId, updates }) => {
+      const detailKey = lunchWithKeys.scene(scope, sceneId);
+      const snapshot = await takeSnapshot(queryClient, [listKey, detailKey]);
+      queryClient.setQueryData<Scene[]>(listKey, (list) =>
+        list?.map((scene) => (scene.scene_id === sceneId ? { ...scene, ...updates } : scene))
+      );
+      queryClient.setQueryData<Scene>(detailKey, (scene) => scene && { ...scene, ...updates });
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSuccess: (updated, { sceneId }) => {
+      queryClient.setQueryData<Scene[]>(listKey, (list) => upsertInList(list, sceneId, updated, sceneIdOf));
+      queryClient.setQueryData(lunchWithKeys.scene(scope, sceneId), updated);
+    },
+  });
+}
+
+export function useDeleteScene() {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  const listKey = lunchWithKeys.scenes(scope);
+
+  return useMutation({
+    mutationFn: (sceneId: string) => apiClient.deleteScene(sceneId),
+    onMutate: async (sceneId) => {
+      const snapshot = await takeSnapshot(queryClient, [listKey]);
+      queryClient.setQueryData<Scene[]>(listKey, (list) => markDeletedInList(list, sceneId, sceneIdOf));
+      return { snapshot };
+    },
+    onError: (_error, _sceneId, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSuccess: (_data, sceneId) => {
+      // Deleting a scene also deletes its cast members
+      queryClient.removeQueries({ queryKey: lunchWithKeys.scene(scope, sceneId), exact: true });
+      queryClient.removeQueries({ queryKey: lunchWithKeys.castMembers(scope, sceneId), exact: true });
+    },
+  });
+}
+
+/**
+ * Restores a scene from the Trash (see restoreOrRecreate)
+ * Cast members deleted with the scene stay in the Trash and are restored
+ * separately; when the scene comes back as a copy, their records move to it.
+ */
+export function useRestoreScene() {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  const listKey = lunchWithKeys.scenes(scope);
+
+  return useMutation({
+    mutationFn: ({ scene_id, deleted, ...content }: Scene) =>
+      restoreOrRecreate(
+        () => apiClient.updateScene(scene_id, { deleted: false }),
+        () => apiClient.getScene(scene_id),
+        () => apiClient.createScene(content)
+      ),
+    onMutate: async ({ scene_id }) => {
+      const snapshot = await takeSnapshot(queryClient, [listKey]);
+      queryClient.setQueryData<Scene[]>(listKey, (list) =>
+        list?.map((scene) => (scene.scene_id === scene_id ? { ...scene, deleted: false } : scene))
+      );
+      return { snapshot };
+    },
+    onError: (_error, _scene, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSuccess: ({ item, recreated }, { scene_id }) => {
+      removeFromTrash(scope, "scene", scene_id);
+      queryClient.setQueryData<Scene[]>(listKey, (list) =>
+        upsertInList(recreated ? removeFromList(list, scene_id, sceneIdOf) : list, item.scene_id, item, sceneIdOf)
+      );
+      queryClient.setQueryData(lunchWithKeys.scene(scope, item.scene_id), item);
+      if (recreated) {
+        moveTrashedCast(scope, scene_id, item.scene_id);
+        queryClient.setQueryData<Cast[]>(lunchWithKeys.castMembers(scope, item.scene_id), []);
+      }
+    },
+  });
+}
+
+// ============================================================================
+// CAST MEMBER HOOKS
+// ============================================================================
+
+/**
+ * All cast members of a scene (the API leaves out soft-deleted ones)
+ */
+export function useCastMembers(sceneId: string) {
+  const scope = useQueryScope();
+  return useQuery({
+    queryKey: lunchWithKeys.castMembers(scope, sceneId),
+    queryFn: () => apiClient.getCastMembers(sceneId),
+    enabled: !!scope.userId && !!sceneId,
+  });
+}
+
+/**
+ * Cast members for several scenes at once, keyed by scene_id
+ * Scenes whose cast fails to load map to an empty list
+ */
+export function useCastMembersByScene(sceneIds: string[]) {
+  const scope = useQueryScope();
+  return useQueries({
+    queries: sceneIds.map((sceneId) => ({
+      queryKey: lunchWithKeys.castMembers(scope, sceneId),
+      queryFn: () => apiClient.getCastMembers(sceneId),
+      enabled: !!scope.userId,
+    })),
+    combine: (results) => {
+      const castMembersByScene: Record<string, Cast[]> = {};
+      results.forEach((result, index) => {
+        castMembersByScene[sceneIds[index]] = result.data ?? [];
+      });
+      return castMembersByScene;
+    },
+  });
+}
+
+export function useCreateCast(sceneId: string) {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  const listKey = lunchWithKeys.castMembers(scope, sceneId);
+
+  return useMutation({
+    mutationFn: (cast: InsertCast) => apiClient.createCast(sceneId, cast),
+    onMutate: async (cast) => {
+      const snapshot = await takeSnapshot(queryClient, [listKey]);
+      const tempId = optimisticId();
+      queryClient.setQueryData<Cast[]>(listKey, (list) => upsertInList(list, tempId, { ...cast, cast_id: tempId }, castIdOf));
+      return { snapshot, tempId };
+    },
+    onError: (_error, _cast, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSuccess: (created, _cast, context) => {
+      queryClient.setQueryData<Cast[]>(listKey, (list) =>
+        upsertInList(removeFromList(list, context.tempId, castIdOf), created.cast_id, created, castIdOf)
+      );
+    },
+  });
+}
+
+export function useUpdateCast(sceneId: string) {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  const listKey = lunchWithKeys.castMembers(scope, sceneId);
+
+  return useMutation({
+    mutationFn: ({ castId, updates }: { castId: string; updates: Partial<Cast> }) =>
+      apiClient.updateCast(sceneId, castId, updates),
+    onMutate: async ({ castId, updates }) => {
+      const snapshot = await takeSnapshot(queryClient, [listKey]);
+      queryClient.setQueryData<Cast[]>(listKey, (list) =>
+        list?.map((cast) => (cast.cast_id === castId ? { ...cast, ...updates } : cast))
+      );
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSuccess: (updated, { castId }) => {
+      queryClient.setQueryData<Cast[]>(listKey, (list) => upsertInList(list, castId, updated, castIdOf));
+    },
+  });
+}
+
+export function useDeleteCast(sceneId: string) {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+  const listKey = lunchWithKeys.castMembers(scope, sceneId);
+
+  return useMutation({
+    mutationFn: (castId: string) => apiClient.deleteCast(sceneId, castId),
+    onMutate: async (castId) => {
+      const snapshot = await takeSnapshot(queryClient, [listKey]);
+      queryClient.setQueryData<Cast[]>(listKey, (list) => markDeletedInList(list, castId, castIdOf));
+      return { snapshot };
+    },
+    onError: (_error, _castId, context) => restoreSnapshot(queryClient, context?.snapshot),
+  });
+}
+
+/**
+ * Restores a cast member of any scene from the Trash (see restoreOrRecreate)
+ * The scene itself must not be deleted
+ */
+export function useRestoreCast() {
+  const scope = useQueryScope();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ cast_id, deleted, ...content }: Cast) =>
+      restoreOrRecreate(
+        () => apiClient.updateCast(content.scene_id, cast_id, { deleted: false }),
+        () => apiClient.getCastMember(content.scene_id, cast_id),
+        () => apiClient.createCast(content.scene_id, content)
+      ),
+    onMutate: async ({ cast_id, scene_id }) => {
+      const listKey = lunchWithKeys.castMembers(scope, scene_id);
+      const snapshot = await takeSnapshot(queryClient, [listKey]);
+      queryClient.setQueryData<Cast[]>(listKey, (list) =>
+        list?.map((cast) => (cast.cast_id === cast_id ? { ...cast, deleted: false } : cast))
+      );
+      return { snapshot };
+    },
+    onError: (_error, _cast, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSuccess: ({ item, recreated }, { cast_id, scene_id }) => {
+      removeFromTrash(scope, "cast", cast_id);
+      queryClient.setQueryData<Cast[]>(lunchWithKeys.castMembers(scope, scene_id), (list) =>
+        upsertInList(recreated ? removeFromList(list, cast_id, castIdOf) : list, item.cast_id, item, castIdOf)
+      );
+    },
+  });
+}
+
+// ============================================================================
+// VERSION HISTORY
+// ============================================================================
+
+/**
+ * Recorded versions of a character, scene or cast member, newest first
+ * Refetched each time it is shown, since every write adds a version.
+ */
+export function useEntityHistory(entityType: HistoryEntityType, entityId: string) {
+  const scope = useQueryScope();
+  return useQuery({
+    queryKey: lunchWithKeys.history(scope, entityType, entityId),
+    queryFn: () => fetchEntityHistory(entityType, entityId),
+    enabled: !!scope.userId && !!entityId,
+    staleTime: 0,
+  });
+}
+
+// ============================================================================
+// AUDIT LOG
+// ============================================================================
+
+/**
+ * Audit log entries matching the filters, newest first
+ * Refetched each time it is shown, since every write adds an entry.
+ */
+export function useAuditLog(filters: AuditLogFilters) {
+  const scope = useQueryScope();
+  return useQuery({
+    queryKey: lunchWithKeys.audit(scope, filters),
+    queryFn: () => fetchAuditLog(filters),
+    staleTime: 0,
+  });
+}
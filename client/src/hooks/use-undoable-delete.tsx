@@ -0,0 +1,71 @@
+/**
+ * Undoable Deletes
+ *
+ * Hides an item right away and shows a toast with an Undo button; the DELETE
+ * call is only sent once the undo window passes (see lib/pendingDeletes for
+ * the other points at which pending deletes are committed).
+ */
+
+import { ToastAction } from "@/components/ui/toast";
+import ErrorDetails from "@/components/ErrorDetails";
+import { useToast } from "@/hooks/use-toast";
+import { pendingDeletes, UNDO_WINDOW_MS } from "@/lib/pendingDeletes";
+
+export interface UndoableDelete {
+  // Identifies the item, e.g. "character:<id>"
+  key: string;
+  // Toast title, e.g. "Character deleted"
+  title: string;
+  // Entity label used in the error toast, e.g. "character"
+  label: string;
+  // Route the user will be on during the undo window
+  page: string;
+  // Hides the item locally and returns a function that shows it again
+  hide: () => () => void;
+  // Sends the DELETE
+  commit: () => Promise<unknown>;
+}
+
+export function useUndoableDelete() {
+  const { toast } = useToast();
+
+  return ({ key, title, label, page, hide, commit }: UndoableDelete) => {
+    const unhide = hide();
+
+    pendingDeletes.schedule(
+      key,
+      page,
+      async () => {
+        try {
+          await commit();
+        } catch (error) {
+          unhide();
+          toast({
+            title: `Error deleting ${label}`,
+            description: <ErrorDetails error={error} />,
+            variant: "destructive",
+          });
+        }
+      },
+      unhide
+    );
+
+    const { dismiss } = toast({
+      title,
+      description: `The ${label} will be deleted in a few seconds.`,
+      duration: UNDO_WINDOW_MS,
+      action: (
+        <ToastAction
+          altText={`Undo deleting ${label}`}
+          onClick={() => {
+            pendingDeletes.undo(key);
+            dismiss();
+          }}
+          data-testid="button-undo-delete"
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+}
@@ -0,0 +1,224 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  accountBackupFileName,
+  createAccountBackup,
+  parseAccountBackup,
+  restoreAccountBackup,
+  summarizeBackup,
+  AccountBackupError,
+  ACCOUNT_BACKUP_FORMAT,
+  ACCOUNT_BACKUP_VERSION,
+  type AccountBackup,
+  type BackupProgress,
+} from "./accountBackup";
+import type { LunchWithAPIClient } from "./lunchWithApi";
+import type { Cast, Character, InsertCast, InsertCharacter, InsertScene, Scene } from "@shared/api-types";
+
+const character = (id: string, name: string): Character => ({
+  character_id: id,
+  name,
+  description: `${name} description`,
+  motivation: `${name} motivation`,
+});
+
+const scene = (id: string, name: string): Scene => ({ scene_id: id, name, description: `${name} description` });
+
+const cast = (id: string, sceneId: string, role: string): Cast => ({
+  cast_id: id,
+  scene_id: sceneId,
+  role,
+  goal: `${role} goal`,
+  start: "",
+});
+
+const backup = (): AccountBackup => ({
+  format: ACCOUNT_BACKUP_FORMAT,
+  version: ACCOUNT_BACKUP_VERSION,
+  createdAt: "2026-01-01T12:00:00.000Z",
+  source: { environment: "beta", userId: "account-1" },
+  characters: [character("c1", "Ava"), character("c2", "Ben")],
+  scenes: [
+    { ...scene("s1", "Cafe"), cast: [cast("k1", "s1", "Host"), cast("k2", "s1", "Waiter")] },
+    { ...scene("s2", "Park"), cast: [cast("k3", "s2", "Jogger")] },
+  ],
+});
+
+/**
+ * Stand-in for the API client: serves the given account and records creates,
+ * which get sequential ids; names and roles listed in failNames fail
+ */
+function fakeClient({
+  characters = [] as Character[],
+  scenes = [] as Array<Scene & { cast: Cast[] }>,
+  failNames = [] as string[],
+} = {}) {
+  const calls: string[] = [];
+  let nextId = 1;
+  const fail = (what: string) => Promise.reject(new Error(`${what} failed`));
+
+  const client = {
+    async getCharacters() {
+      return characters;
+    },
+    async getScenes() {
+      return scenes.map(({ cast: _cast, ...rest }) => rest);
+    },
+    async getCastMembers(sceneId: string) {
+      return scenes.find((item) => item.scene_id === sceneId)?.cast ?? [];
+    },
+    async createCharacter(content: InsertCharacter): Promise<Character> {
+      calls.push(`createCharacter ${content.name}`);
+      if (failNames.includes(content.name)) return fail("createCharacter");
+      return { ...content, character_id: `new-${nextId++}` };
+    },
+    async createScene(content: InsertScene): Promise<Scene> {
+      calls.push(`createScene ${content.name}`);
+      if (failNames.includes(content.name)) return fail("createScene");
+      return { ...content, scene_id: `new-${nextId++}` };
+    },
+    async createCast(sceneId: string, content: InsertCast): Promise<Cast> {
+      calls.push(`createCast ${sceneId} ${content.scene_id} ${content.role}`);
+      if (failNames.includes(content.role)) return fail("createCast");
+      return { ...content, cast_id: `new-${nextId++}` };
+    },
+  };
+  return { client: client as unknown as LunchWithAPIClient, calls };
+}
+
+const noProgress = () => {};
+
+describe("parseAccountBackup", () => {
+  it("round-trips a backup through JSON", () => {
+    const original = backup();
+
+    assert.deepEqual(parseAccountBackup(JSON.stringify(original)), original);
+  });
+
+  it("rejects text that is not JSON", () => {
+    assert.throws(() => parseAccountBackup("{"), (error: unknown) => {
+      return error instanceof AccountBackupError && /not valid JSON/.test(error.message);
+    });
+  });
+
+  it("rejects files of another format", () => {
+    assert.throws(() => parseAccountBackup(JSON.stringify({ ...backup(), format: "lunchwith.scene-bundle" })), (error: unknown) => {
+      return error instanceof AccountBackupError && /not a LunchWith.ai account backup/.test(error.message);
+    });
+    assert.throws(() => parseAccountBackup("[]"), AccountBackupError);
+  });
+
+  it("asks for an update when the backup is newer than the app", () => {
+    const newer = { ...backup(), version: ACCOUNT_BACKUP_VERSION + 1 };
+
+    assert.throws(() => parseAccountBackup(JSON.stringify(newer)), (error: unknown) => {
+      return error instanceof AccountBackupError && /Update the app/.test(error.message);
+    });
+  });
+
+  it("names the invalid fields", () => {
+    const invalid = { ...backup(), characters: [{ character_id: "c1", name: 42 }] };
+
+    assert.throws(() => parseAccountBackup(JSON.stringify(invalid)), (error: unknown) => {
+      return error instanceof AccountBackupError && /The backup is invalid/.test(error.message) && /characters/.test(error.message);
+    });
+  });
+});
+
+describe("createAccountBackup", () => {
+  it("reads characters, scenes and the cast of every scene", async () => {
+    const { characters, scenes } = backup();
+    const { client } = fakeClient({ characters, scenes });
+    const progress: BackupProgress[] = [];
+
+    const created = await createAccountBackup(client, { environment: "beta", userId: "account-1" }, (step) => progress.push(step));
+
+    assert.equal(created.format, ACCOUNT_BACKUP_FORMAT);
+    assert.deepEqual(created.source, { environment: "beta", userId: "account-1" });
+    assert.deepEqual(created.characters, characters);
+    assert.deepEqual(created.scenes, scenes);
+    assert.deepEqual(progress.at(-1), { completed: 4, total: 4, step: "Done" });
+  });
+});
+
+describe("restoreAccountBackup", () => {
+  it("creates every item and maps old ids to new ones", async () => {
+    const { client, calls } = fakeClient();
+
+    const report = await restoreAccountBackup(backup(), client, "account-2", noProgress);
+
+    assert.equal(report.targetUserId, "account-2");
+    assert.deepEqual(report.idMap, {
+      character: { c1: "new-1", c2: "new-2" },
+      scene: { s1: "new-3", s2: "new-6" },
+      cast: { k1: "new-4", k2: "new-5", k3: "new-7" },
+    });
+    assert.deepEqual(report.failed, []);
+    assert.deepEqual(report.skipped, []);
+    // Cast members are created in their restored scenes
+    assert.deepEqual(calls.filter((call) => call.startsWith("createCast")), [
+      "createCast new-3 new-3 Host",
+      "createCast new-3 new-3 Waiter",
+      "createCast new-6 new-6 Jogger",
+    ]);
+  });
+
+  it("collects failures and keeps going", async () => {
+    const { client } = fakeClient({ failNames: ["Ava", "Waiter"] });
+
+    const report = await restoreAccountBackup(backup(), client, "account-2", noProgress);
+
+    assert.deepEqual(
+      report.failed.map(({ kind, oldId, name }) => ({ kind, oldId, name })),
+      [
+        { kind: "character", oldId: "c1", name: "Ava" },
+        { kind: "cast", oldId: "k2", name: "Waiter" },
+      ],
+    );
+    assert.deepEqual(Object.keys(report.idMap.character), ["c2"]);
+    assert.deepEqual(Object.keys(report.idMap.cast), ["k1", "k3"]);
+  });
+
+  it("skips the cast of a scene that could not be created", async () => {
+    const { client, calls } = fakeClient({ failNames: ["Cafe"] });
+    const progress: BackupProgress[] = [];
+
+    const report = await restoreAccountBackup(backup(), client, "account-2", (step) => progress.push(step));
+
+    assert.deepEqual(report.failed.map(({ kind, oldId }) => ({ kind, oldId })), [{ kind: "scene", oldId: "s1" }]);
+    assert.deepEqual(report.skipped, [
+      { oldId: "k1", name: "Host", sceneId: "s1" },
+      { oldId: "k2", name: "Waiter", sceneId: "s1" },
+    ]);
+    assert.ok(!calls.some((call) => call.includes("Host") || call.includes("Waiter")));
+    assert.deepEqual(progress.at(-1), { completed: 7, total: 7, step: "Done" });
+  });
+
+  it("does not send the deleted flag or the old ids", async () => {
+    const sent: unknown[] = [];
+    const { client } = fakeClient();
+    const recording = Object.assign(Object.create(client), {
+      async createCharacter(content: InsertCharacter) {
+        sent.push(content);
+        return client.createCharacter(content);
+      },
+    }) as LunchWithAPIClient;
+    const withDeleted: AccountBackup = { ...backup(), characters: [{ ...character("c1", "Ava"), deleted: false }], scenes: [] };
+
+    await restoreAccountBackup(withDeleted, recording, "account-2", noProgress);
+
+    assert.deepEqual(sent, [{ name: "Ava", description: "Ava description", motivation: "Ava motivation" }]);
+  });
+});
+
+describe("summarizeBackup", () => {
+  it("counts characters, scenes and cast members", () => {
+    assert.deepEqual(summarizeBackup(backup()), { characters: 2, scenes: 2, cast: 3 });
+  });
+});
+
+describe("accountBackupFileName", () => {
+  it("names the file after the account and the day", () => {
+    assert.equal(accountBackupFileName(backup()), "lunchwith-backup-account-1-2026-01-01.json");
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Account Backups
+ *
+ * A backup is a JSON archive of everything in one LWAI account: characters,
+ * scenes and each scene's cast members. Restoring replays the
+ * archive into the current or another account: every item is created anew,
+ * and the new ids are recorded in an id map (old id -> new id) so cast members
+ * land in their restored scenes.
+ *
+ * Format (version 1):
+ * {
+ *   "format": "lunchwith.account-backup",
+ *   "version": 1,
+ *   "createdAt": "<ISO timestamp>",
+ *   "source": { "environment": "beta", "userId": "<LWAI user_id>" },
+ *   "characters": [Character, ...],
+ *   "scenes": [{ ...Scene, "cast": [Cast, ...] }, ...]
+ * }
+ */
+
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { characterSchema, sceneSchema, castSchema } from "@shared/api-schemas";
+import type { LunchWithAPIClient } from "@/lib/lunchWithApi";
+import type { Character, Scene, Cast } from "@shared/api-types";
+
+export const ACCOUNT_BACKUP_FORMAT = "lunchwith.account-backup";
+export const ACCOUNT_BACKUP_VERSION = 1;
+
+const accountBackupSchema = z.object({
+  format: z.literal(ACCOUNT_BACKUP_FORMAT),
+  version: z.literal(ACCOUNT_BACKUP_VERSION),
+  createdAt: z.string(),
+  source: z.object({
+    environment: z.string(),
+    userId: z.string(),
+  }),
+  characters: z.array(characterSchema),
+  scenes: z.array(z.intersection(sceneSchema, z.object({ cast: z.array(castSchema) }))),
+});
+
+export type BackupScene = Scene & { cast: Cast[] };
+
+export interface AccountBackup {
+  format: typeof ACCOUNT_BACKUP_FORMAT;
+  version: typeof ACCOUNT_BACKUP_VERSION;
+  createdAt: string;
+  source: { environment: string; userId: string };
+  characters: Character[];
+  scenes: BackupScene[];
+}
+
+/**
+ * Thrown when a file is not a backup this version can restore
+ */
+export class AccountBackupError extends Error {}
+
+export interface BackupProgress {
+  completed: number;
+  total: number;
+  step: string;
+}
+
+/**
+ * Reads every character, scene and cast member of the client's account
+ * @param source - Account and environment recorded in the archive
+ */
+export async function createAccountBackup(
+  client: LunchWithAPIClient,
+  source: AccountBackup["source"],
+  onProgress: (progress: BackupProgress) => void
+): Promise<AccountBackup> {
+  onProgress({ completed: 0, total: 2, step: "Reading characters" });
+  const characters = await client.getCharacters();
+  onProgress({ completed: 1, total: 2, step: "Reading scenes" });
+  const scenes = await client.getScenes();
+
+  const total = 2 + scenes.length;
+  const backupScenes: BackupScene[] = [];
+  for (let index = 0; index < scenes.length; index++) {
+    const scene = scenes[index];
+    onProgress({ completed: 2 + index, total, step: `Reading cast of "${scene.name}"` });
+    backupScenes.push({ ...scene, cast: await client.getCastMembers(scene.scene_id) });
+  }
+  onProgress({ completed: total, total, step: "Done" });
+
+  return {
+    format: ACCOUNT_BACKUP_FORMAT,
+    version: ACCOUNT_BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    source,
+    characters,
+    scenes: backupScenes,
+  };
+}
+
+/**
+ * Parses and validates the text of a backup file
+ * @throws AccountBackupError with a readable reason
+ */
+export function parseAccountBackup(text: string): AccountBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new AccountBackupError("The file is not valid JSON.");
+  }
+
+  const header = z.object({ format: z.string(), version: z.number() }).safeParse(data);
+  if (!header.success || header.data.format !== ACCOUNT_BACKUP_FORMAT) {
+    throw new AccountBackupError("The file is not a LunchWith.ai account backup.");
+  }
+  if (header.data.version > ACCOUNT_BACKUP_VERSION) {
+    throw new AccountBackupError(
+      `The backup is version ${header.data.version}, but this app only reads up to version ${ACCOUNT_BACKUP_VERSION}. Update the app and try again.`
+    );
+  }
+
+  const result = accountBackupSchema.safeParse(data);
+  if (!result.success) {
+    throw new AccountBackupError(fromZodError(result.error, { prefix: "The backup is invalid" }).message);
+  }
+  return result.data as AccountBackup;
+}
+
+/**
+ * File name for a backup, e.g. "lunchwith-backup-<user_id>-2024-05-01.json"
+ */
+export function accountBackupFileName(backup: AccountBackup): string {
+  return `lunchwith-backup-${backup.source.userId}-${backup.createdAt.slice(0, 10)}.json`;
+}
+
+/**
+ * Item counts for previews
+ */
+export function summarizeBackup(backup: AccountBackup) {
+  return {
+    characters: backup.characters.length,
+    scenes: backup.scenes.length,
+    cast: backup.scenes.reduce((sum, scene) => sum + scene.cast.length, 0),
+  };
+}
+
+// ============================================================================
+// RESTORE
+// ============================================================================
+
+export type RestoreItemKind = "character" | "scene" | "cast";
+
+export interface RestoreFailure {
+  kind: RestoreItemKind;
+  oldId: string;
+  name: string;
+  error: unknown;
+}
+
+export interface RestoreReport {
+  targetUserId: string;
+  // Old id -> new id, per entity type
+  idMap: Record<RestoreItemKind, Record<string, string>>;
+  failed: RestoreFailure[];
+  // Cast members not attempted because their scene failed
+  skipped: Array<{ oldId: string; name: string; sceneId: string }>;
+}
+
+/**
+ * Replays a backup into the client's account
+ * Failures do not stop the restore; they are collected in the report. Cast
+ * members of a scene that could not be created are skipped.
+ */
+export async function restoreAccountBackup(
+  backup: AccountBackup,
+  client: LunchWithAPIClient,
+  targetUserId: string,
+  onProgress: (progress: BackupProgress) => void
+): Promise<RestoreReport> {
+  const { characters, scenes } = backup;
+  const total = characters.length + scenes.reduce((sum, scene) => sum + 1 + scene.cast.length, 0);
+
+  const report: RestoreReport = {
+    targetUserId,
+    idMap: { character: {}, scene: {}, cast: {} },
+    failed: [],
+    skipped: [],
+  };
+  let completed = 0;
+
+  for (const { character_id, deleted, ...content } of characters) {
+    onProgress({ completed: completed++, total, step: `Creating character "${content.name}"` });
+    try {
+      const created = await client.createCharacter(content);
+      report.idMap.character[character_id] = created.character_id;
+    } catch (error) {
+      report.failed.push({ kind: "character", oldId: character_id, name: content.name, error });
+    }
+  }
+
+  for (const { scene_id, deleted, cast: sceneCast, ...content } of scenes) {
+    onProgress({ completed: completed++, total, step: `Creating scene "${content.name}"` });
+
+    let newSceneId: string;
+    try {
+      newSceneId = (await client.createScene(content)).scene_id;
+      report.idMap.scene[scene_id] = newSceneId;
+    } catch (error) {
+      report.failed.push({ kind: "scene", oldId: scene_id, name: content.name, error });
+      sceneCast.forEach((member) =>
+        report.skipped.push({ oldId: member.cast_id, name: member.role, sceneId: scene_id })
+      );
+      completed += sceneCast.length;
+      continue;
+    }
+
+    for (const { cast_id, deleted: castDeleted, ...castContent } of sceneCast) {
+      onProgress({ completed: completed++, total, step: `Creating cast member "${castContent.role}"` });
+      try {
+        const created = await client.createCast(newSceneId, { ...castContent, scene_id: newSceneId });
+        report.idMap.cast[cast_id] = created.cast_id;
+      } catch (error) {
+        report.failed.push({ kind: "cast", oldId: cast_id, name: castContent.role, error });
+      }
+    }
+  }
+
+  onProgress({ completed: total, total, step: "Done" });
+  return report;
+}
@@ -0,0 +1,114 @@
+/**
+ * Cross-Account Copy
+ *
+ * Copies a character, or a scene with its cast, from the selected LWAI account
+ * into another account of the same user. The create calls go through a client
+ * bound to the target account (apiClient.withTarget), so the copies get new
+ * ids there; the source items are left untouched.
+ */
+
+import { apiClient } from "@/lib/lunchWithApi";
+import type { Character, Scene, Cast } from "@shared/api-types";
+
+export type CopyItemKind = "character" | "scene" | "cast";
+
+export interface CopiedItem {
+  kind: CopyItemKind;
+  sourceId: string;
+  // Id of the copy in the target account
+  newId: string;
+  name: string;
+}
+
+export interface CopyFailure {
+  kind: CopyItemKind;
+  sourceId: string;
+  name: string;
+  error: unknown;
+}
+
+export interface AccountCopyReport {
+  targetUserId: string;
+  copied: CopiedItem[];
+  failed: CopyFailure[];
+}
+
+export interface CopyProgress {
+  completed: number;
+  total: number;
+  step: string;
+}
+
+/**
+ * Creates a copy of a character in the target account
+ */
+export async function copyCharacterToAccount(
+  character: Character,
+  targetUserId: string,
+  onProgress: (progress: CopyProgress) => void
+): Promise<AccountCopyReport> {
+  const { character_id, deleted, ...content } = character;
+  const report: AccountCopyReport = { targetUserId, copied: [], failed: [] };
+
+  onProgress({ completed: 0, total: 1, step: `Copying character "${content.name}"` });
+  try {
+    const created = await apiClient.withTarget({ userId: targetUserId }).createCharacter(content);
+    report.copied.push({ kind: "character", sourceId: character_id, newId: created.character_id, name: content.name });
+  } catch (error) {
+    report.failed.push({ kind: "character", sourceId: character_id, name: content.name, error });
+  }
+  onProgress({ completed: 1, total: 1, step: "Done" });
+
+  return report;
+}
+
+/**
+ * Creates a copy of a scene and all of its (non-deleted) cast members in the
+ * target account
+ * The cast is read fresh from the source account so the copy is complete even
+ * if the caller only had part of it loaded. Cast failures do not stop the
+ * copy; if the scene itself fails, no cast members are attempted.
+ */
+export async function copySceneToAccount(
+  scene: Scene,
+  targetUserId: string,
+  onProgress: (progress: CopyProgress) => void
+): Promise<AccountCopyReport> {
+  const { scene_id, deleted, ...content } = scene;
+  const report: AccountCopyReport = { targetUserId, copied: [], failed: [] };
+  const target = apiClient.withTarget({ userId: targetUserId });
+
+  onProgress({ completed: 0, total: 1, step: `Reading cast of "${content.name}"` });
+  let cast: Cast[];
+  try {
+    cast = (await apiClient.getCastMembers(scene_id)).filter((member) => !member.deleted);
+  } catch (error) {
+    report.failed.push({ kind: "scene", sourceId: scene_id, name: content.name, error });
+    return report;
+  }
+
+  const total = 1 + cast.length;
+  onProgress({ completed: 0, total, step: `Copying scene "${content.name}"` });
+  let newSceneId: string;
+  try {
+    newSceneId = (await target.createScene(content)).scene_id;
+    report.copied.push({ kind: "scene", sourceId: scene_id, newId: newSceneId, name: content.name });
+  } catch (error) {
+    report.failed.push({ kind: "scene", sourceId: scene_id, name: content.name, error });
+    return report;
+  }
+
+  for (let index = 0; index < cast.length; index++) {
+    const { cast_id, deleted: castDeleted, ...castContent } = cast[index];
+    onProgress({ completed: 1 + index, total, step: `Copying cast member "${castContent.role}"` });
+    try {
+      const created = await target.createCast(newSceneId, { ...castContent, scene_id: newSceneId });
+      report.copied.push({ kind: "cast", sourceId: cast_id, newId: created.cast_id, name: castContent.role });
+    } catch (error) {
+      report.failed.push({ kind: "cast", sourceId: cast_id, name: castContent.role, error });
+    }
+  }
+  onProgress({ completed: total, total, step: "Done" });
+
+  return report;
+}
@@ -0,0 +1,38 @@
+/**
+ * Per-Account Route Memory
+ *
+ * Remembers the last visited route for each LWAI account so switching
+ * accounts returns the user to where they left off in that account.
+ * Stored in localStorage as a map of user_id → route.
+ */
+
+const STORAGE_KEY = 'lwai_last_route_by_account';
+
+function readRoutes(): Record<string, string> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Records the current route for an account
+ * @param userId - LWAI account the route belongs to
+ * @param route - Path to remember (e.g., "/scenes/{id}")
+ */
+export function rememberAccountRoute(userId: string, route: string) {
+  if (!userId) return;
+  const routes = readRoutes();
+  routes[userId] = route;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(routes));
+}
+
+/**
+ * Returns the last route visited in an account, if any
+ * @param userId - LWAI account to look up
+ */
+export function getAccountRoute(userId: string): string | undefined {
+  return readRoutes()[userId];
+}
@@ -0,0 +1,133 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { describeAction, diffSnapshots, type AccountSnapshot } from "./accountSync";
+import type { Cast, Character } from "@shared/api-types";
+
+const character = (id: string, name: string, description = ""): Character => ({
+  character_id: id,
+  name,
+  description,
+  motivation: "",
+});
+
+const cast = (id: string, sceneId: string, role: string, goal = ""): Cast => ({
+  cast_id: id,
+  scene_id: sceneId,
+  role,
+  goal,
+  start: "",
+});
+
+const scene = (id: string, name: string, members: Cast[] = [], description = "") => ({
+  scene_id: id,
+  name,
+  description,
+  cast: members,
+});
+
+describe("diffSnapshots", () => {
+  it("leaves out items with the same content, whatever their ids", () => {
+    const left: AccountSnapshot = { characters: [character("l1", "Ava")], scenes: [scene("ls", "Cafe")] };
+    const right: AccountSnapshot = { characters: [character("r1", "Ava")], scenes: [scene("rs", "Cafe")] };
+
+    assert.deepEqual(diffSnapshots(left, right), []);
+  });
+
+  it("matches names ignoring case and surrounding whitespace", () => {
+    const left: AccountSnapshot = { characters: [character("l1", "Ava")], scenes: [] };
+    const right: AccountSnapshot = { characters: [character("r1", " ava ")], scenes: [] };
+
+    const entries = diffSnapshots(left, right);
+
+    assert.deepEqual(
+      entries.map(({ key, status, fields }) => ({ key, status, fields })),
+      [{ key: "character:ava", status: "changed", fields: ["name"] }],
+    );
+  });
+
+  it("classifies items as added, removed or changed with the changed fields", () => {
+    const left: AccountSnapshot = {
+      characters: [character("l1", "Ava", "Host"), character("l2", "Ben")],
+      scenes: [],
+    };
+    const right: AccountSnapshot = {
+      characters: [character("r1", "Ava", "Guest"), character("r3", "Cy")],
+      scenes: [],
+    };
+
+    const entries = diffSnapshots(left, right);
+
+    assert.deepEqual(
+      entries.map(({ key, status, fields }) => ({ key, status, fields })),
+      [
+        { key: "character:ava", status: "changed", fields: ["description"] },
+        { key: "character:ben", status: "added", fields: [] },
+        { key: "character:cy", status: "removed", fields: [] },
+      ],
+    );
+  });
+
+  it("compares cast only within scenes on both sides, by role", () => {
+    const left: AccountSnapshot = {
+      characters: [],
+      scenes: [
+        scene("ls", "Cafe", [cast("lk1", "ls", "Host", "Greet"), cast("lk2", "ls", "Waiter")]),
+        scene("ln", "Park", [cast("lk3", "ln", "Walker")]),
+      ],
+    };
+    const right: AccountSnapshot = {
+      characters: [],
+      scenes: [scene("rs", "Cafe", [cast("rk1", "rs", "Host", "Pitch"), cast("rk4", "rs", "Chef")])],
+    };
+
+    const entries = diffSnapshots(left, right);
+
+    assert.deepEqual(
+      entries.map(({ key, status, fields }) => ({ key, status, fields })),
+      [
+        { key: "cast:cafe/host", status: "changed", fields: ["goal"] },
+        { key: "cast:cafe/waiter", status: "added", fields: [] },
+        { key: "cast:cafe/chef", status: "removed", fields: [] },
+        { key: "scene:park", status: "added", fields: [] },
+      ],
+    );
+    const host = entries[0];
+    assert.ok(host.kind === "cast");
+    assert.deepEqual(host.sceneIds, { left: "ls", right: "rs" });
+  });
+
+  it("lists a changed scene along with its cast differences", () => {
+    const left: AccountSnapshot = { characters: [], scenes: [scene("ls", "Cafe", [], "Busy")] };
+    const right: AccountSnapshot = { characters: [], scenes: [scene("rs", "Cafe", [], "Quiet")] };
+
+    const [entry] = diffSnapshots(left, right);
+
+    assert.equal(entry.status, "changed");
+    assert.deepEqual(entry.fields, ["description"]);
+  });
+
+  it("pairs repeated names one to one and leaves the extras unpaired", () => {
+    const left: AccountSnapshot = { characters: [character("l1", "Ava"), character("l2", "Ava")], scenes: [] };
+    const right: AccountSnapshot = { characters: [character("r1", "Ava")], scenes: [] };
+
+    const entries = diffSnapshots(left, right);
+
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].status, "added");
+    assert.equal(entries[0].left?.character_id, "l2");
+  });
+});
+
+describe("describeAction", () => {
+  const [changed] = diffSnapshots(
+    { characters: [character("l1", "Ava", "Host")], scenes: [] },
+    { characters: [character("r1", "Ava", "Guest")], scenes: [] },
+  );
+  const [added] = diffSnapshots({ characters: [character("l1", "Ben")], scenes: [] }, { characters: [], scenes: [] });
+
+  it("describes what a push does to the other side", () => {
+    assert.equal(describeAction({ entry: changed, from: "left" }), "Update on right");
+    assert.equal(describeAction({ entry: added, from: "left" }), "Create on right");
+    assert.equal(describeAction({ entry: added, from: "right" }), "Delete from left");
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Account Sync
+ *
+ * Compares the characters, scenes and cast of two sides - two LWAI accounts,
+ * or one account in two environments (e.g. beta and api2) - and pushes
+ * selected differences from one side to the other.
+ *
+ * Items are matched by name (characters, scenes) or by role within a matched
+ * scene (cast), ignoring case and surrounding whitespace, since ids differ
+ * between accounts. Each difference is one of:
+ * - added: only on the left side
+ * - removed: only on the right side
+ * - changed: on both sides with different content
+ *
+ * Pushing a difference makes the receiving side match the sending side: the
+ * item is created, updated, or (when the sending side does not have it)
+ * deleted. Deletes are soft deletes, so they can be undone from the Trash.
+ * Soft-deleted items are ignored when comparing.
+ */
+
+import type { LunchWithAPIClient } from "@/lib/lunchWithApi";
+import { createAccountBackup, type BackupScene, type BackupProgress } from "@/lib/accountBackup";
+import type { Character, Cast } from "@shared/api-types";
+
+/**
+ * One side of a comparison: an account in an environment
+ */
+export interface SyncSide {
+  userId: string;
+  environment: string;
+}
+
+export type SyncSideName = "left" | "right";
+
+export interface AccountSnapshot {
+  characters: Character[];
+  scenes: BackupScene[];
+}
+
+/**
+ * Client bound to a side, independent of the selected account and environment
+ */
+export function clientForSide(client: LunchWithAPIClient, side: SyncSide): LunchWithAPIClient {
+  return client.withTarget({ userId: side.userId, environment: side.environment });
+}
+
+/**
+ * Reads the non-deleted characters, scenes and cast of a side
+ * @param client - Client whose sign-in is used (e.g. apiClient)
+ */
+export async function loadSnapshot(
+  client: LunchWithAPIClient,
+  side: SyncSide,
+  onProgress: (progress: BackupProgress) => void
+): Promise<AccountSnapshot> {
+  const backup = await createAccountBackup(clientForSide(client, side), side, onProgress);
+  return {
+    characters: backup.characters.filter((character) => !character.deleted),
+    scenes: backup.scenes
+      .filter((scene) => !scene.deleted)
+      .map((scene) => ({ ...scene, cast: scene.cast.filter((member) => !member.deleted) })),
+  };
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+export type DiffStatus = "added" | "changed" | "removed";
+
+interface DiffBase {
+  // Stable key, e.g. "scene:lunch at the cafe" or "cast:lunch at the cafe/waiter"
+  key: string;
+  status: DiffStatus;
+  name: string;
+  // Fields whose values differ (changed entries only)
+  fields: string[];
+}
+
+export type DiffEntry = DiffBase &
+  (
+    | { kind: "character"; left?: Character; right?: Character }
+    | { kind: "scene"; left?: BackupScene; right?: BackupScene }
+    | {
+        kind: "cast";
+        left?: Cast;
+        right?: Cast;
+        // The scene the cast member belongs to, which exists on both sides
+        sceneName: string;
+        sceneIds: Record<SyncSideName, string>;
+      }
+  );
+
+const CHARACTER_FIELDS = ["name", "description", "motivation"] as const;
+const SCENE_FIELDS = ["name", "description"] as const;
+const CAST_FIELDS = ["role", "goal", "start"] as const;
+
+const matchKey = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Pairs items with the same key; extra items with a repeated key are left unpaired
+ */
+function pairByKey<T>(left: T[], right: T[], keyOf: (item: T) => string) {
+  const rightByKey = new Map<string, T[]>();
+  for (const item of right) {
+    const key = keyOf(item);
+    rightByKey.set(key, [...(rightByKey.get(key) ?? []), item]);
+  }
+
+  const pairs: Array<{ key: string; left?: T; right?: T }> = [];
+  for (const item of left) {
+    const key = keyOf(item);
+    const match = rightByKey.get(key)?.shift();
+    pairs.push({ key, left: item, right: match });
+  }
+  rightByKey.forEach((items, key) => items.forEach((item) => pairs.push({ key, right: item })));
+
+  return pairs;
+}
+
+function changedFields<T>(left: T, right: T, fields: readonly (keyof T & string)[]): string[] {
+  return fields.filter((field) => left[field] !== right[field]);
+}
+
+function statusOf(left: unknown, right: unknown): DiffStatus {
+  if (!right) return "added";
+  if (!left) return "removed";
+  return "changed";
+}
+
+/**
+ * Lists the differences between two snapshots
+ * Unchanged items are left out. Cast is compared only within scenes present
+ * on both sides; an added or removed scene carries its whole cast.
+ */
+export function diffSnapshots(left: AccountSnapshot, right: AccountSnapshot): DiffEntry[] {
+  const entries: DiffEntry[] = [];
+
+  for (const pair of pairByKey(left.characters, right.characters, (character) => matchKey(character.name))) {
+    const fields = pair.left && pair.right ? changedFields(pair.left, pair.right, CHARACTER_FIELDS) : [];
+    if (pair.left && pair.right && fields.length === 0) continue;
+    entries.push({
+      kind: "character",
+      key: `character:${pair.key}`,
+      status: statusOf(pair.left, pair.right),
+      name: (pair.left ?? pair.right)!.name,
+      fields,
+      left: pair.left,
+      right: pair.right,
+    });
+  }
+
+  for (const pair of pairByKey(left.scenes, right.scenes, (scene) => matchKey(scene.name))) {
+    const name = (pair.left ?? pair.right)!.name;
+    const fields = pair.left && pair.right ? changedFields(pair.left, pair.right, SCENE_FIELDS) : [];
+    if (!pair.left || !pair.right || fields.length > 0) {
+      entries.push({
+        kind: "scene",
+        key: `scene:${pair.key}`,
+        status: statusOf(pair.left, pair.right),
+        name,
+        fields,
+        left: pair.left,
+        right: pair.right,
+      });
+    }
+    if (!pair.left || !pair.right) continue;
+
+    const sceneIds = { left: pair.left.scene_id, right: pair.right.scene_id };
+    for (const castPair of pairByKey(pair.left.cast, pair.right.cast, (member) => matchKey(member.role))) {
+      const castFields = castPair.left && castPair.right ? changedFields(castPair.left, castPair.right, CAST_FIELDS) : [];
+      if (castPair.left && castPair.right && castFields.length === 0) continue;
+      entries.push({
+        kind: "cast",
+        key: `cast:${pair.key}/${castPair.key}`,
+        status: statusOf(castPair.left, castPair.right),
+        name: (castPair.left ?? castPair.right)!.role,
+        fields: castFields,
+        left: castPair.left,
+        right: castPair.right,
+        sceneName: name,
+        sceneIds,
+      });
+    }
+  }
+
+  return entries;
+}
+
+// ============================================================================
+// PUSH
+// ============================================================================
+
+export interface SyncAction {
+  entry: DiffEntry;
+  // Side whose version is pushed to the other side
+  from: SyncSideName;
+}
+
+export interface SyncActionResult {
+  action: SyncAction;
+  // Undefined when the push succeeded
+  error?: unknown;
+}
+
+export interface SyncProgress {
+  completed: number;
+  total: number;
+  step: string;
+}
+
+const otherSide = (side: SyncSideName): SyncSideName => (side === "left" ? "right" : "left");
+
+/**
+ * Describes what pushing an entry from a side does, e.g. "Create on right"
+ */
+export function describeAction({ entry, from }: SyncAction): string {
+  const to = otherSide(from);
+  if (!entry[from]) return `Delete from ${to}`;
+  if (!entry[to]) return `Create on ${to}`;
+  return `Update on ${to}`;
+}
+
+/**
+ * Makes the receiving side match the sending side for one entry
+ */
+async function applyAction({ entry, from }: SyncAction, clients: Record<SyncSideName, LunchWithAPIClient>) {
+  const to = otherSide(from);
+  const client = clients[to];
+
+  switch (entry.kind) {
+    case "character": {
+      const source = entry[from];
+      const target = entry[to];
+      if (!source) {
+        await client.deleteCharacter(target!.character_id);
+      } else {
+        const { character_id, deleted, ...content } = source;
+        await (target ? client.updateCharacter(target.character_id, content) : client.createCharacter(content));
+      }
+      return;
+    }
+    case "scene": {
+      const source = entry[from];
+      const target = entry[to];
+      if (!source) {
+        await client.deleteScene(target!.scene_id);
+      } else if (target) {
+        const { scene_id, deleted, cast, ...content } = source;
+        await client.updateScene(target.scene_id, content);
+      } else {
+        // A scene that only exists on one side is pushed with its cast
+        const { scene_id, deleted, cast, ...content } = source;
+        const created = await client.createScene(content);
+        for (const { cast_id, deleted: castDeleted, ...castContent } of cast) {
+          await client.createCast(created.scene_id, { ...castContent, scene_id: created.scene_id });
+        }
+      }
+      return;
+    }
+    case "cast": {
+      const source = entry[from];
+      const target = entry[to];
+      const sceneId = entry.sceneIds[to];
+      if (!source) {
+        await client.deleteCast(sceneId, target!.cast_id);
+      } else {
+        const { cast_id, deleted, ...content } = source;
+        await (target
+          ? client.updateCast(sceneId, target.cast_id, { ...content, scene_id: sceneId })
+          : client.createCast(sceneId, { ...content, scene_id: sceneId }));
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Applies the selected pushes one by one
+ * Failures do not stop the sync; every action gets a result.
+ * @param client - Client whose sign-in is used (e.g. apiClient)
+ */
+export async function applySyncActions(
+  client: LunchWithAPIClient,
+  actions: SyncAction[],
+  sides: Record<SyncSideName, SyncSide>,
+  onProgress: (progress: SyncProgress) => void
+): Promise<SyncActionResult[]> {
+  const clients = { left: clientForSide(client, sides.left), right: clientForSide(client, sides.right) };
+  const results: SyncActionResult[] = [];
+
+  for (let index = 0; index < actions.length; index++) {
+    const action = actions[index];
+    onProgress({ completed: index, total: actions.length, step: `${describeAction(action)}: "${action.entry.name}"` });
+    try {
+      await applyAction(action, clients);
+      results.push({ action });
+    } catch (error) {
+      results.push({ action, error });
+    }
+  }
+  onProgress({ completed: actions.length, total: actions.length, step: "Done" });
+
+  return results;
+}
@@ -0,0 +1,114 @@
+/**
+ * LunchWith.ai Response Contracts
+ *
+ * Every client method declares the shape it expects back from the API:
+ * - single:   one resource, taken from the "results" wrapper
+ * - optional: one resource, or null when "results" is empty
+ * - list:     an array of resources
+ * - message:  a { title, detail } confirmation
+ * - empty:    the body is ignored (e.g. DELETE)
+ *
+ * The payload is validated against the contract's zod schema, so a response
+ * that does not match is reported as an error instead of reaching the UI.
+ */
+
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { apiMessageSchema } from "@shared/api-schemas";
+import type { ApiMessage } from "@shared/api-types";
+
+type ContractKind = "single" | "optional" | "list" | "message" | "empty";
+
+/**
+ * Expected response shape for a client method
+ * T is the value the method resolves with; the schema validates one item
+ */
+export interface ResponseContract<T> {
+  kind: ContractKind;
+  schema?: z.ZodTypeAny;
+  // Type-only marker so contracts carry their result type
+  readonly __result?: T;
+}
+
+export const single = <T>(schema: z.ZodType<T>): ResponseContract<T> => ({ kind: "single", schema });
+
+export const optional = <T>(schema: z.ZodType<T>): ResponseContract<T | null> => ({ kind: "optional", schema });
+
+export const list = <T>(schema: z.ZodType<T>): ResponseContract<T[]> => ({ kind: "list", schema });
+
+export const message: ResponseContract<ApiMessage> = { kind: "message", schema: apiMessageSchema };
+
+export const empty: ResponseContract<void> = { kind: "empty" };
+
+/**
+ * Thrown when a response body does not satisfy its contract
+ */
+export class ContractViolation extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ContractViolation";
+  }
+}
+
+/**
+ * Removes the "results" wrapper if present
+ * Message responses and some legacy endpoints are not wrapped
+ */
+function unwrapResults(data: unknown): unknown {
+  if (data && typeof data === "object" && !Array.isArray(data) && "results" in data) {
+    return (data as { results: unknown }).results;
+  }
+  return data;
+}
+
+function validate(schema: z.ZodTypeAny | undefined, value: unknown): unknown {
+  if (!schema) return value;
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ContractViolation(fromZodError(result.error).message);
+  }
+  return result.data;
+}
+
+/**
+ * Applies a response contract to a parsed (or absent) response body
+ * @param contract - Expected response shape
+ * @param data - Parsed JSON body, or undefined if the body was empty
+ * @returns The validated value
+ * @throws ContractViolation if the body does not match the contract
+ */
+export function applyContract<T>(contract: ResponseContract<T>, data: unknown): T {
+  if (contract.kind === "empty") {
+    return undefined as T;
+  }
+
+  if (data === undefined) {
+    if (contract.kind === "optional") return null as T;
+    if (contract.kind === "list") return [] as T;
+    throw new ContractViolation("Expected a response body but the response was empty");
+  }
+
+  const payload = unwrapResults(data);
+
+  switch (contract.kind) {
+    case "list": {
+      if (!Array.isArray(payload)) {
+        throw new ContractViolation("Expected a list of results");
+      }
+      return payload.map((item) => validate(contract.schema, item)) as T;
+    }
+    case "optional": {
+      const item = Array.isArray(payload) ? payload[0] : payload;
+      if (item === undefined || item === null) return null as T;
+      return validate(contract.schema, item) as T;
+    }
+    case "single":
+    case "message": {
+      const item = Array.isArray(payload) ? payload[0] : payload;
+      if (item === undefined) {
+        throw new ContractViolation("Expected a single result but results was empty");
+      }
+      return validate(contract.schema, item) as T;
+    }
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * LunchWith.ai API Error Model
+ *
+ * The API returns errors as JSON with "title" and "detail" fields, and our
+ * proxy returns { error, message } when it cannot reach the API. This module
+ * turns those responses into a typed error carrying both a human-readable
+ * message (error.message) and the technical context needed for debugging.
+ */
+
+// Response headers that carry the upstream request ID (forwarded by our proxy)
+const REQUEST_ID_HEADERS = ["apigw-requestid", "x-amzn-requestid", "x-request-id"];
+
+// Fallback messages when the response body does not explain the failure
+const STATUS_MESSAGES: Record<number, string> = {
+  0: "Could not reach the server. Check your connection and try again.",
+  400: "The request was not accepted. Please check your input.",
+  401: "Your session has expired. Please sign in again.",
+  403: "You do not have access to this account or resource.",
+  404: "The requested item could not be found.",
+  409: "The item was changed by someone else. Reload and try again.",
+  429: "Too many requests. Please wait a moment and try again.",
+  500: "The server encountered an error. Please try again.",
+  502: "The LunchWith.ai API is unavailable. Please try again.",
+  503: "The LunchWith.ai API is unavailable. Please try again.",
+};
+
+interface LunchWithApiErrorInit {
+  status: number;
+  title: string;
+  detail: string;
+  endpoint: string;
+  method: string;
+  requestId?: string;
+  body?: string;
+}
+
+export class LunchWithApiError extends Error {
+  readonly status: number;
+  readonly title: string;
+  readonly detail: string;
+  readonly endpoint: string;
+  readonly method: string;
+  readonly requestId?: string;
+  readonly body?: string;
+
+  constructor(init: LunchWithApiErrorInit) {
+    super(init.detail || STATUS_MESSAGES[init.status] || init.title || "Request failed");
+    this.name = "LunchWithApiError";
+    this.status = init.status;
+    this.title = init.title;
+    this.detail = init.detail;
+    this.endpoint = init.endpoint;
+    this.method = init.method;
+    this.requestId = init.requestId;
+    this.body = init.body;
+  }
+
+  /**
+   * Multi-line technical summary for the expandable details section
+   */
+  get technicalDetails(): string {
+    const lines = [
+      `${this.method} ${this.endpoint}`,
+      `Status: ${this.status}${this.title ? ` ${this.title}` : ""}`,
+    ];
+    if (this.requestId) lines.push(`Request ID: ${this.requestId}`);
+    if (this.body) lines.push(`Response: ${this.body}`);
+    return lines.join("\n");
+  }
+}
+
+/**
+ * Extracts a detail string from the API's detail field, which may be a
+ * string or an object like { message: "..." }
+ */
+function detailToString(detail: unknown): string {
+  if (typeof detail === "string") return detail;
+  if (detail && typeof detail === "object" && "message" in detail) {
+    return String((detail as { message: unknown }).message);
+  }
+  return detail ? JSON.stringify(detail) : "";
+}
+
+/**
+ * Returns the upstream request ID from response headers, if any
+ */
+export function getRequestId(headers: Headers): string | undefined {
+  return REQUEST_ID_HEADERS
+    .map((header) => headers.get(header))
+    .find((value): value is string => !!value);
+}
+
+/**
+ * Builds a LunchWithApiError from a failed fetch Response
+ * @param response - Non-OK response
+ * @param endpoint - API endpoint path that was requested
+ * @param method - HTTP method used
+ */
+export async function parseApiError(
+  response: Response,
+  endpoint: string,
+  method: string
+): Promise<LunchWithApiError> {
+  const body = await response.text();
+  let title = "";
+  let detail = "";
+
+  try {
+    const data = JSON.parse(body);
+    if (data && typeof data === "object") {
+      title = typeof data.title === "string" ? data.title : "";
+      detail = detailToString(data.detail ?? data.message ?? data.error);
+    }
+  } catch {
+    // Not JSON - fall back to the status message below
+  }
+
+  return new LunchWithApiError({
+    status: response.status,
+    title: title || response.statusText,
+    detail: detail || STATUS_MESSAGES[response.status] || "",
+    endpoint,
+    method,
+    requestId: getRequestId(response.headers),
+    body: body || undefined,
+  });
+}
+
+/**
+ * Returns a human-readable message for any thrown value
+ */
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return "Unknown error occurred";
+}
+
+/**
+ * Returns technical details for an error, or null if there are none
+ */
+export function getErrorTechnicalDetails(error: unknown): string | null {
+  if (error instanceof LunchWithApiError) return error.technicalDetails;
+  return null;
+}
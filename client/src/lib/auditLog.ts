@@ -0,0 +1,42 @@
+/**
+ * Audit Log Client
+ *
+ * The proxy records every mutating call (POST, PUT, PATCH, DELETE) with the
+ * caller, account, endpoint, status, latency and redacted request body. This
+ * module reads those entries from /api/audit.
+ */
+
+import type { AuditLogEntry, AuditLogFilters } from "@shared/api-types";
+import { localApiRequest } from "./localApi";
+
+const AUDIT_URL = "/api/audit";
+
+/**
+ * Fetches audit entries matching the filters, across environments
+ * Callers who are not admins only see their own accounts.
+ * @returns Entries, newest first
+ */
+export async function fetchAuditLog(filters: AuditLogFilters): Promise<AuditLogEntry[]> {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(filters)) {
+    if (value) params.set(name, value);
+  }
+  const query = params.toString();
+  return localApiRequest(query ? `${AUDIT_URL}?${query}` : AUDIT_URL);
+}
+
+/**
+ * Start and end (exclusive) of a range of local calendar days, as ISO timestamps
+ * @param from - First day, "YYYY-MM-DD"; empty for no start
+ * @param to - Last day, "YYYY-MM-DD"; empty for no end
+ */
+export function dayRange(from: string, to: string): Pick<AuditLogFilters, "since" | "until"> {
+  const startOfDay = (day: string, offset = 0) => {
+    const [year, month, date] = day.split("-").map(Number);
+    return new Date(year, month - 1, date + offset).toISOString();
+  };
+  return {
+    since: from ? startOfDay(from) : undefined,
+    until: to ? startOfDay(to, 1) : undefined,
+  };
+}
@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  guessColumnMapping,
+  hasHeaderRow,
+  importCharacters,
+  planCharacterImport,
+  type ColumnMapping,
+} from "./characterImport";
+import { parseDelimited } from "./delimitedText";
+import type { LunchWithAPIClient } from "./lunchWithApi";
+import type { Character, InsertCharacter } from "@shared/api-types";
+
+const character = (id: string, name: string, deleted?: boolean): Character => ({
+  character_id: id,
+  name,
+  description: "",
+  motivation: "",
+  ...(deleted !== undefined && { deleted }),
+});
+
+const allColumns: ColumnMapping = { name: 0, description: 1, motivation: 2 };
+
+describe("column mapping", () => {
+  it("recognises header rows by their column names", () => {
+    assert.equal(hasHeaderRow(["Full_Name", "Bio"]), true);
+    assert.equal(hasHeaderRow(["Ava", "Chef"]), false);
+  });
+
+  it("maps columns by header name, or in field order without headers", () => {
+    assert.deepEqual(guessColumnMapping(["Goal", "Character", "Notes"], true), {
+      name: 1,
+      description: null,
+      motivation: 0,
+    });
+    assert.deepEqual(guessColumnMapping(["Ava", "Chef"], false), { name: 0, description: 1, motivation: null });
+  });
+});
+
+describe("planCharacterImport", () => {
+  it("marks rows without a name as invalid", () => {
+    const rows = parseDelimited("name,description\n ,Chef\nAva,Chef", ",");
+
+    const plan = planCharacterImport(rows, allColumns, true, []);
+
+    assert.deepEqual(
+      plan.map(({ line, status, reason }) => ({ line, status, reason })),
+      [
+        { line: 2, status: "invalid", reason: "Name is required" },
+        { line: 3, status: "ready", reason: undefined },
+      ],
+    );
+    assert.deepEqual(plan[1].character, { name: "Ava", description: "Chef", motivation: "" });
+  });
+
+  it("flags names of existing characters, ignoring case, spaces and deleted characters", () => {
+    const rows = parseDelimited("name\n  AVA \nBen", ",");
+
+    const plan = planCharacterImport(rows, allColumns, true, [character("c1", "Ava"), character("c2", "Ben", true)]);
+
+    assert.deepEqual(
+      plan.map(({ status, reason }) => ({ status, reason })),
+      [
+        { status: "duplicate", reason: "A character with this name already exists" },
+        { status: "ready", reason: undefined },
+      ],
+    );
+  });
+
+  it("flags repeated names within the import by the line of the first one", () => {
+    const rows = parseDelimited('name,description\nAva,"Two\nlines"\n\nBen\nava', ",");
+
+    const plan = planCharacterImport(rows, allColumns, true, []);
+
+    assert.deepEqual(
+      plan.map(({ line, status, reason }) => ({ line, status, reason })),
+      [
+        { line: 2, status: "ready", reason: undefined },
+        { line: 5, status: "ready", reason: undefined },
+        { line: 6, status: "duplicate", reason: "Same name as line 2" },
+      ],
+    );
+  });
+
+  it("treats the first row as data without a header row", () => {
+    const plan = planCharacterImport(parseDelimited("Ava\tChef", "\t"), allColumns, false, []);
+
+    assert.deepEqual(plan.map(({ line, character }) => [line, character.name]), [[1, "Ava"]]);
+  });
+});
+
+describe("importCharacters", () => {
+  it("creates every row and records failures without stopping", async () => {
+    const created: string[] = [];
+    const client = {
+      async createCharacter(content: InsertCharacter): Promise<Character> {
+        if (content.name === "Ben") throw new Error("createCharacter failed");
+        created.push(content.name);
+        return { ...content, character_id: `new-${content.name}` };
+      },
+    } as unknown as LunchWithAPIClient;
+    const plan = planCharacterImport(parseDelimited("Ava\nBen\nCy", ","), allColumns, false, []);
+
+    const results = await importCharacters(client, plan, () => {});
+
+    assert.deepEqual(created, ["Ava", "Cy"]);
+    assert.deepEqual(
+      results.map((result) => [result.row.line, result.status]),
+      [
+        [1, "created"],
+        [2, "failed"],
+        [3, "created"],
+      ],
+    );
+  });
+});
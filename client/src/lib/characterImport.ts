@@ -0,0 +1,158 @@
+/**
+ * Character Import
+ *
+ * Turns spreadsheet rows (see lib/delimitedText) into characters: columns are
+ * mapped to character fields, each row is validated and checked for
+ * duplicates, and the valid rows are created one by one with the outcome
+ * recorded per row.
+ */
+
+import type { DelimitedRow } from "@/lib/delimitedText";
+import type { LunchWithAPIClient } from "@/lib/lunchWithApi";
+import type { Character, InsertCharacter } from "@shared/api-types";
+
+export type CharacterField = "name" | "description" | "motivation";
+
+export const CHARACTER_FIELDS: CharacterField[] = ["name", "description", "motivation"];
+
+// Field -> column index, or null when the field is not imported
+export type ColumnMapping = Record<CharacterField, number | null>;
+
+// Header names recognised when mapping columns automatically
+const HEADER_ALIASES: Record<CharacterField, string[]> = {
+  name: ["name", "character", "character name", "full name"],
+  description: ["description", "desc", "bio", "biography", "background"],
+  motivation: ["motivation", "motive", "motivations", "goal", "goals"],
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_-]+/g, " ");
+
+/**
+ * Whether the first row looks like column headers rather than data
+ */
+export function hasHeaderRow(firstRow: string[]): boolean {
+  return firstRow.some((header) =>
+    CHARACTER_FIELDS.some((field) => HEADER_ALIASES[field].includes(normalizeHeader(header)))
+  );
+}
+
+/**
+ * Maps columns by header name; without headers the columns are taken in
+ * name, description, motivation order
+ */
+export function guessColumnMapping(firstRow: string[], headerRow: boolean): ColumnMapping {
+  if (!headerRow) {
+    return {
+      name: firstRow.length > 0 ? 0 : null,
+      description: firstRow.length > 1 ? 1 : null,
+      motivation: firstRow.length > 2 ? 2 : null,
+    };
+  }
+
+  const mapping: ColumnMapping = { name: null, description: null, motivation: null };
+  for (const field of CHARACTER_FIELDS) {
+    const index = firstRow.findIndex((header) => HEADER_ALIASES[field].includes(normalizeHeader(header)));
+    mapping[field] = index === -1 ? null : index;
+  }
+  return mapping;
+}
+
+// ============================================================================
+// DRY RUN
+// ============================================================================
+
+export type ImportRowStatus = "ready" | "invalid" | "duplicate";
+
+export interface ImportRow {
+  // Line of the source the row starts on (see DelimitedRow)
+  line: number;
+  character: InsertCharacter;
+  status: ImportRowStatus;
+  // Why the row is invalid or a duplicate
+  reason?: string;
+}
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Validates each data row and flags duplicates, both against existing
+ * characters and against earlier rows of the same import
+ * @param rows - Parsed rows, including the header row if there is one
+ * @param existing - Characters already in the account (deleted ones are ignored)
+ */
+export function planCharacterImport(
+  rows: DelimitedRow[],
+  mapping: ColumnMapping,
+  headerRow: boolean,
+  existing: Character[]
+): ImportRow[] {
+  const existingNames = new Set(existing.filter((character) => !character.deleted).map((c) => nameKey(c.name)));
+  const seenRows = new Map<string, number>();
+
+  return rows.slice(headerRow ? 1 : 0).map(({ line, fields }) => {
+    const value = (field: CharacterField) => {
+      const column = mapping[field];
+      return column === null ? "" : (fields[column] ?? "").trim();
+    };
+    const character: InsertCharacter = {
+      name: value("name"),
+      description: value("description"),
+      motivation: value("motivation"),
+    };
+
+    if (!character.name) {
+      return { line, character, status: "invalid", reason: "Name is required" };
+    }
+
+    const key = nameKey(character.name);
+    if (existingNames.has(key)) {
+      return { line, character, status: "duplicate", reason: "A character with this name already exists" };
+    }
+    const earlierRow = seenRows.get(key);
+    if (earlierRow !== undefined) {
+      return { line, character, status: "duplicate", reason: `Same name as line ${earlierRow}` };
+    }
+    seenRows.set(key, line);
+
+    return { line, character, status: "ready" };
+  });
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+export interface ImportProgress {
+  completed: number;
+  total: number;
+  step: string;
+}
+
+export type ImportRowResult =
+  | { row: ImportRow; status: "created"; created: Character }
+  | { row: ImportRow; status: "failed"; error: unknown };
+
+/**
+ * Creates a character for each row, in order
+ * Failures do not stop the import; every row gets a result.
+ */
+export async function importCharacters(
+  client: LunchWithAPIClient,
+  rows: ImportRow[],
+  onProgress: (progress: ImportProgress) => void
+): Promise<ImportRowResult[]> {
+  const results: ImportRowResult[] = [];
+
+  for (let index = 0; index < rows.length; index++) {
+    const row = rows[index];
+    onProgress({ completed: index, total: rows.length, step: `Creating character "${row.character.name}"` });
+    try {
+      results.push({ row, status: "created", created: await client.createCharacter(row.character) });
+    } catch (error) {
+      results.push({ row, status: "failed", error });
+    }
+  }
+  onProgress({ completed: rows.length, total: rows.length, step: "Done" });
+
+  return results;
+}
@@ -3,6 +3,10 @@
  * 
  * Manages authentication using AWS Cognito User Pools
  * Handles sign-in, token management, and session persistence
+ *
+ * Setting VITE_AUTH_MODE=stub bypasses Cognito: any username and password
+ * sign in with the mock API's accounts (see shared/mock-accounts.ts). Use it
+ * together with LUNCHWITH_API_MOCK=true on the server for offline development.
  */
 
 import {
@@ -10,7 +14,9 @@ import {
   CognitoUser,
   AuthenticationDetails,
   CognitoUserSession,
+  type IAuthenticationCallback,
 } from 'amazon-cognito-identity-js';
+import { MOCK_ACCOUNTS } from '@shared/mock-accounts';
 
 // LocalStorage keys for persisting auth data
 const STORAGE_KEYS = {
@@ -32,11 +38,85 @@ export interface AuthUser {
   availableUserIds: string[]; // All available LWAI user IDs from Cognito
 }
 
+/**
+ * Challenge Cognito requires before a sign-in can complete
+ * - NEW_PASSWORD_REQUIRED: temporary password must be replaced
+ * - SMS_MFA: code sent by SMS to `destination`
+ * - SOFTWARE_TOKEN_MFA: code from an authenticator app (TOTP)
+ */
+export type AuthChallenge =
+  | { type: 'NEW_PASSWORD_REQUIRED'; requiredAttributes: string[] }
+  | { type: 'SMS_MFA'; destination?: string }
+  | { type: 'SOFTWARE_TOKEN_MFA' };
+
+export type SignInResult =
+  | { status: 'signedIn'; tokens: AuthTokens; user: AuthUser }
+  | { status: 'challenge'; challenge: AuthChallenge };
+
+// Refresh tokens this long before the access token expires
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * User-facing messages for Cognito error codes (err.code / err.name)
+ */
+const COGNITO_ERROR_MESSAGES: Record<string, string> = {
+  CodeMismatchException: 'The verification code is incorrect. Check the code and try again.',
+  ExpiredCodeException: 'The verification code has expired. Request a new code.',
+  LimitExceededException: 'Too many attempts. Please wait a while before trying again.',
+  TooManyRequestsException: 'Too many requests. Please wait a moment and try again.',
+  TooManyFailedAttemptsException: 'Too many failed attempts. Please wait a while before trying again.',
+  UserNotFoundException: 'No account was found with that username.',
+  NotAuthorizedException: 'Incorrect username or password.',
+  UserNotConfirmedException: 'This account has not been confirmed yet. Enter the confirmation code sent to you.',
+  InvalidPasswordException: 'The new password does not meet the password requirements.',
+  InvalidParameterException: 'Some of the details entered are not valid.',
+  CodeDeliveryFailureException: 'The verification code could not be sent. Please try again.',
+  PasswordResetRequiredException: 'A password reset is required. Use "Forgot password" to set a new password.',
+};
+
+/**
+ * Returns the Cognito error code of a failed call, if any
+ */
+export function getCognitoErrorCode(error: unknown): string | undefined {
+  if (error && typeof error === 'object') {
+    const { code, name } = error as { code?: unknown; name?: unknown };
+    if (typeof code === 'string') return code;
+    if (typeof name === 'string' && name !== 'Error') return name;
+  }
+  return undefined;
+}
+
+/**
+ * Maps a Cognito error to a message suitable for the login dialog
+ * @param fallback - Message used when the error carries no message of its own
+ */
+export function getCognitoErrorMessage(error: unknown, fallback: string): string {
+  const code = getCognitoErrorCode(error);
+  // NotAuthorizedException also covers disabled users and expired sessions; keep those messages
+  if (code === 'NotAuthorizedException' && error instanceof Error && !/incorrect username or password/i.test(error.message)) {
+    return error.message;
+  }
+  if (code && COGNITO_ERROR_MESSAGES[code]) {
+    return COGNITO_ERROR_MESSAGES[code];
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+// Stub auth mode signs in without Cognito (offline development against the mock API)
+const STUB_AUTH = import.meta.env.VITE_AUTH_MODE === 'stub';
+
 class CognitoAuthService {
   private userPool: CognitoUserPool | null = null;
   private currentUser: CognitoUser | null = null;
+  // User part-way through a sign-in challenge
+  private pendingUser: { cognitoUser: CognitoUser; username: string; challenge: AuthChallenge } | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
+    if (STUB_AUTH) {
+      return;
+    }
+
     // Initialize from environment variables
     const userPoolId = import.meta.env.VITE_COGNITO_USER_POOL_ID;
     const clientId = import.meta.env.VITE_COGNITO_CLIENT_ID;
@@ -104,15 +184,136 @@ class CognitoAuthService {
    * Check if user pool is configured
    */
   isConfigured(): boolean {
-    return this.userPool !== null;
+    return STUB_AUTH || this.userPool !== null;
+  }
+
+  /**
+   * Whether sign-in is stubbed (VITE_AUTH_MODE=stub)
+   */
+  isStubMode(): boolean {
+    return STUB_AUTH;
+  }
+
+  /**
+   * Builds a stub session for the mock API from localStorage
+   * The access token carries the username so the mock can report an identity
+   */
+  private getStubSession(username: string): { tokens: AuthTokens; user: AuthUser } {
+    const availableUserIds = MOCK_ACCOUNTS.map((account) => account.user_id);
+    const storedIndex = parseInt(localStorage.getItem(STORAGE_KEYS.SELECTED_USER_ID_INDEX) || '0', 10);
+    const selectedIndex = isNaN(storedIndex) ? 0 : storedIndex;
+    const safeIndex = Math.min(Math.max(0, selectedIndex), availableUserIds.length - 1);
+    const userId = availableUserIds[safeIndex];
+
+    localStorage.setItem(STORAGE_KEYS.USERNAME, username);
+    localStorage.setItem(STORAGE_KEYS.USER_ID, userId);
+    localStorage.setItem(STORAGE_KEYS.AVAILABLE_USER_IDS, JSON.stringify(availableUserIds));
+    localStorage.setItem(STORAGE_KEYS.SELECTED_USER_ID_INDEX, safeIndex.toString());
+
+    const token = `stub-${username}`;
+    return {
+      tokens: { accessToken: token, idToken: token, refreshToken: token },
+      user: { username, userId, availableUserIds },
+    };
+  }
+
+  /**
+   * Stores auth data for a completed sign-in and builds the session result
+   */
+  private completeSignIn(cognitoUser: CognitoUser, username: string, session: CognitoUserSession): SignInResult {
+    this.currentUser = cognitoUser;
+    this.pendingUser = null;
+
+    const tokens = this.tokensFrom(session);
+
+    // Extract all LWAI user IDs from ID token payload
+    const idTokenPayload = session.getIdToken().payload;
+    const availableUserIds = this.extractAllLwaiUserIds(idTokenPayload);
+    
+    // Get selected index from localStorage (default to 0, handle NaN/invalid)
+    const storedIndex = parseInt(localStorage.getItem(STORAGE_KEYS.SELECTED_USER_ID_INDEX) || '0', 10);
+    const selectedIndex = isNaN(storedIndex) ? 0 : storedIndex;
+    const safeIndex = Math.min(Math.max(0, selectedIndex), availableUserIds.length - 1);
+    const userId = availableUserIds[safeIndex];
+
+    const user: AuthUser = {
+      username,
+      userId,
+      availableUserIds,
+    };
+
+    // Store auth data for session persistence
+    localStorage.setItem(STORAGE_KEYS.USERNAME, username);
+    localStorage.setItem(STORAGE_KEYS.USER_ID, userId);
+    localStorage.setItem(STORAGE_KEYS.AVAILABLE_USER_IDS, JSON.stringify(availableUserIds));
+    localStorage.setItem(STORAGE_KEYS.SELECTED_USER_ID_INDEX, safeIndex.toString());
+
+    return { status: 'signedIn', tokens, user };
+  }
+
+  private tokensFrom(session: CognitoUserSession): AuthTokens {
+    return {
+      accessToken: session.getAccessToken().getJwtToken(),
+      idToken: session.getIdToken().getJwtToken(),
+      refreshToken: session.getRefreshToken().getToken(),
+    };
+  }
+
+  /**
+   * Callbacks shared by sign-in and challenge responses
+   * Success resolves with the session; challenges resolve with what is needed next
+   */
+  private authCallbacks(
+    cognitoUser: CognitoUser,
+    username: string,
+    resolve: (result: SignInResult) => void,
+    reject: (error: unknown) => void
+  ): IAuthenticationCallback {
+    const challenge = (next: AuthChallenge) => {
+      this.pendingUser = { cognitoUser, username, challenge: next };
+      resolve({ status: 'challenge', challenge: next });
+    };
+
+    return {
+      onSuccess: (session: CognitoUserSession) => {
+        resolve(this.completeSignIn(cognitoUser, username, session));
+      },
+      onFailure: (err) => {
+        reject(err);
+      },
+      newPasswordRequired: (_userAttributes, requiredAttributes) => {
+        challenge({ type: 'NEW_PASSWORD_REQUIRED', requiredAttributes: requiredAttributes ?? [] });
+      },
+      mfaRequired: (_challengeName, challengeParameters) => {
+        challenge({ type: 'SMS_MFA', destination: challengeParameters?.CODE_DELIVERY_DESTINATION });
+      },
+      totpRequired: () => {
+        challenge({ type: 'SOFTWARE_TOKEN_MFA' });
+      },
+      mfaSetup: () => {
+        reject(new Error('MFA setup is required for this account. Complete it in the hosted sign-in page first.'));
+      },
+      selectMFAType: () => {
+        // Prefer the authenticator app when both MFA types are enabled
+        cognitoUser.sendMFASelectionAnswer('SOFTWARE_TOKEN_MFA', {
+          onSuccess: (session) => resolve(this.completeSignIn(cognitoUser, username, session)),
+          onFailure: (err) => reject(err),
+          mfaRequired: (_challengeName, challengeParameters) =>
+            challenge({ type: 'SMS_MFA', destination: challengeParameters?.CODE_DELIVERY_DESTINATION }),
+          totpRequired: () => challenge({ type: 'SOFTWARE_TOKEN_MFA' }),
+        });
+      },
+    };
   }
 
   /**
    * Sign in with username and password
+   * Resolves with a challenge when Cognito needs a new password or an MFA code;
+   * answer it with completeNewPassword or submitMfaCode
    */
-  async signIn(username: string, password: string): Promise<{ tokens: AuthTokens; user: AuthUser }> {
-    if (!this.userPool) {
-      throw new Error('Cognito User Pool not configured');
+  async signIn(username: string, password: string): Promise<SignInResult> {
+    if (STUB_AUTH) {
+      return { status: 'signedIn', ...this.getStubSession(username) };
     }
 
     const authDetails = new AuthenticationDetails({
@@ -120,57 +321,174 @@ class CognitoAuthService {
       Password: password,
     });
 
-    const cognitoUser = new CognitoUser({
-      Username: username,
-      Pool: this.userPool,
+    const cognitoUser = this.getCognitoUser(username);
+
+    return new Promise((resolve, reject) => {
+      cognitoUser.authenticateUser(authDetails, this.authCallbacks(cognitoUser, username, resolve, reject));
     });
+  }
+
+  /**
+   * Answers a NEW_PASSWORD_REQUIRED challenge
+   * @param newPassword - Permanent password to replace the temporary one
+   * @param attributes - Values for any attributes the pool requires (e.g. name)
+   */
+  async completeNewPassword(newPassword: string, attributes: Record<string, string> = {}): Promise<SignInResult> {
+    const pending = this.pendingUser;
+    if (!pending || pending.challenge.type !== 'NEW_PASSWORD_REQUIRED') {
+      throw new Error('No new password challenge in progress. Please sign in again.');
+    }
+
+    return new Promise((resolve, reject) => {
+      pending.cognitoUser.completeNewPasswordChallenge(
+        newPassword,
+        attributes,
+        this.authCallbacks(pending.cognitoUser, pending.username, resolve, reject)
+      );
+    });
+  }
+
+  /**
+   * Answers an SMS_MFA or SOFTWARE_TOKEN_MFA challenge
+   * @param code - Code from the SMS message or authenticator app
+   */
+  async submitMfaCode(code: string): Promise<SignInResult> {
+    const pending = this.pendingUser;
+    if (!pending || pending.challenge.type === 'NEW_PASSWORD_REQUIRED') {
+      throw new Error('No MFA challenge in progress. Please sign in again.');
+    }
 
+    const { cognitoUser, username, challenge } = pending;
     return new Promise((resolve, reject) => {
-      cognitoUser.authenticateUser(authDetails, {
-        onSuccess: (session: CognitoUserSession) => {
-          this.currentUser = cognitoUser;
-          
-          const tokens: AuthTokens = {
-            accessToken: session.getAccessToken().getJwtToken(),
-            idToken: session.getIdToken().getJwtToken(),
-            refreshToken: session.getRefreshToken().getToken(),
-          };
-
-          // Extract all LWAI user IDs from ID token payload
-          const idTokenPayload = session.getIdToken().payload;
-          const availableUserIds = this.extractAllLwaiUserIds(idTokenPayload);
-          
-          // Get selected index from localStorage (default to 0, handle NaN/invalid)
-          const storedIndex = parseInt(localStorage.getItem(STORAGE_KEYS.SELECTED_USER_ID_INDEX) || '0', 10);
-          const selectedIndex = isNaN(storedIndex) ? 0 : storedIndex;
-          const safeIndex = Math.min(Math.max(0, selectedIndex), availableUserIds.length - 1);
-          const userId = availableUserIds[safeIndex];
-
-          const user: AuthUser = {
-            username,
-            userId,
-            availableUserIds,
-          };
-
-          // Store auth data for session persistence
-          localStorage.setItem(STORAGE_KEYS.USERNAME, username);
-          localStorage.setItem(STORAGE_KEYS.USER_ID, userId);
-          localStorage.setItem(STORAGE_KEYS.AVAILABLE_USER_IDS, JSON.stringify(availableUserIds));
-          localStorage.setItem(STORAGE_KEYS.SELECTED_USER_ID_INDEX, safeIndex.toString());
-
-          resolve({ tokens, user });
+      cognitoUser.sendMFACode(
+        code,
+        {
+          onSuccess: (session) => resolve(this.completeSignIn(cognitoUser, username, session)),
+          onFailure: (err) => reject(err),
         },
-        onFailure: (err) => {
+        challenge.type
+      );
+    });
+  }
+
+  /**
+   * Abandons a sign-in challenge (e.g. when the login dialog is closed)
+   */
+  cancelChallenge() {
+    this.pendingUser = null;
+  }
+
+  private getCognitoUser(username: string): CognitoUser {
+    if (!this.userPool) {
+      throw new Error('Cognito User Pool not configured');
+    }
+    return new CognitoUser({ Username: username, Pool: this.userPool });
+  }
+
+  /**
+   * Starts a password reset by sending a verification code
+   * @returns Where the code was sent (e.g. a masked email), if Cognito reports it
+   */
+  async forgotPassword(username: string): Promise<{ destination?: string }> {
+    if (STUB_AUTH) {
+      return {};
+    }
+
+    const cognitoUser = this.getCognitoUser(username);
+    return new Promise((resolve, reject) => {
+      cognitoUser.forgotPassword({
+        onSuccess: (data) => resolve({ destination: data?.CodeDeliveryDetails?.Destination }),
+        onFailure: (err) => reject(err),
+        inputVerificationCode: (data) => resolve({ destination: data?.CodeDeliveryDetails?.Destination }),
+      });
+    });
+  }
+
+  /**
+   * Completes a password reset with the emailed code and a new password
+   */
+  async confirmForgotPassword(username: string, code: string, newPassword: string): Promise<void> {
+    if (STUB_AUTH) {
+      return;
+    }
+
+    const cognitoUser = this.getCognitoUser(username);
+    return new Promise((resolve, reject) => {
+      cognitoUser.confirmPassword(code, newPassword, {
+        onSuccess: () => resolve(),
+        onFailure: (err) => reject(err),
+      });
+    });
+  }
+
+  /**
+   * Re-sends the sign-up confirmation code for an unconfirmed account
+   * @returns Where the code was sent, if Cognito reports it
+   */
+  async resendConfirmationCode(username: string): Promise<{ destination?: string }> {
+    if (STUB_AUTH) {
+      return {};
+    }
+
+    const cognitoUser = this.getCognitoUser(username);
+    return new Promise((resolve, reject) => {
+      cognitoUser.resendConfirmationCode((err, data) => {
+        if (err) {
           reject(err);
-        },
+          return;
+        }
+        resolve({ destination: data?.CodeDeliveryDetails?.Destination });
       });
     });
   }
 
   /**
-   * Get current authenticated user from session
+   * Confirms an unconfirmed account with its sign-up confirmation code
    */
-  async getCurrentSession(): Promise<{ tokens: AuthTokens; user: AuthUser } | null> {
+  async confirmRegistration(username: string, code: string): Promise<void> {
+    if (STUB_AUTH) {
+      return;
+    }
+
+    const cognitoUser = this.getCognitoUser(username);
+    return new Promise((resolve, reject) => {
+      cognitoUser.confirmRegistration(code, false, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Exchanges the refresh token for new access and ID tokens
+   */
+  private refreshCognitoSession(cognitoUser: CognitoUser, session: CognitoUserSession): Promise<CognitoUserSession> {
+    return new Promise((resolve, reject) => {
+      cognitoUser.refreshSession(session.getRefreshToken(), (err: Error | null, refreshed: CognitoUserSession) => {
+        if (err || !refreshed) {
+          reject(err ?? new Error('Session refresh failed'));
+          return;
+        }
+        resolve(refreshed);
+      });
+    });
+  }
+
+  /**
+   * Milliseconds until the access token expires
+   */
+  private msUntilExpiry(session: CognitoUserSession): number {
+    return session.getAccessToken().getExpiration() * 1000 - Date.now();
+  }
+
+  /**
+   * Loads the stored Cognito session, refreshing it when the access token has
+   * expired or is about to, so requests never go out with a stale token
+   */
+  private async getFreshCognitoSession(): Promise<{ cognitoUser: CognitoUser; session: CognitoUserSession } | null> {
     if (!this.userPool) {
       return null;
     }
@@ -180,55 +498,130 @@ class CognitoAuthService {
       return null;
     }
 
-    return new Promise((resolve, reject) => {
+    const session = await new Promise<CognitoUserSession | null>((resolve) => {
       cognitoUser.getSession((err: Error | null, session: CognitoUserSession | null) => {
-        if (err || !session || !session.isValid()) {
-          resolve(null);
-          return;
-        }
+        resolve(err ? null : session);
+      });
+    });
+    if (!session) {
+      return null;
+    }
 
-        this.currentUser = cognitoUser;
+    if (session.isValid() && this.msUntilExpiry(session) > REFRESH_MARGIN_MS) {
+      return { cognitoUser, session };
+    }
 
-        const tokens: AuthTokens = {
-          accessToken: session.getAccessToken().getJwtToken(),
-          idToken: session.getIdToken().getJwtToken(),
-          refreshToken: session.getRefreshToken().getToken(),
-        };
+    try {
+      return { cognitoUser, session: await this.refreshCognitoSession(cognitoUser, session) };
+    } catch (error) {
+      console.warn('Failed to refresh Cognito session:', error);
+      return session.isValid() ? { cognitoUser, session } : null;
+    }
+  }
 
-        // Get username from localStorage
-        const username = localStorage.getItem(STORAGE_KEYS.USERNAME) || '';
-        
-        // Extract all LWAI user IDs from ID token (always fresh from token)
-        const idTokenPayload = session.getIdToken().payload;
-        const availableUserIds = this.extractAllLwaiUserIds(idTokenPayload);
-        
-        // Get selected index from localStorage (default to 0, handle NaN/invalid)
-        const storedIndex = parseInt(localStorage.getItem(STORAGE_KEYS.SELECTED_USER_ID_INDEX) || '0', 10);
-        const selectedIndex = isNaN(storedIndex) ? 0 : storedIndex;
-        const safeIndex = Math.min(Math.max(0, selectedIndex), availableUserIds.length - 1);
-        const userId = availableUserIds[safeIndex];
-        
-        // Update localStorage with the latest values
-        localStorage.setItem(STORAGE_KEYS.USER_ID, userId);
-        localStorage.setItem(STORAGE_KEYS.AVAILABLE_USER_IDS, JSON.stringify(availableUserIds));
-        localStorage.setItem(STORAGE_KEYS.SELECTED_USER_ID_INDEX, safeIndex.toString());
-
-        const user: AuthUser = {
-          username,
-          userId,
-          availableUserIds,
-        };
-
-        resolve({ tokens, user });
-      });
-    });
+  /**
+   * Get current authenticated user from session
+   * Tokens are refreshed first when they expire within REFRESH_MARGIN_MS
+   */
+  async getCurrentSession(): Promise<{ tokens: AuthTokens; user: AuthUser } | null> {
+    if (STUB_AUTH) {
+      const username = localStorage.getItem(STORAGE_KEYS.USERNAME);
+      return username ? this.getStubSession(username) : null;
+    }
+
+    const fresh = await this.getFreshCognitoSession();
+    if (!fresh) {
+      return null;
+    }
+
+    const { cognitoUser, session } = fresh;
+    this.currentUser = cognitoUser;
+
+    const tokens = this.tokensFrom(session);
+
+    // Get username from localStorage
+    const username = localStorage.getItem(STORAGE_KEYS.USERNAME) || '';
+    
+    // Extract all LWAI user IDs from ID token (always fresh from token)
+    const idTokenPayload = session.getIdToken().payload;
+    const availableUserIds = this.extractAllLwaiUserIds(idTokenPayload);
+    
+    // Get selected index from localStorage (default to 0, handle NaN/invalid)
+    const storedIndex = parseInt(localStorage.getItem(STORAGE_KEYS.SELECTED_USER_ID_INDEX) || '0', 10);
+    const selectedIndex = isNaN(storedIndex) ? 0 : storedIndex;
+    const safeIndex = Math.min(Math.max(0, selectedIndex), availableUserIds.length - 1);
+    const userId = availableUserIds[safeIndex];
+    
+    // Update localStorage with the latest values
+    localStorage.setItem(STORAGE_KEYS.USER_ID, userId);
+    localStorage.setItem(STORAGE_KEYS.AVAILABLE_USER_IDS, JSON.stringify(availableUserIds));
+    localStorage.setItem(STORAGE_KEYS.SELECTED_USER_ID_INDEX, safeIndex.toString());
+
+    const user: AuthUser = {
+      username,
+      userId,
+      availableUserIds,
+    };
+
+    return { tokens, user };
+  }
+
+  /**
+   * Keeps the session alive by refreshing tokens shortly before they expire,
+   * so long editing sessions are not signed out mid-save
+   * @param onRefreshFailed - Called when the session can no longer be refreshed
+   */
+  startRefreshTimer(onRefreshFailed: () => void) {
+    this.stopRefreshTimer();
+    if (STUB_AUTH) {
+      return;
+    }
+
+    const schedule = async () => {
+      const fresh = await this.getFreshCognitoSession();
+      if (!fresh) {
+        this.refreshTimer = null;
+        onRefreshFailed();
+        return;
+      }
+      // getFreshCognitoSession refreshes once inside the margin, so wake up just then
+      const delay = Math.max(this.msUntilExpiry(fresh.session) - REFRESH_MARGIN_MS + 1000, 30 * 1000);
+      this.refreshTimer = setTimeout(schedule, delay);
+    };
+
+    schedule();
+  }
+
+  stopRefreshTimer() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Currently selected LWAI user_id, read synchronously from storage
+   * Used to scope cached data by account; returns "" when signed out
+   */
+  getSelectedUserId(): string {
+    return localStorage.getItem(STORAGE_KEYS.USER_ID) || '';
+  }
+
+  /**
+   * All LWAI user_ids of the signed-in user, read synchronously from storage
+   * Used to offer other accounts as targets (e.g. copy to account)
+   */
+  getAvailableUserIds(): string[] {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.AVAILABLE_USER_IDS) || '[]');
   }
 
   /**
    * Switch to a different LWAI user account
+   * Subsequent getCurrentSession calls return the newly selected user_id
    * @param index Index of the user ID in the availableUserIds array
+   * @returns The newly selected user_id
    */
-  switchUserAccount(index: number) {
+  switchUserAccount(index: number): string {
     const availableUserIds = JSON.parse(
       localStorage.getItem(STORAGE_KEYS.AVAILABLE_USER_IDS) || '[]'
     );
@@ -240,12 +633,15 @@ class CognitoAuthService {
     const userId = availableUserIds[index];
     localStorage.setItem(STORAGE_KEYS.SELECTED_USER_ID_INDEX, index.toString());
     localStorage.setItem(STORAGE_KEYS.USER_ID, userId);
+    return userId;
   }
 
   /**
    * Sign out current user
    */
   signOut() {
+    this.stopRefreshTimer();
+    this.pendingUser = null;
     if (this.currentUser) {
       this.currentUser.signOut();
     }
@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectDelimiter, parseDelimited } from "./delimitedText";
+
+const fieldsOf = (text: string, delimiter: "," | "\t" | ";" = ",") =>
+  parseDelimited(text, delimiter).map((row) => row.fields);
+
+describe("parseDelimited", () => {
+  it("splits rows and fields", () => {
+    assert.deepEqual(fieldsOf("name,description\nAva,Chef\r\nBen,Host"), [
+      ["name", "description"],
+      ["Ava", "Chef"],
+      ["Ben", "Host"],
+    ]);
+  });
+
+  it("keeps delimiters, quotes and line breaks inside quoted fields", () => {
+    assert.deepEqual(fieldsOf('"Smith, Ava","She said ""hi""","Line one\nLine two"'), [
+      ["Smith, Ava", 'She said "hi"', "Line one\nLine two"],
+    ]);
+  });
+
+  it("keeps quotes that do not open a field", () => {
+    assert.deepEqual(fieldsOf('Ava "the chef",5" tall'), [['Ava "the chef"', '5" tall']]);
+  });
+
+  it("keeps empty fields and a trailing empty field", () => {
+    assert.deepEqual(fieldsOf("Ava,,\n,Chef,"), [
+      ["Ava", "", ""],
+      ["", "Chef", ""],
+    ]);
+  });
+
+  it("drops blank lines and ignores a byte order mark", () => {
+    assert.deepEqual(fieldsOf("\uFEFFname\n\n  \nAva\n"), [["name"], ["Ava"]]);
+  });
+
+  it("parses with the given delimiter", () => {
+    assert.deepEqual(fieldsOf("Ava;Chef,cook", ";"), [["Ava", "Chef,cook"]]);
+    assert.deepEqual(fieldsOf("Ava\tChef, cook", "\t"), [["Ava", "Chef, cook"]]);
+  });
+
+  it("numbers rows by the line they start on, counting blank lines and quoted line breaks", () => {
+    const rows = parseDelimited('name,bio\n\nAva,"Line one\r\nLine two"\nBen,Host\r\rCy,Cook', ",");
+
+    assert.deepEqual(
+      rows.map((row) => [row.line, row.fields[0]]),
+      [
+        [1, "name"],
+        [3, "Ava"],
+        [5, "Ben"],
+        [7, "Cy"],
+      ],
+    );
+  });
+});
+
+describe("detectDelimiter", () => {
+  it("prefers tabs, then the more frequent of semicolon and comma", () => {
+    assert.equal(detectDelimiter("name\tdescription\nAva, the chef\tCooks"), "\t");
+    assert.equal(detectDelimiter("name;description;motivation\nAva, the chef;Cooks;Stars"), ";");
+    assert.equal(detectDelimiter("name,description\nAva;Chef"), ",");
+    assert.equal(detectDelimiter("name"), ",");
+  });
+});
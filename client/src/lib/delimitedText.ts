@@ -0,0 +1,90 @@
+/**
+ * Delimited Text
+ *
+ * Minimal CSV/TSV reader for spreadsheet imports. Follows RFC 4180 quoting:
+ * fields may be wrapped in double quotes, quoted fields may contain the
+ * delimiter and line breaks, and "" inside a quoted field is a literal quote.
+ * Text pasted from a spreadsheet is tab-separated, files are usually comma-
+ * (or, in some locales, semicolon-) separated.
+ */
+
+export type Delimiter = "," | "\t" | ";";
+
+export const DELIMITER_LABELS: Record<Delimiter, string> = {
+  ",": "Comma",
+  "\t": "Tab",
+  ";": "Semicolon",
+};
+
+/**
+ * Guesses the delimiter from the first line: tabs win (spreadsheet paste),
+ * then whichever of comma or semicolon appears more often
+ */
+export function detectDelimiter(text: string): Delimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const count = (char: string) => firstLine.split(char).length - 1;
+
+  if (count("\t") > 0) return "\t";
+  return count(";") > count(",") ? ";" : ",";
+}
+
+export interface DelimitedRow {
+  // 1-based line of the text the row starts on; blank lines and line breaks
+  // inside quoted fields are counted, so it matches a text editor
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Splits text into rows of fields
+ * Blank lines are dropped; a leading byte order mark is ignored.
+ */
+export function parseDelimited(text: string, delimiter: Delimiter): DelimitedRow[] {
+  const rows: DelimitedRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    if (row.some((value) => value.trim() !== "")) rows.push({ line: rowLine, fields: row });
+    row = [];
+    rowLine = line;
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (inQuotes) {
+      if (char !== '"') {
+        field += char;
+        if (char === "\n" || (char === "\r" && input[index + 1] !== "\n")) line++;
+      } else if (input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else {
+        inQuotes = false;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index++;
+      line++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
@@ -0,0 +1,55 @@
+/**
+ * Version History Client
+ *
+ * The proxy records every character, scene and cast write as a version
+ * (before/after snapshots, author, time) because the upstream API keeps no
+ * history. This module reads those versions from /api/history and compares
+ * snapshots field by field.
+ */
+
+import type { EntityHistoryVersion, HistoryEntityType } from "@shared/api-types";
+import { localApiRequest } from "./localApi";
+
+const HISTORY_BASE_URL = "/api/history";
+
+/**
+ * Fetches the versions of an entity in the selected account and environment
+ * @returns Versions, newest first
+ */
+export async function fetchEntityHistory(
+  entityType: HistoryEntityType,
+  entityId: string
+): Promise<EntityHistoryVersion[]> {
+  return localApiRequest(`${HISTORY_BASE_URL}/${entityType}/${encodeURIComponent(entityId)}`);
+}
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+const fieldText = (snapshot: Record<string, unknown> | null, field: string) =>
+  snapshot?.[field] === undefined || snapshot[field] === null ? "" : String(snapshot[field]);
+
+/**
+ * Fields that differ between a version's before and after snapshots
+ * @param fields - Content fields to compare, in display order
+ */
+export function diffVersion(version: EntityHistoryVersion, fields: readonly string[]): FieldChange[] {
+  return fields
+    .map((field) => ({ field, before: fieldText(version.before, field), after: fieldText(version.after, field) }))
+    .filter((change) => change.before !== change.after);
+}
+
+/**
+ * The content a revert to a version restores: its after snapshot's fields
+ * @returns null for versions that cannot be reverted to (deletes)
+ */
+export function revertContent(
+  version: EntityHistoryVersion,
+  fields: readonly string[]
+): Record<string, string> | null {
+  if (version.action === "delete" || !version.after) return null;
+  return Object.fromEntries(fields.map((field) => [field, fieldText(version.after, field)]));
+}
@@ -0,0 +1,61 @@
+/**
+ * Upstream Environment Selection
+ *
+ * The proxy can forward to several LunchWith.ai environments (beta, api2,
+ * local mock, ...; see server/environments.ts). The choice is kept per browser
+ * session in sessionStorage and sent on every proxied request as the
+ * X-LWAI-Environment header. With no choice the server's default is used.
+ */
+
+export const ENVIRONMENT_HEADER = 'X-LWAI-Environment';
+
+const STORAGE_KEY = 'lwai_environment';
+
+export interface EnvironmentOption {
+  name: string;
+  label: string;
+  production: boolean;
+}
+
+export interface EnvironmentList {
+  default: string;
+  environments: EnvironmentOption[];
+}
+
+/**
+ * Returns the environment chosen for this session, or "" for the server default
+ */
+export function getSelectedEnvironment(): string {
+  return sessionStorage.getItem(STORAGE_KEY) || '';
+}
+
+/**
+ * Chooses the environment for this session
+ * @param name - Environment name; "" resets to the server default
+ */
+export function setSelectedEnvironment(name: string) {
+  if (name) {
+    sessionStorage.setItem(STORAGE_KEY, name);
+  } else {
+    sessionStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+/**
+ * Headers that route a proxied request to an environment
+ * @param name - Environment name; defaults to the session's choice, "" for the server default
+ */
+export function environmentHeaders(name: string = getSelectedEnvironment()): Record<string, string> {
+  return name ? { [ENVIRONMENT_HEADER]: name } : {};
+}
+
+/**
+ * Loads the environments offered by the server
+ */
+export async function fetchEnvironments(): Promise<EnvironmentList> {
+  const response = await fetch('/api/environments');
+  if (!response.ok) {
+    throw new Error(`Failed to load environments: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,157 @@
+/**
+ * Form Drafts
+ *
+ * Unsaved content of the character, scene and cast forms, autosaved so it
+ * survives closing the dialog, a failed save, or a reload. Drafts are kept in
+ * localStorage per environment, LWAI account and draft key (the form and the
+ * entity it edits, see draftKeys). The account and environment are taken when
+ * the form opens (see currentDraftScope), so a draft saved after switching
+ * accounts still belongs to the account the form was editing.
+ *
+ * Optionally (a per-browser setting) drafts are also synced to the server
+ * through /api/drafts, so they follow the user to another browser. The local
+ * copy is always written first; when both exist, the newer one wins. Server
+ * failures are logged and otherwise ignored.
+ */
+
+import { cognitoAuth } from "./cognitoAuth";
+import { getSelectedEnvironment } from "./environment";
+import { LunchWithApiError } from "./apiError";
+import { localApiRequest } from "./localApi";
+
+const STORAGE_PREFIX = 'lwai_draft:';
+const SYNC_SETTING_KEY = 'lwai_sync_drafts';
+const DRAFTS_URL = '/api/drafts';
+
+// Form field values by field name
+export type DraftContent = Record<string, string>;
+
+// Draft as the server returns it
+interface FormDraftResponse {
+  content: DraftContent;
+  updatedAt: string;
+}
+
+// Environment ("" for the server default) and LWAI account a draft belongs to
+export interface DraftScope {
+  environment: string;
+  userId: string;
+}
+
+export interface StoredDraft {
+  content: DraftContent;
+  // ISO timestamp of the last save
+  savedAt: string;
+}
+
+/**
+ * Draft keys: which form, and which entity it edits ("new" when creating)
+ */
+export const draftKeys = {
+  character: (characterId?: string) => `character:${characterId ?? 'new'}`,
+  scene: (sceneId?: string) => `scene:${sceneId ?? 'new'}`,
+  cast: (sceneId: string, castId?: string) => `cast:${sceneId}:${castId ?? 'new'}`,
+};
+
+export function isDraftSyncEnabled(): boolean {
+  return localStorage.getItem(SYNC_SETTING_KEY) === 'true';
+}
+
+export function setDraftSyncEnabled(enabled: boolean) {
+  if (enabled) {
+    localStorage.setItem(SYNC_SETTING_KEY, 'true');
+  } else {
+    localStorage.removeItem(SYNC_SETTING_KEY);
+  }
+}
+
+/**
+ * The selected environment and account, for a form that is opening
+ */
+export function currentDraftScope(): DraftScope {
+  return { environment: getSelectedEnvironment(), userId: cognitoAuth.getSelectedUserId() };
+}
+
+function storageKey({ environment, userId }: DraftScope, draftKey: string): string {
+  return `${STORAGE_PREFIX}${environment || 'default'}:${userId}:${draftKey}`;
+}
+
+function readLocalDraft(scope: DraftScope, draftKey: string): StoredDraft | null {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(storageKey(scope, draftKey)) || 'null');
+    return parsed && typeof parsed.content === 'object' && typeof parsed.savedAt === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// SERVER SYNC
+// ============================================================================
+
+// Server writes run one at a time, so a save and a later clear arrive in order
+let serverQueue: Promise<unknown> = Promise.resolve();
+
+const draftEndpoint = (draftKey: string) => `${DRAFTS_URL}/${encodeURIComponent(draftKey)}`;
+
+function queueServerWrite(scope: DraftScope, draftKey: string, method: "PUT" | "DELETE", content?: DraftContent) {
+  serverQueue = serverQueue
+    .then(() => localApiRequest(draftEndpoint(draftKey), { method, body: content && { content }, ...scope }))
+    .catch((error) => console.warn(`Draft sync: ${method} ${draftKey} failed:`, error));
+}
+
+async function readServerDraft(scope: DraftScope, draftKey: string): Promise<StoredDraft | null> {
+  try {
+    await serverQueue;
+    const draft = await localApiRequest<FormDraftResponse>(draftEndpoint(draftKey), scope);
+    return { content: draft.content, savedAt: draft.updatedAt };
+  } catch (error) {
+    if (!(error instanceof LunchWithApiError && error.status === 404)) {
+      console.warn(`Draft sync: could not read ${draftKey}:`, error);
+    }
+    return null;
+  }
+}
+
+// ============================================================================
+// DRAFTS
+// ============================================================================
+
+/**
+ * Reads the draft for a form in an account and environment
+ * With sync enabled, the server's copy is used when it is newer.
+ * @returns The draft, or null if there is none
+ */
+export async function loadDraft(scope: DraftScope, draftKey: string): Promise<StoredDraft | null> {
+  const local = readLocalDraft(scope, draftKey);
+  if (!isDraftSyncEnabled()) return local;
+
+  const remote = await readServerDraft(scope, draftKey);
+  if (!remote) return local;
+  if (!local || new Date(remote.savedAt) > new Date(local.savedAt)) {
+    localStorage.setItem(storageKey(scope, draftKey), JSON.stringify(remote));
+    return remote;
+  }
+  return local;
+}
+
+/**
+ * Saves a form's content as its draft
+ */
+export function storeDraft(scope: DraftScope, draftKey: string, content: DraftContent) {
+  const draft: StoredDraft = { content, savedAt: new Date().toISOString() };
+  localStorage.setItem(storageKey(scope, draftKey), JSON.stringify(draft));
+  if (isDraftSyncEnabled()) {
+    queueServerWrite(scope, draftKey, "PUT", content);
+  }
+}
+
+/**
+ * Deletes a form's draft, e.g. once the form has been saved
+ */
+export function clearDraft(scope: DraftScope, draftKey: string) {
+  localStorage.removeItem(storageKey(scope, draftKey));
+  if (isDraftSyncEnabled()) {
+    queueServerWrite(scope, draftKey, "DELETE");
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Local API Client
+ *
+ * Requests to this server's own /api routes (delivered story responses,
+ * version history, audit log, drafts) rather than the LunchWith.ai proxy.
+ * They are sent as the signed-in user, with the selected LWAI account and
+ * environment, and failures become LunchWithApiErrors like proxied calls.
+ */
+
+import { cognitoAuth } from "./cognitoAuth";
+import { environmentHeaders } from "./environment";
+import { LunchWithApiError, parseApiError } from "./apiError";
+
+interface LocalRequestOptions {
+  method?: string;
+  // Sent as JSON
+  body?: unknown;
+  // Account and environment to send instead of the selected ones
+  userId?: string;
+  environment?: string;
+}
+
+/**
+ * Sends a request to a local /api route
+ * @param endpoint - Path including any query, e.g. "/api/audit?limit=10"
+ * @returns The parsed JSON response, or undefined for an empty one
+ * @throws LunchWithApiError when not signed in or the response is not OK
+ */
+export async function localApiRequest<T>(
+  endpoint: string,
+  { method = "GET", body, userId, environment }: LocalRequestOptions = {}
+): Promise<T> {
+  const session = await cognitoAuth.getCurrentSession();
+  if (!session) {
+    throw new LunchWithApiError({
+      status: 401,
+      title: "Unauthorized",
+      detail: "Not authenticated. Please sign in.",
+      endpoint,
+      method,
+    });
+  }
+
+  const response = await fetch(endpoint, {
+    method,
+    headers: {
+      ...(body !== undefined && { "Content-Type": "application/json" }),
+      "Authorization": `Bearer ${session.tokens.accessToken}`,
+      "X-LWAI-User-Id": userId ?? session.user.userId,
+      ...environmentHeaders(environment),
+    },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+
+  if (!response.ok) {
+    throw await parseApiError(response, endpoint, method);
+  }
+
+  const text = await response.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
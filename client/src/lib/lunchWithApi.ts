@@ -7,13 +7,32 @@
  * Key features:
  * - Cognito token-based authentication
  * - X-LWAI-User-Id header for user identification
- * - Automatic response unwrapping (handles LunchWith.ai's "results" wrapper)
+ * - X-LWAI-Environment header for the session's upstream environment
+ * - withTarget() for a client bound to another account or environment
+ * - Deleted characters, scenes and cast members are recorded in this
+ *   client's Trash (see trash.ts), since the API no longer returns them;
+ *   withoutTrash() for a client that does not record them
+ * - Per-endpoint response contracts (single, list, message) validated with zod
  * - Type-safe methods for all CRUD operations
- * - Comprehensive error handling
+ * - Structured errors (LunchWithApiError) parsed from the API's title/detail bodies
  */
 
-import type { Character, Scene, Cast, InsertCharacter, InsertScene, InsertCast, UserProfile, UserAccountProfile } from "@shared/api-types";
+import type { Character, Scene, Cast, InsertCharacter, InsertScene, InsertCast, UserProfile, UserAccountProfile, UpdateUserPreferences, Story, StoryAugment, StoryConversationResponse, ApiMessage } from "@shared/api-types";
+import {
+  characterSchema,
+  sceneSchema,
+  castSchema,
+  userProfileSchema,
+  userAccountProfileSchema,
+  storySchema,
+  storyAugmentSchema,
+  storyConversationResponseSchema,
+} from "@shared/api-schemas";
 import { cognitoAuth } from "./cognitoAuth";
+import { environmentHeaders, getSelectedEnvironment } from "./environment";
+import { recordDeletion, type TrashScope } from "./trash";
+import { LunchWithApiError, parseApiError, getRequestId } from "./apiError";
+import { applyContract, ContractViolation, single, optional, list, message, empty, type ResponseContract } from "./apiContracts";
 
 // Backend proxy endpoint - all requests are forwarded through our Express server
 const API_BASE_URL = "/api/lunchwith";
@@ -25,44 +44,114 @@ export function setSessionExpiredHandler(handler: () => void) {
   onSessionExpired = handler;
 }
 
+/**
+ * Generates a new story ID in the format used by the API (e.g., "story-7f3e2d1c9b8a")
+ * Story IDs are chosen by the client when calling start_scene
+ */
+export function generateStoryId(): string {
+  return `story-${crypto.randomUUID().replace(/-/g, "").slice(0, 12)}`;
+}
+
+/**
+ * Account and environment a client sends its requests to
+ * Unset fields follow the session: the selected account and the environment picker
+ */
+export interface ApiTarget {
+  userId?: string;
+  // "" means the server's default environment
+  environment?: string;
+}
+
 /**
  * LunchWith.ai API Client Class
  * Manages authentication and communication with the LunchWith.ai API using Cognito tokens
  */
 class LunchWithAPIClient {
+  constructor(
+    private readonly target: ApiTarget = {},
+    private readonly recordsDeletes = true
+  ) {}
+
+  /**
+   * Returns a client that sends requests to another account and/or environment
+   * with the same sign-in (the proxy still checks the account is the caller's)
+   */
+  withTarget(target: ApiTarget): LunchWithAPIClient {
+    return new LunchWithAPIClient({ ...this.target, ...target }, this.recordsDeletes);
+  }
+
+  /**
+   * Returns a client whose deletes are not recorded in the Trash, for undoing
+   * items it just created (e.g. rolling back an import)
+   */
+  withoutTrash(): LunchWithAPIClient {
+    return new LunchWithAPIClient(this.target, false);
+  }
+
+  /**
+   * Account and environment this client's deletes are recorded under
+   */
+  private trashScope(): TrashScope {
+    return {
+      environment: this.target.environment ?? getSelectedEnvironment(),
+      userId: this.target.userId ?? cognitoAuth.getSelectedUserId(),
+    };
+  }
+
+  /**
+   * Reads an item about to be deleted, to keep its content in the Trash
+   * @returns The item, or null if it could not be read (the delete still goes ahead)
+   *   or this client does not record deletes
+   */
+  private async readBeforeDelete<T>(read: () => Promise<T>): Promise<T | null> {
+    if (!this.recordsDeletes) return null;
+    try {
+      return await read();
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Generic request method for all API calls
-   * Handles authentication, response parsing, and LunchWith.ai response unwrapping
+   * Handles authentication, response parsing, and contract validation
    * 
    * @param endpoint - API endpoint path (e.g., "/character/", "/scene/{id}")
    * @param method - HTTP method (GET, POST, PUT, DELETE)
+   * @param contract - Expected response shape (see apiContracts.ts)
    * @param body - Optional request body for POST/PUT requests
-   * @returns Parsed response data with appropriate typing
+   * @returns Response data validated against the contract
    * 
    * LunchWith.ai API Response Format:
-   * The API wraps all responses in a "results" array field.
-   * This method unwraps single-item responses based on:
-   * - HTTP method (PUT/POST typically return single items)
-   * - URL pattern (endpoints with resource IDs expect single items)
-   * Multi-item responses are returned as arrays.
+   * The API wraps resources in a "results" array field. The contract decides
+   * whether the caller receives the first result, the whole array, or a
+   * { title, detail } message; the endpoint path and method play no part.
    */
   private async request<T>(
     endpoint: string,
     method: string,
+    contract: ResponseContract<T>,
     body?: any
   ): Promise<T> {
     // Get current session to extract tokens and user info
     const session = await cognitoAuth.getCurrentSession();
     
     if (!session) {
-      throw new Error("Not authenticated. Please sign in.");
+      throw new LunchWithApiError({
+        status: 401,
+        title: "Not authenticated",
+        detail: "Not authenticated. Please sign in.",
+        endpoint,
+        method,
+      });
     }
 
     // Setup request headers with Cognito token and user ID
     const headers: HeadersInit = {
       "Content-Type": "application/json",
       "Authorization": `Bearer ${session.tokens.accessToken}`,
-      "X-LWAI-User-Id": session.user.userId,
+      "X-LWAI-User-Id": this.target.userId ?? session.user.userId,
+      ...environmentHeaders(this.target.environment),
     };
 
     const config: RequestInit = {
@@ -76,78 +165,63 @@ class LunchWithAPIClient {
     }
 
     // Make the request through our backend proxy
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, config);
+    let response: Response;
+    try {
+      response = await fetch(`${API_BASE_URL}${endpoint}`, config);
+    } catch (error) {
+      // Network failure - the request never reached the proxy
+      throw new LunchWithApiError({
+        status: 0,
+        title: "Network error",
+        detail: "",
+        endpoint,
+        method,
+        body: error instanceof Error ? error.message : undefined,
+      });
+    }
 
     // Handle HTTP errors
     if (!response.ok) {
-      const errorText = await response.text();
+      const error = await parseApiError(response, endpoint, method);
       
       // If unauthorized, trigger session expiration handler
-      if (response.status === 401) {
-        if (onSessionExpired) {
-          onSessionExpired();
-        }
-        throw new Error("Session expired. Please sign in again.");
+      if (response.status === 401 && onSessionExpired) {
+        onSessionExpired();
       }
       
-      throw new Error(
-        `API request failed: ${response.status} ${response.statusText}. ${errorText}`
-      );
+      throw error;
     }
 
-    // Handle empty responses (like successful DELETE operations)
+    // Empty bodies (like successful DELETE operations) are left to the contract
     const text = await response.text();
-    if (!text) {
-      return null as T;
-    }
+    let data: unknown = undefined;
 
-    const data = JSON.parse(text);
-    
-    /**
-     * LunchWith.ai API Response Unwrapping Logic
-     * 
-     * The API returns responses wrapped in a "results" array:
-     * { results: [...] }
-     * 
-     * This logic determines whether to return:
-     * 1. A single object (for specific resource requests)
-     * 2. An array of objects (for collection requests)
-     */
-    if (data && typeof data === 'object' && 'results' in data) {
-      const results = data.results;
-      if (Array.isArray(results)) {
-        // User profile endpoints always return a single object
-        // Unwrap immediately if there's at least one result
-        const isUserProfileEndpoint = endpoint.startsWith('/user/me');
-        if (isUserProfileEndpoint && results.length > 0) {
-          return results[0] as T;
+    try {
+      if (text) {
+        data = JSON.parse(text);
+
+        // GET /story and GET /story/{id} return a JSON string containing the
+        // actual body (legacy behavior), so parse a second time when that happens
+        if (typeof data === 'string') {
+          data = JSON.parse(data);
         }
-        
-        // Detect if this is a specific resource request by examining the endpoint
-        // Pattern matching:
-        // - /scene/{uuid} or /character/{uuid} = single resource
-        // - /cast/{scene_uuid}/{cast_uuid} = single cast member (2 UUIDs)
-        // - /cast/{scene_uuid} = list of cast (1 UUID, NOT single resource)
-        const uuidPattern = /[a-f0-9-]{36}/gi;
-        const uuidMatches = endpoint.match(uuidPattern);
-        
-        // Special handling for cast endpoints which have scene_id in path
-        const isCastEndpoint = endpoint.includes('/cast/');
-        const isSpecificResource = isCastEndpoint 
-          ? (uuidMatches && uuidMatches.length === 2) // Cast needs 2 UUIDs (scene + cast)
-          : endpoint.match(/\/[a-f0-9-]{36}$/i); // Others need 1 UUID at end
-        
-        // Return logic:
-        // - Single item + (create/update OR specific resource) = unwrap to object
-        // - Otherwise = return array
-        return (results.length === 1 && (method === 'PUT' || method === 'POST' || isSpecificResource)
-          ? results[0] 
-          : results) as T;
       }
-      return results as T;
+
+      return applyContract(contract, data);
+    } catch (error) {
+      if (!(error instanceof SyntaxError || error instanceof ContractViolation)) {
+        throw error;
+      }
+      throw new LunchWithApiError({
+        status: response.status,
+        title: "Unexpected response",
+        detail: "The server returned data in an unexpected format.",
+        endpoint,
+        method,
+        requestId: getRequestId(response.headers),
+        body: `${error.message}\n${text}`,
+      });
     }
-    
-    return data as T;
   }
 
   // ============================================================================
@@ -159,7 +233,7 @@ class LunchWithAPIClient {
    * @returns Array of all characters
    */
   async getCharacters(): Promise<Character[]> {
-    return this.request<Character[]>("/character/", "GET");
+    return this.request("/character/", "GET", list(characterSchema));
   }
 
   /**
@@ -168,7 +242,7 @@ class LunchWithAPIClient {
    * @returns Single character object
    */
   async getCharacter(characterId: string): Promise<Character> {
-    return this.request<Character>(`/character/${characterId}`, "GET");
+    return this.request(`/character/${characterId}`, "GET", single(characterSchema));
   }
 
   /**
@@ -177,7 +251,7 @@ class LunchWithAPIClient {
    * @returns Newly created character with generated ID
    */
   async createCharacter(character: InsertCharacter): Promise<Character> {
-    return this.request<Character>("/character", "POST", character);
+    return this.request("/character", "POST", single(characterSchema), character);
   }
 
   /**
@@ -187,15 +261,19 @@ class LunchWithAPIClient {
    * @returns Updated character object
    */
   async updateCharacter(characterId: string, character: Partial<Character>): Promise<Character> {
-    return this.request<Character>(`/character/${characterId}`, "PUT", character);
+    return this.request(`/character/${characterId}`, "PUT", single(characterSchema), character);
   }
 
   /**
-   * Deletes a character
+   * Deletes a character and records it in the Trash
    * @param characterId - UUID of the character to delete
    */
   async deleteCharacter(characterId: string): Promise<void> {
-    return this.request<void>(`/character/${characterId}`, "DELETE");
+    const character = await this.readBeforeDelete(() => this.getCharacter(characterId));
+    await this.request(`/character/${characterId}`, "DELETE", empty);
+    if (character) {
+      recordDeletion(this.trashScope(), { entityType: "character", item: character });
+    }
   }
 
   // ============================================================================
@@ -207,7 +285,7 @@ class LunchWithAPIClient {
    * @returns Array of all scenes
    */
   async getScenes(): Promise<Scene[]> {
-    return this.request<Scene[]>("/scene", "GET");
+    return this.request("/scene", "GET", list(sceneSchema));
   }
 
   /**
@@ -216,7 +294,7 @@ class LunchWithAPIClient {
    * @returns Newly created scene with generated ID
    */
   async createScene(scene: InsertScene): Promise<Scene> {
-    return this.request<Scene>("/scene", "POST", scene);
+    return this.request("/scene", "POST", single(sceneSchema), scene);
   }
 
   /**
@@ -226,15 +304,22 @@ class LunchWithAPIClient {
    * @returns Updated scene object
    */
   async updateScene(sceneId: string, scene: Partial<Scene>): Promise<Scene> {
-    return this.request<Scene>(`/scene/${sceneId}`, "PUT", scene);
+    return this.request(`/scene/${sceneId}`, "PUT", single(sceneSchema), scene);
   }
 
   /**
-   * Deletes a scene and all associated cast members
+   * Deletes a scene and all associated cast members, and records them in the Trash
    * @param sceneId - UUID of the scene to delete
    */
   async deleteScene(sceneId: string): Promise<void> {
-    return this.request<void>(`/scene/${sceneId}`, "DELETE");
+    const [scene, sceneCast] = await Promise.all([
+      this.readBeforeDelete(() => this.getScene(sceneId)),
+      this.readBeforeDelete(() => this.getCastMembers(sceneId)),
+    ]);
+    await this.request(`/scene/${sceneId}`, "DELETE", empty);
+    if (scene) {
+      recordDeletion(this.trashScope(), { entityType: "scene", item: scene, sceneCast: sceneCast ?? [] });
+    }
   }
 
   /**
@@ -243,7 +328,7 @@ class LunchWithAPIClient {
    * @returns Single scene object
    */
   async getScene(sceneId: string): Promise<Scene> {
-    return this.request<Scene>(`/scene/${sceneId}`, "GET");
+    return this.request(`/scene/${sceneId}`, "GET", single(sceneSchema));
   }
 
   // ============================================================================
@@ -256,7 +341,17 @@ class LunchWithAPIClient {
    * @returns Array of cast members in the scene
    */
   async getCastMembers(sceneId: string): Promise<Cast[]> {
-    return this.request<Cast[]>(`/cast/${sceneId}`, "GET");
+    return this.request(`/cast/${sceneId}`, "GET", list(castSchema));
+  }
+
+  /**
+   * Retrieves a specific cast member of a scene
+   * @param sceneId - UUID of the scene
+   * @param castId - UUID of the cast member
+   * @returns Single cast member object
+   */
+  async getCastMember(sceneId: string, castId: string): Promise<Cast> {
+    return this.request(`/cast/${sceneId}/${castId}`, "GET", single(castSchema));
   }
 
   /**
@@ -266,7 +361,7 @@ class LunchWithAPIClient {
    * @returns Newly created cast member with generated ID
    */
   async createCast(sceneId: string, cast: InsertCast): Promise<Cast> {
-    return this.request<Cast>(`/cast/${sceneId}`, "POST", cast);
+    return this.request(`/cast/${sceneId}`, "POST", single(castSchema), cast);
   }
 
   /**
@@ -277,16 +372,187 @@ class LunchWithAPIClient {
    * @returns Updated cast member object
    */
   async updateCast(sceneId: string, castId: string, cast: Partial<Cast>): Promise<Cast> {
-    return this.request<Cast>(`/cast/${sceneId}/${castId}`, "PUT", cast);
+    return this.request(`/cast/${sceneId}/${castId}`, "PUT", single(castSchema), cast);
   }
 
   /**
-   * Deletes a cast member from a scene
+   * Deletes a cast member from a scene and records it in the Trash
    * @param sceneId - UUID of the scene
    * @param castId - UUID of the cast member to delete
    */
   async deleteCast(sceneId: string, castId: string): Promise<void> {
-    return this.request<void>(`/cast/${sceneId}/${castId}`, "DELETE");
+    const cast = await this.readBeforeDelete(() => this.getCastMember(sceneId, castId));
+    await this.request(`/cast/${sceneId}/${castId}`, "DELETE", empty);
+    if (cast) {
+      recordDeletion(this.trashScope(), { entityType: "cast", item: cast });
+    }
+  }
+
+  // ============================================================================
+  // STORY ENDPOINTS
+  // ============================================================================
+
+  /**
+   * Retrieves all active stories
+   * @returns Array of active stories
+   */
+  async getStories(): Promise<Story[]> {
+    return this.request("/story", "GET", list(storySchema));
+  }
+
+  /**
+   * Retrieves a specific story by ID
+   * @param storyId - ID of the story (e.g., "story-7f3e2d1c9b8a")
+   * @returns Single story object
+   */
+  async getStory(storyId: string): Promise<Story> {
+    return this.request(`/story/${storyId}`, "GET", single(storySchema));
+  }
+
+  /**
+   * Starts a new story for a scene
+   * The server builds the casting list from the scene's cast members
+   * @param storyId - ID to assign to the new story
+   * @param sceneId - UUID of the scene to run
+   * @returns Newly started story with its casting list
+   */
+  async startScene(storyId: string, sceneId: string): Promise<Story> {
+    return this.request(`/story/${storyId}/start_scene/${sceneId}`, "POST", single(storySchema));
+  }
+
+  /**
+   * Ends the current scene and triggers scene summaries
+   * The story is no longer active afterwards
+   * @param storyId - ID of the story to end
+   */
+  async endScene(storyId: string): Promise<ApiMessage> {
+    return this.request(`/story/${storyId}/end_scene`, "POST", message);
+  }
+
+  /**
+   * Instructs characters to complete their goals as quickly as possible
+   * @param storyId - ID of the story
+   * @returns Updated story with finishup set
+   */
+  async finishUp(storyId: string): Promise<Story> {
+    return this.request(`/story/${storyId}/finish_up`, "POST", single(storySchema));
+  }
+
+  /**
+   * Politely exits the conversation immediately
+   * @param storyId - ID of the story
+   * @returns Updated story with end_conversation set
+   */
+  async endConversation(storyId: string): Promise<Story> {
+    return this.request(`/story/${storyId}/end_conversation`, "POST", single(storySchema));
+  }
+
+  /**
+   * Associates a character with a cast entry in the active story
+   * @param storyId - ID of the story
+   * @param characterId - UUID of the character to cast
+   * @param castId - UUID of the cast entry the character plays
+   * @returns Updated story with the character bound in its casting list
+   */
+  async castCharacter(storyId: string, characterId: string, castId: string): Promise<Story> {
+    return this.request(`/story/${storyId}/cast/${characterId}/as/${castId}`, "POST", single(storySchema));
+  }
+
+  /**
+   * Marks a cast entry for summarization during end_scene
+   * @param storyId - ID of the story
+   * @param castId - UUID of the cast entry
+   * @returns Updated story
+   */
+  async summarizeCast(storyId: string, castId: string): Promise<Story> {
+    return this.request(`/story/${storyId}/summarize/${castId}`, "POST", single(storySchema));
+  }
+
+  // ============================================================================
+  // STORY AUGMENT ENDPOINTS
+  // ============================================================================
+
+  /**
+   * Retrieves the augment for the current take and cast
+   * @param storyId - ID of the story
+   * @param castId - UUID of the cast entry
+   * @returns The augment, or null if none exists for the current take
+   */
+  async getAugment(storyId: string, castId: string): Promise<StoryAugment | null> {
+    try {
+      // An empty results list means there is no augment yet
+      return await this.request(`/story/${storyId}/augment/${castId}`, "GET", optional(storyAugmentSchema));
+    } catch (error) {
+      // A 404 means there is no augment for the current take
+      if (error instanceof LunchWithApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Adds an augment for the current take and cast
+   * The server updates the existing augment instead if one already exists
+   * @param storyId - ID of the story
+   * @param castId - UUID of the cast entry
+   * @param augment - Narrative text to inject
+   * @returns The saved augment
+   */
+  async createAugment(storyId: string, castId: string, augment: string): Promise<StoryAugment> {
+    return this.request(`/story/${storyId}/augment/${castId}`, "POST", single(storyAugmentSchema), { augment });
+  }
+
+  /**
+   * Updates the existing augment for the current take and cast
+   * @param storyId - ID of the story
+   * @param castId - UUID of the cast entry
+   * @param augment - Replacement narrative text
+   * @returns The updated augment
+   */
+  async updateAugment(storyId: string, castId: string, augment: string): Promise<StoryAugment> {
+    return this.request(`/story/${storyId}/augment/${castId}`, "PUT", single(storyAugmentSchema), { augment });
+  }
+
+  /**
+   * Deletes the augment for the current take and cast
+   * @param storyId - ID of the story
+   * @param castId - UUID of the cast entry
+   */
+  async deleteAugment(storyId: string, castId: string): Promise<void> {
+    return this.request(`/story/${storyId}/augment/${castId}`, "DELETE", empty);
+  }
+
+  // ============================================================================
+  // STORY CONVERSATION ENDPOINTS
+  // ============================================================================
+
+  /**
+   * Posts a conversation line for a cast entry in the active story
+   * @param storyId - ID of the story
+   * @param castId - UUID of the cast entry speaking
+   * @param response - The line of dialogue
+   * @returns The stored response
+   */
+  async postResponse(storyId: string, castId: string, response: string): Promise<StoryConversationResponse> {
+    return this.request(
+      `/story/${storyId}/post_response/${castId}`,
+      "POST",
+      single(storyConversationResponseSchema),
+      { response }
+    );
+  }
+
+  /**
+   * Triggers generation of the next response for a cast entry
+   * The generated text is delivered asynchronously to the account's sqs_url,
+   * not returned by this call
+   * @param storyId - ID of the story
+   * @param castId - UUID of the cast entry that should respond
+   * @returns Confirmation message that generation has started
+   */
+  async getResponseStep(storyId: string, castId: string): Promise<ApiMessage> {
+    return this.request(`/story/${storyId}/get_response_step/${castId}`, "GET", message);
   }
 
   // ============================================================================
@@ -298,7 +564,7 @@ class LunchWithAPIClient {
    * @returns User profile with identity and accounts list
    */
   async getUserProfile(): Promise<UserProfile> {
-    return this.request<UserProfile>("/user/me", "GET");
+    return this.request("/user/me", "GET", single(userProfileSchema));
   }
 
   /**
@@ -307,9 +573,22 @@ class LunchWithAPIClient {
    * @returns User account profile with identity and preferences
    */
   async getUserAccount(userId: string): Promise<UserAccountProfile> {
-    return this.request<UserAccountProfile>(`/user/me/${userId}`, "GET");
+    return this.request(`/user/me/${userId}`, "GET", single(userAccountProfileSchema));
+  }
+
+  /**
+   * Updates application-level preferences for a specific user_id
+   * Only sqs_url and contactName are updatable; the API responds with 400
+   * if neither is present
+   * @param userId - UUID of the user account
+   * @param preferences - Preference fields to update
+   * @returns Updated user account profile with identity and preferences
+   */
+  async updateUserAccount(userId: string, preferences: UpdateUserPreferences): Promise<UserAccountProfile> {
+    return this.request(`/user/me/${userId}`, "PUT", single(userAccountProfileSchema), preferences);
   }
 }
 
 // Export singleton instance for use throughout the application
 export const apiClient = new LunchWithAPIClient();
+export type { LunchWithAPIClient };
@@ -0,0 +1,96 @@
+/**
+ * Pending Deletes
+ *
+ * Deletes are held back for a short undo window before the DELETE call is
+ * sent (see hooks/use-undoable-delete). Each pending delete is committed when:
+ * - its undo window expires
+ * - the user navigates away from the page it was scheduled for
+ * - the user signs out or switches account/environment (flushAll), since the
+ *   request must go out with the credentials and account it was made under
+ * - the browser tab is closed (the unload prompt gives the requests time to finish)
+ */
+
+export const UNDO_WINDOW_MS = 6000;
+
+interface PendingDelete {
+  // Route the user is on while the delete can be undone
+  page: string;
+  timer: ReturnType<typeof setTimeout>;
+  commit: () => Promise<void>;
+  undo: () => void;
+}
+
+class PendingDeleteQueue {
+  private pending = new Map<string, PendingDelete>();
+
+  constructor() {
+    window.addEventListener('beforeunload', (event) => {
+      if (this.pending.size === 0) return;
+      this.flushAll();
+      // Ask the browser to confirm leaving so the DELETE requests can complete
+      event.preventDefault();
+      event.returnValue = '';
+    });
+  }
+
+  /**
+   * Schedules a delete to be committed after UNDO_WINDOW_MS
+   * @param key - Identifies the item, e.g. "character:<id>"; scheduling the same key again commits the earlier one first
+   * @param page - Route the user will be on during the undo window
+   * @param commit - Sends the DELETE; must handle its own errors
+   * @param undo - Puts the item back in the UI
+   */
+  schedule(key: string, page: string, commit: () => Promise<void>, undo: () => void) {
+    if (this.pending.has(key)) {
+      this.flush(key);
+    }
+    const timer = setTimeout(() => this.flush(key), UNDO_WINDOW_MS);
+    this.pending.set(key, { page, timer, commit, undo });
+  }
+
+  /**
+   * Cancels a pending delete and restores the item
+   * @returns false if the delete was already committed
+   */
+  undo(key: string): boolean {
+    const entry = this.pending.get(key);
+    if (!entry) return false;
+
+    clearTimeout(entry.timer);
+    this.pending.delete(key);
+    entry.undo();
+    return true;
+  }
+
+  /**
+   * Commits a pending delete now
+   */
+  async flush(key: string): Promise<void> {
+    const entry = this.pending.get(key);
+    if (!entry) return;
+
+    clearTimeout(entry.timer);
+    this.pending.delete(key);
+    await entry.commit();
+  }
+
+  /**
+   * Commits every pending delete now
+   */
+  async flushAll(): Promise<void> {
+    await Promise.all(Array.from(this.pending.keys()).map((key) => this.flush(key)));
+  }
+
+  /**
+   * Commits pending deletes scheduled for pages other than the current one
+   * @param location - Route just navigated to
+   */
+  async flushOnNavigate(location: string): Promise<void> {
+    const keys = Array.from(this.pending.entries())
+      .filter(([, entry]) => entry.page !== location)
+      .map(([key]) => key);
+    await Promise.all(keys.map((key) => this.flush(key)));
+  }
+}
+
+export const pendingDeletes = new PendingDeleteQueue();
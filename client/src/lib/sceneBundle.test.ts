@@ -0,0 +1,176 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildSceneBundle,
+  importSceneBundle,
+  parseSceneBundle,
+  rollbackSceneImport,
+  sceneBundleFileName,
+  uniqueSceneName,
+  SceneBundleError,
+  SCENE_BUNDLE_FORMAT,
+} from "./sceneBundle";
+import type { LunchWithAPIClient } from "./lunchWithApi";
+import type { Cast, InsertCast, InsertScene, Scene } from "@shared/api-types";
+
+const bundle = (overrides: Record<string, unknown> = {}) => ({
+  format: SCENE_BUNDLE_FORMAT,
+  version: 1,
+  exportedAt: "2026-01-01T00:00:00.000Z",
+  source: { environment: "beta", userId: "account-1", sceneId: "scene-1" },
+  scene: { name: "Cafe", description: "Busy" },
+  cast: [{ role: "Host", goal: "Greet" }, { role: "Waiter" }],
+  ...overrides,
+});
+
+/**
+ * Stand-in for the API client: creates get sequential ids, roles listed in
+ * failRoles fail to create, and ids in failDeletes fail to delete
+ */
+function fakeClient({ failRoles = [] as string[], failDeletes = [] as string[], failScene = false } = {}) {
+  const calls: string[] = [];
+  let nextId = 1;
+  const fail = (what: string) => Promise.reject(new Error(`${what} failed`));
+
+  const client = {
+    async createScene(scene: InsertScene): Promise<Scene> {
+      calls.push(`createScene ${scene.name}`);
+      if (failScene) return fail("createScene");
+      return { ...scene, scene_id: `s${nextId++}` };
+    },
+    async createCast(sceneId: string, cast: InsertCast): Promise<Cast> {
+      calls.push(`createCast ${sceneId} ${cast.role}`);
+      if (failRoles.includes(cast.role)) return fail("createCast");
+      return { ...cast, cast_id: `k${nextId++}` };
+    },
+    async deleteCast(sceneId: string, castId: string) {
+      calls.push(`deleteCast ${sceneId} ${castId}`);
+      if (failDeletes.includes(castId)) return fail("deleteCast");
+    },
+    async deleteScene(sceneId: string) {
+      calls.push(`deleteScene ${sceneId}`);
+      if (failDeletes.includes(sceneId)) return fail("deleteScene");
+    },
+    withoutTrash() {
+      calls.push("withoutTrash");
+      return client;
+    },
+  };
+  return { client: client as unknown as LunchWithAPIClient, calls };
+}
+
+const noProgress = () => {};
+
+describe("parseSceneBundle", () => {
+  it("reads a bundle and fills in optional cast fields", () => {
+    const parsed = parseSceneBundle(JSON.stringify(bundle()));
+
+    assert.equal(parsed.scene.name, "Cafe");
+    assert.deepEqual(parsed.cast, [
+      { role: "Host", goal: "Greet", start: "" },
+      { role: "Waiter", goal: "", start: "" },
+    ]);
+  });
+
+  it("rejects text that is not JSON", () => {
+    assert.throws(() => parseSceneBundle("{"), (error: unknown) => {
+      return error instanceof SceneBundleError && /not valid JSON/.test(error.message);
+    });
+  });
+
+  it("rejects other JSON files", () => {
+    assert.throws(() => parseSceneBundle(JSON.stringify({ format: "lunchwith.account-backup", version: 1 })), /not a LunchWith.ai scene bundle/);
+    assert.throws(() => parseSceneBundle("[]"), /not a LunchWith.ai scene bundle/);
+  });
+
+  it("rejects bundles from a newer version", () => {
+    assert.throws(() => parseSceneBundle(JSON.stringify(bundle({ version: 2 }))), /version 2/);
+  });
+
+  it("rejects bundles with missing names", () => {
+    assert.throws(() => parseSceneBundle(JSON.stringify(bundle({ cast: [{ role: "" }] }))), (error: unknown) => {
+      return error instanceof SceneBundleError && /Cast role is required/.test(error.message);
+    });
+  });
+
+  it("reads back what buildSceneBundle writes, without deleted cast or ids", () => {
+    const scene: Scene = { scene_id: "scene-1", name: "Cafe", description: "Busy" };
+    const cast: Cast[] = [
+      { cast_id: "k1", scene_id: "scene-1", role: "Host", goal: "Greet", start: "Hello" },
+      { cast_id: "k2", scene_id: "scene-1", role: "Gone", goal: "", start: "", deleted: true },
+    ];
+
+    const built = buildSceneBundle(scene, cast, { environment: "beta", userId: "account-1" });
+
+    assert.deepEqual(parseSceneBundle(JSON.stringify(built)), built);
+    assert.deepEqual(built.cast, [{ role: "Host", goal: "Greet", start: "Hello" }]);
+    assert.equal(built.source.sceneId, "scene-1");
+  });
+});
+
+describe("bundle names", () => {
+  it("suggests names that do not collide", () => {
+    assert.equal(uniqueSceneName("Cafe", new Set()), "Cafe (imported)");
+    assert.equal(uniqueSceneName("Cafe", new Set(["Cafe (imported)", "Cafe (imported 2)"])), "Cafe (imported 3)");
+  });
+
+  it("makes file names from scene names", () => {
+    assert.equal(sceneBundleFileName("Lunch at the Cafe!"), "scene-lunch-at-the-cafe.json");
+    assert.equal(sceneBundleFileName("!!!"), "scene-untitled.json");
+  });
+});
+
+describe("importSceneBundle", () => {
+  it("creates the scene, then each cast member in order", async () => {
+    const { client, calls } = fakeClient();
+
+    const report = await importSceneBundle(client, parseSceneBundle(JSON.stringify(bundle())), "Cafe (imported)", noProgress);
+
+    assert.deepEqual(calls, ["createScene Cafe (imported)", "createCast s1 Host", "createCast s1 Waiter"]);
+    assert.equal(report.scene?.description, "Busy");
+    assert.deepEqual(report.created.map((cast) => cast.role), ["Host", "Waiter"]);
+    assert.deepEqual(report.failed, []);
+  });
+
+  it("keeps going past cast members that fail and reports them", async () => {
+    const { client } = fakeClient({ failRoles: ["Host"] });
+
+    const report = await importSceneBundle(client, parseSceneBundle(JSON.stringify(bundle())), "Cafe", noProgress);
+
+    assert.deepEqual(report.created.map((cast) => cast.role), ["Waiter"]);
+    assert.deepEqual(report.failed.map(({ cast }) => cast.role), ["Host"]);
+  });
+
+  it("stops when the scene cannot be created", async () => {
+    const { client, calls } = fakeClient({ failScene: true });
+
+    const report = await importSceneBundle(client, parseSceneBundle(JSON.stringify(bundle())), "Cafe", noProgress);
+
+    assert.equal(report.scene, undefined);
+    assert.ok(report.sceneError instanceof Error);
+    assert.deepEqual(calls, ["createScene Cafe"]);
+  });
+});
+
+describe("rollbackSceneImport", () => {
+  it("deletes the created cast and the scene without recording them in the Trash", async () => {
+    const { client, calls } = fakeClient();
+    const report = await importSceneBundle(client, parseSceneBundle(JSON.stringify(bundle())), "Cafe", noProgress);
+    calls.length = 0;
+
+    const rollback = await rollbackSceneImport(client, report);
+
+    assert.deepEqual(calls, ["withoutTrash", "deleteCast s1 k2", "deleteCast s1 k3", "deleteScene s1"]);
+    assert.deepEqual(rollback, { castFailed: [] });
+  });
+
+  it("keeps going past failed deletes and reports what is left", async () => {
+    const { client } = fakeClient({ failDeletes: ["k2", "s1"] });
+    const report = await importSceneBundle(client, parseSceneBundle(JSON.stringify(bundle())), "Cafe", noProgress);
+
+    const rollback = await rollbackSceneImport(client, report);
+
+    assert.deepEqual(rollback.castFailed.map(({ cast }) => cast.cast_id), ["k2"]);
+    assert.ok(rollback.sceneError instanceof Error);
+  });
+});
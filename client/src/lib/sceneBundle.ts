@@ -0,0 +1,254 @@
+/**
+ * Scene Bundles
+ *
+ * A scene bundle is a JSON file holding one scene and its cast members, used
+ * to move a scene between accounts or environments. Ids are not kept: import
+ * creates a new scene and new cast members in the selected account.
+ *
+ * Format (version 1):
+ * {
+ *   "format": "lunchwith.scene-bundle",
+ *   "version": 1,
+ *   "exportedAt": "<ISO timestamp>",
+ *   "source": { "environment": "beta", "userId": "<LWAI user_id>", "sceneId": "<scene_id>" },
+ *   "scene": { "name": "...", "description": "..." },
+ *   "cast": [{ "role": "...", "goal": "...", "start": "..." }]
+ * }
+ */
+
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import type { LunchWithAPIClient } from "@/lib/lunchWithApi";
+import type { Scene, Cast } from "@shared/api-types";
+
+export const SCENE_BUNDLE_FORMAT = "lunchwith.scene-bundle";
+export const SCENE_BUNDLE_VERSION = 1;
+
+const bundleCastSchema = z.object({
+  role: z.string().min(1, "Cast role is required"),
+  goal: z.string().default(""),
+  start: z.string().default(""),
+});
+
+const sceneBundleSchema = z.object({
+  format: z.literal(SCENE_BUNDLE_FORMAT),
+  version: z.literal(SCENE_BUNDLE_VERSION),
+  exportedAt: z.string(),
+  source: z.object({
+    environment: z.string(),
+    userId: z.string(),
+    sceneId: z.string(),
+  }),
+  scene: z.object({
+    name: z.string().min(1, "Scene name is required"),
+    description: z.string().default(""),
+  }),
+  cast: z.array(bundleCastSchema),
+});
+
+export type SceneBundle = z.infer<typeof sceneBundleSchema>;
+export type SceneBundleCast = z.infer<typeof bundleCastSchema>;
+
+/**
+ * Thrown when a file is not a scene bundle this version can import
+ */
+export class SceneBundleError extends Error {}
+
+/**
+ * Builds a bundle from a scene and its cast; deleted cast members are left out
+ */
+export function buildSceneBundle(
+  scene: Scene,
+  cast: Cast[],
+  source: { environment: string; userId: string }
+): SceneBundle {
+  return {
+    format: SCENE_BUNDLE_FORMAT,
+    version: SCENE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: { ...source, sceneId: scene.scene_id },
+    scene: { name: scene.name, description: scene.description },
+    cast: cast
+      .filter((member) => !member.deleted)
+      .map(({ role, goal, start }) => ({ role, goal, start })),
+  };
+}
+
+/**
+ * Parses and validates the text of a bundle file
+ * @throws SceneBundleError with a readable reason
+ */
+export function parseSceneBundle(text: string): SceneBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SceneBundleError("The file is not valid JSON.");
+  }
+
+  const header = z.object({ format: z.string(), version: z.number() }).safeParse(data);
+  if (!header.success || header.data.format !== SCENE_BUNDLE_FORMAT) {
+    throw new SceneBundleError("The file is not a LunchWith.ai scene bundle.");
+  }
+  if (header.data.version > SCENE_BUNDLE_VERSION) {
+    throw new SceneBundleError(
+      `The bundle is version ${header.data.version}, but this app only reads up to version ${SCENE_BUNDLE_VERSION}. Update the app and try again.`
+    );
+  }
+
+  const result = sceneBundleSchema.safeParse(data);
+  if (!result.success) {
+    throw new SceneBundleError(fromZodError(result.error, { prefix: "The bundle is invalid" }).message);
+  }
+  return result.data;
+}
+
+/**
+ * File name for an exported bundle, e.g. "scene-lunch-at-the-cafe.json"
+ */
+export function sceneBundleFileName(sceneName: string): string {
+  const slug = sceneName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `scene-${slug || "untitled"}.json`;
+}
+
+/**
+ * Saves JSON data as a file download
+ */
+export function downloadJson(fileName: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Suggests a scene name that does not collide with existing names,
+ * e.g. "Lunch (imported)", then "Lunch (imported 2)"
+ */
+export function uniqueSceneName(name: string, existingNames: Set<string>): string {
+  let candidate = `${name} (imported)`;
+  for (let n = 2; existingNames.has(candidate); n++) {
+    candidate = `${name} (imported ${n})`;
+  }
+  return candidate;
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+export interface SceneImportProgress {
+  completed: number;
+  total: number;
+  step: string;
+}
+
+export interface SceneImportReport {
+  // Undefined if the scene itself could not be created
+  scene?: Scene;
+  created: Cast[];
+  failed: Array<{ cast: SceneBundleCast; error: unknown }>;
+  sceneError?: unknown;
+}
+
+/**
+ * Creates the bundle's scene, then each cast member in order
+ * Cast failures do not stop the import; they are collected in the report so
+ * the caller can retry them or roll the scene back.
+ * @param client - Client for the account to import into (e.g. apiClient)
+ * @param sceneName - Name for the new scene (after collision handling)
+ */
+export async function importSceneBundle(
+  client: LunchWithAPIClient,
+  bundle: SceneBundle,
+  sceneName: string,
+  onProgress: (progress: SceneImportProgress) => void
+): Promise<SceneImportReport> {
+  const total = 1 + bundle.cast.length;
+  const report: SceneImportReport = { created: [], failed: [] };
+
+  onProgress({ completed: 0, total, step: `Creating scene "${sceneName}"` });
+  try {
+    report.scene = await client.createScene({ name: sceneName, description: bundle.scene.description });
+  } catch (error) {
+    report.sceneError = error;
+    return report;
+  }
+
+  const created = await createCastMembers(client, report.scene.scene_id, bundle.cast, (completed, step) =>
+    onProgress({ completed: 1 + completed, total, step })
+  );
+  return { ...report, ...created };
+}
+
+/**
+ * Creates cast members one by one in a scene, collecting failures
+ * Also used to retry the cast members that failed in an earlier import
+ */
+export async function createCastMembers(
+  client: LunchWithAPIClient,
+  sceneId: string,
+  cast: SceneBundleCast[],
+  onProgress: (completed: number, step: string) => void
+): Promise<Pick<SceneImportReport, "created" | "failed">> {
+  const created: Cast[] = [];
+  const failed: SceneImportReport["failed"] = [];
+
+  for (let index = 0; index < cast.length; index++) {
+    const member = cast[index];
+    onProgress(index, `Creating cast member "${member.role}"`);
+    try {
+      created.push(await client.createCast(sceneId, { scene_id: sceneId, ...member }));
+    } catch (error) {
+      failed.push({ cast: member, error });
+    }
+  }
+  onProgress(cast.length, "Done");
+
+  return { created, failed };
+}
+
+/**
+ * What a rollback could not remove
+ */
+export interface SceneRollbackReport {
+  castFailed: Array<{ cast: Cast; error: unknown }>;
+  // Set if the scene itself could not be deleted
+  sceneError?: unknown;
+}
+
+/**
+ * Removes a partially imported scene and the cast members created for it
+ * A failed delete does not stop the rollback; each failure is collected in
+ * the returned report. The deletes are not recorded in the Trash, since the
+ * items did not exist before the import.
+ */
+export async function rollbackSceneImport(
+  client: LunchWithAPIClient,
+  report: SceneImportReport
+): Promise<SceneRollbackReport> {
+  const rollback: SceneRollbackReport = { castFailed: [] };
+  if (!report.scene) return rollback;
+
+  const rollbackClient = client.withoutTrash();
+  const sceneId = report.scene.scene_id;
+  for (const cast of report.created) {
+    try {
+      await rollbackClient.deleteCast(sceneId, cast.cast_id);
+    } catch (error) {
+      rollback.castFailed.push({ cast, error });
+    }
+  }
+  try {
+    await rollbackClient.deleteScene(sceneId);
+  } catch (error) {
+    rollback.sceneError = error;
+  }
+  return rollback;
+}
@@ -0,0 +1,28 @@
+/**
+ * Story Response Delivery Client
+ *
+ * Generated story responses are delivered asynchronously to the account's
+ * SQS queue rather than returned by get_response_step. Our Express server
+ * collects relayed messages at /api/story-responses; this module reads them
+ * for the selected account and environment.
+ */
+
+import type { DeliveredStoryResponse } from "@shared/api-types";
+import { localApiRequest } from "./localApi";
+
+const DELIVERY_BASE_URL = "/api/story-responses";
+
+/**
+ * Fetches responses delivered for a story
+ * @param storyId - ID of the story
+ * @param since - Only return responses received at or after this ISO timestamp;
+ *   those already seen are returned again, so callers skip them by id
+ * @returns Delivered responses, oldest first
+ */
+export async function fetchDeliveredResponses(
+  storyId: string,
+  since?: string
+): Promise<DeliveredStoryResponse[]> {
+  const query = since ? `?since=${encodeURIComponent(since)}` : "";
+  return localApiRequest(`${DELIVERY_BASE_URL}/${storyId}${query}`);
+}
@@ -0,0 +1,158 @@
+/**
+ * Trash
+ *
+ * The API does not list or return soft-deleted items, so this client keeps
+ * its own record of what it deleted: each character, scene and cast member
+ * deleted through apiClient is stored with its content at the time, in
+ * localStorage per environment and LWAI account. The Trash page lists these
+ * records, so it only knows about deletes made from this browser.
+ *
+ * A record is removed when the item is restored, or recreated as a copy.
+ * When a scene is recreated, its cast members' records move to the new scene.
+ */
+
+import type { Character, Scene, Cast } from "@shared/api-types";
+
+const STORAGE_PREFIX = 'lwai_trash:';
+// Records kept per entity type; the oldest are dropped first
+const MAX_RECORDS = 200;
+
+export type TrashEntityType = 'character' | 'scene' | 'cast';
+
+export interface TrashRecord<T> {
+  item: T;
+  // ISO timestamp of the delete
+  deletedAt: string;
+}
+
+export interface CastTrashRecord extends TrashRecord<Cast> {
+  // Deleted along with its scene rather than on its own
+  withScene?: boolean;
+}
+
+export interface TrashContents {
+  characters: TrashRecord<Character>[];
+  scenes: TrashRecord<Scene>[];
+  cast: CastTrashRecord[];
+}
+
+/**
+ * Account and environment a record belongs to ("" environment for the server default)
+ */
+export interface TrashScope {
+  environment: string;
+  userId: string;
+}
+
+const listeners = new Set<() => void>();
+
+function storageKey({ environment, userId }: TrashScope): string {
+  return `${STORAGE_PREFIX}${environment || 'default'}:${userId}`;
+}
+
+const emptyTrash = (): TrashContents => ({ characters: [], scenes: [], cast: [] });
+
+/**
+ * Reads the deletes recorded for an account and environment, newest first
+ */
+export function readTrash(scope: TrashScope): TrashContents {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(storageKey(scope)) || 'null');
+    if (!parsed || typeof parsed !== 'object') return emptyTrash();
+    return {
+      characters: Array.isArray(parsed.characters) ? parsed.characters : [],
+      scenes: Array.isArray(parsed.scenes) ? parsed.scenes : [],
+      cast: Array.isArray(parsed.cast) ? parsed.cast : [],
+    };
+  } catch {
+    return emptyTrash();
+  }
+}
+
+function updateTrash(scope: TrashScope, update: (trash: TrashContents) => TrashContents) {
+  const trash = update(readTrash(scope));
+  localStorage.setItem(storageKey(scope), JSON.stringify({
+    characters: trash.characters.slice(0, MAX_RECORDS),
+    scenes: trash.scenes.slice(0, MAX_RECORDS),
+    cast: trash.cast.slice(0, MAX_RECORDS),
+  }));
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Calls listener whenever a record is added or removed
+ * @returns Function that unsubscribes
+ */
+export function subscribeTrash(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Records a deleted character, scene or cast member
+ * A scene's cast members deleted along with it are passed as sceneCast.
+ */
+export function recordDeletion(
+  scope: TrashScope,
+  deleted:
+    | { entityType: 'character'; item: Character }
+    | { entityType: 'scene'; item: Scene; sceneCast?: Cast[] }
+    | { entityType: 'cast'; item: Cast },
+) {
+  const deletedAt = new Date().toISOString();
+  updateTrash(scope, (trash) => {
+    switch (deleted.entityType) {
+      case 'character': {
+        const { item } = deleted;
+        const rest = trash.characters.filter((record) => record.item.character_id !== item.character_id);
+        return { ...trash, characters: [{ item, deletedAt }, ...rest] };
+      }
+      case 'scene': {
+        const { item, sceneCast = [] } = deleted;
+        const castIds = new Set(sceneCast.map((member) => member.cast_id));
+        const rest = trash.cast.filter((record) => !castIds.has(record.item.cast_id));
+        return {
+          ...trash,
+          scenes: [{ item, deletedAt }, ...trash.scenes.filter((record) => record.item.scene_id !== item.scene_id)],
+          cast: [...sceneCast.map((member) => ({ item: member, deletedAt, withScene: true })), ...rest],
+        };
+      }
+      case 'cast': {
+        const { item } = deleted;
+        const rest = trash.cast.filter((record) => record.item.cast_id !== item.cast_id);
+        return { ...trash, cast: [{ item, deletedAt }, ...rest] };
+      }
+    }
+  });
+}
+
+/**
+ * Removes an item's record, e.g. once it has been restored
+ */
+export function removeFromTrash(scope: TrashScope, entityType: TrashEntityType, id: string) {
+  updateTrash(scope, (trash) => {
+    switch (entityType) {
+      case 'character':
+        return { ...trash, characters: trash.characters.filter((record) => record.item.character_id !== id) };
+      case 'scene':
+        return { ...trash, scenes: trash.scenes.filter((record) => record.item.scene_id !== id) };
+      case 'cast':
+        return { ...trash, cast: trash.cast.filter((record) => record.item.cast_id !== id) };
+    }
+  });
+}
+
+/**
+ * Points the records of a scene's cast members at another scene, e.g. once
+ * the scene has been recreated with a new id
+ */
+export function moveTrashedCast(scope: TrashScope, fromSceneId: string, toSceneId: string) {
+  updateTrash(scope, (trash) => ({
+    ...trash,
+    cast: trash.cast.map((record) =>
+      record.item.scene_id === fromSceneId ? { ...record, item: { ...record.item, scene_id: toSceneId } } : record
+    ),
+  }));
+}
@@ -0,0 +1,76 @@
+/**
+ * Unsaved Changes Guard
+ *
+ * Forms with unsaved changes register here while they are open. Reloading or
+ * closing the tab, and moving with the browser's back/forward buttons, then
+ * ask for confirmation first. In-app links cannot be reached while a form is
+ * open, since form dialogs are modal.
+ */
+
+const LEAVE_MESSAGE =
+  "You have unsaved changes. Leave this page anyway? Your draft is kept and offered again when you reopen the form.";
+
+// Ids of forms with unsaved changes, e.g. draft keys
+const unsavedForms = new Set<string>();
+
+/**
+ * Registers a form as having unsaved changes
+ * @returns Function that unregisters it
+ */
+export function markUnsaved(id: string): () => void {
+  unsavedForms.add(id);
+  return () => {
+    unsavedForms.delete(id);
+  };
+}
+
+export function hasUnsavedChanges(): boolean {
+  return unsavedForms.size > 0;
+}
+
+/**
+ * Asks whether to leave despite unsaved changes
+ * @returns true if there are none, or the user confirmed
+ */
+export function confirmLeave(): boolean {
+  return !hasUnsavedChanges() || window.confirm(LEAVE_MESSAGE);
+}
+
+/**
+ * Installs the reload/close and back/forward guards
+ * Back/forward cannot be cancelled, so a declined move is undone by pushing
+ * the previous URL again (the router follows history.pushState).
+ * @returns Function that removes the guards
+ */
+export function installUnsavedChangesGuard(): () => void {
+  let currentUrl = window.location.href;
+  const trackUrl = () => {
+    currentUrl = window.location.href;
+  };
+
+  const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+    if (!hasUnsavedChanges()) return;
+    event.preventDefault();
+    event.returnValue = LEAVE_MESSAGE;
+  };
+
+  const handlePopState = () => {
+    if (currentUrl !== window.location.href && !confirmLeave()) {
+      window.history.pushState(window.history.state, "", currentUrl);
+      return;
+    }
+    trackUrl();
+  };
+
+  // pushState and replaceState events are emitted by the router (wouter)
+  window.addEventListener("beforeunload", handleBeforeUnload);
+  window.addEventListener("popstate", handlePopState);
+  window.addEventListener("pushState", trackUrl);
+  window.addEventListener("replaceState", trackUrl);
+  return () => {
+    window.removeEventListener("beforeunload", handleBeforeUnload);
+    window.removeEventListener("popstate", handlePopState);
+    window.removeEventListener("pushState", trackUrl);
+    window.removeEventListener("replaceState", trackUrl);
+  };
+}
@@ -0,0 +1,451 @@
+/**
+ * Account Sync Page Component
+ *
+ * Compares two accounts, or one account in two environments, and pushes
+ * selected differences between them (see lib/accountSync).
+ * Features:
+ * - Pick the account and environment for each side
+ * - Three-column diff per characters, scenes and cast: left version,
+ *   difference (added/changed/removed, with the changed fields), right version
+ * - Per item, push left to right, right to left, or leave it
+ * - Warning before pushing into a production environment
+ * - Per-item results; the comparison is refreshed after each sync
+ *
+ * Both sides are read and written through apiClient.withTarget, so the
+ * selected account and environment in the header are not changed.
+ */
+
+import { useState, useMemo } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, AlertTriangle, ArrowLeftRight, CheckCircle2, Loader2 } from "lucide-react";
+import ErrorDetails from "@/components/ErrorDetails";
+import { cognitoAuth } from "@/lib/cognitoAuth";
+import { apiClient } from "@/lib/lunchWithApi";
+import {
+  applySyncActions,
+  describeAction,
+  diffSnapshots,
+  loadSnapshot,
+  type DiffEntry,
+  type SyncAction,
+  type SyncActionResult,
+  type SyncProgress,
+  type SyncSide,
+  type SyncSideName,
+} from "@/lib/accountSync";
+import type { EnvironmentOption } from "@/lib/environment";
+import { useRefreshAllAccountData } from "@/hooks/use-lunchwith";
+import { useToast } from "@/hooks/use-toast";
+import type { UserAccount } from "@shared/api-types";
+
+interface AccountSyncProps {
+  // All accounts of the signed-in user, used for contact names
+  accounts: UserAccount[];
+  environments: EnvironmentOption[];
+  // Environment selected in the header, the default for both sides
+  environment: string;
+}
+
+// Per diff entry: the side to push from, or "" to leave it
+type Selections = Record<string, SyncSideName | "">;
+
+const STATUS_LABELS = { added: "Only on left", changed: "Changed", removed: "Only on right" } as const;
+
+const SECTIONS = [
+  { kind: "character", title: "Characters" },
+  { kind: "scene", title: "Scenes" },
+  { kind: "cast", title: "Cast" },
+] as const;
+
+// Fields shown for each kind of item
+const ITEM_FIELDS = {
+  character: ["name", "description", "motivation"],
+  scene: ["name", "description"],
+  cast: ["role", "goal", "start"],
+} as const;
+
+// ============================================================================
+// SIDE PICKER
+// ============================================================================
+
+interface SidePickerProps {
+  label: string;
+  side: SyncSide;
+  onChange: (side: SyncSide) => void;
+  accountLabel: (userId: string) => string;
+  environments: EnvironmentOption[];
+  testId: string;
+}
+
+/**
+ * Account and environment selects for one side
+ */
+function SidePicker({ label, side, onChange, accountLabel, environments, testId }: SidePickerProps) {
+  return (
+    <div className="space-y-3 flex-1" data-testid={testId}>
+      <p className="text-sm font-semibold">{label}</p>
+      <div className="space-y-2">
+        <Label>Account</Label>
+        <Select value={side.userId} onValueChange={(userId) => onChange({ ...side, userId })}>
+          <SelectTrigger data-testid={`${testId}-account`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {cognitoAuth.getAvailableUserIds().map((id) => (
+              <SelectItem key={id} value={id}>
+                {accountLabel(id)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Environment</Label>
+        <Select value={side.environment} onValueChange={(environment) => onChange({ ...side, environment })}>
+          <SelectTrigger data-testid={`${testId}-environment`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {environments.map((option) => (
+              <SelectItem key={option.name} value={option.name}>
+                {option.label}
+                {option.production && <span className="text-destructive"> (production)</span>}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// DIFF ROW
+// ============================================================================
+
+/**
+ * One side's version of an item, with changed fields highlighted
+ */
+function ItemVersion({ entry, side }: { entry: DiffEntry; side: SyncSideName }) {
+  const item = entry[side] as Record<string, unknown> | undefined;
+  if (!item) {
+    return <p className="text-sm text-muted-foreground italic">Not present</p>;
+  }
+
+  return (
+    <div className="space-y-1 text-sm min-w-0">
+      {ITEM_FIELDS[entry.kind].map((field) => (
+        <div
+          key={field}
+          className={entry.fields.includes(field) ? "rounded-sm bg-accent px-1 -mx-1" : undefined}
+          data-testid={`text-${side}-${field}`}
+        >
+          <span className="text-muted-foreground">{field} </span>
+          <span className="break-words">{String(item[field] ?? "")}</span>
+        </div>
+      ))}
+      {entry.kind === "scene" && entry[side] && (
+        <p className="text-muted-foreground">{entry[side]!.cast.length} cast members</p>
+      )}
+    </div>
+  );
+}
+
+interface DiffRowProps {
+  entry: DiffEntry;
+  from: SyncSideName | "";
+  onChange: (from: SyncSideName | "") => void;
+  disabled: boolean;
+}
+
+function DiffRow({ entry, from, onChange, disabled }: DiffRowProps) {
+  return (
+    <Card data-testid={`diff-${entry.key}`}>
+      <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-[1fr_16rem_1fr] gap-4">
+        <ItemVersion entry={entry} side="left" />
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant={entry.status === "changed" ? "secondary" : "outline"}>{STATUS_LABELS[entry.status]}</Badge>
+            <span className="text-sm font-medium truncate">{entry.name}</span>
+          </div>
+          {entry.kind === "cast" && <p className="text-xs text-muted-foreground">In scene "{entry.sceneName}"</p>}
+          {entry.fields.length > 0 && (
+            <p className="text-xs text-muted-foreground">Differs in {entry.fields.join(", ")}</p>
+          )}
+          <Select value={from || "none"} onValueChange={(value) => onChange(value === "none" ? "" : (value as SyncSideName))} disabled={disabled}>
+            <SelectTrigger className="h-8 text-xs" data-testid={`select-push-${entry.key}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Leave as is</SelectItem>
+              <SelectItem value="left">Push left → right ({describeAction({ entry, from: "left" })})</SelectItem>
+              <SelectItem value="right">Push right → left ({describeAction({ entry, from: "right" })})</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <ItemVersion entry={entry} side="right" />
+      </CardContent>
+    </Card>
+  );
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+export default function AccountSync({ accounts, environments, environment }: AccountSyncProps) {
+  const { toast } = useToast();
+  const refreshAllAccountData = useRefreshAllAccountData();
+
+  const currentUserId = cognitoAuth.getSelectedUserId();
+  const otherEnvironment = environments.find((option) => option.name !== environment)?.name ?? environment;
+
+  const [sides, setSides] = useState<Record<SyncSideName, SyncSide>>({
+    left: { userId: currentUserId, environment },
+    right: { userId: currentUserId, environment: otherEnvironment },
+  });
+  const [entries, setEntries] = useState<DiffEntry[] | null>(null);
+  const [selections, setSelections] = useState<Selections>({});
+  const [isComparing, setIsComparing] = useState(false);
+  const [compareStep, setCompareStep] = useState("");
+  const [compareError, setCompareError] = useState<unknown>(null);
+  const [progress, setProgress] = useState<SyncProgress | null>(null);
+  const [results, setResults] = useState<SyncActionResult[]>([]);
+
+  const accountLabel = (userId: string) => {
+    const account = accounts.find((entry) => entry.user_id === userId);
+    return account?.contactName ? `${account.contactName} (${userId})` : userId;
+  };
+  const environmentOf = (name: string) => environments.find((option) => option.name === name);
+
+  const sameSide = sides.left.userId === sides.right.userId && sides.left.environment === sides.right.environment;
+
+  const actions: SyncAction[] = useMemo(
+    () =>
+      (entries ?? []).flatMap((entry) => {
+        const from = selections[entry.key];
+        return from ? [{ entry, from }] : [];
+      }),
+    [entries, selections]
+  );
+
+  // Environments that selected pushes would write to
+  const productionTargets = Array.from(
+    new Set(
+      actions
+        .map((action) => sides[action.from === "left" ? "right" : "left"].environment)
+        .filter((name) => environmentOf(name)?.production)
+    )
+  );
+
+  const changeSide = (name: SyncSideName, side: SyncSide) => {
+    setSides((current) => ({ ...current, [name]: side }));
+    setEntries(null);
+    setSelections({});
+    setResults([]);
+  };
+
+  const compare = async () => {
+    setIsComparing(true);
+    setCompareError(null);
+    try {
+      setCompareStep("Reading left side");
+      const left = await loadSnapshot(apiClient, sides.left, (p) => setCompareStep(`Left: ${p.step}`));
+      const right = await loadSnapshot(apiClient, sides.right, (p) => setCompareStep(`Right: ${p.step}`));
+      setEntries(diffSnapshots(left, right));
+      setSelections({});
+    } catch (error) {
+      setEntries(null);
+      setCompareError(error);
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    setResults([]);
+    await compare();
+  };
+
+  const handleApply = async () => {
+    const synced = await applySyncActions(apiClient, actions, sides, setProgress);
+    setProgress(null);
+    setResults(synced);
+
+    const failedCount = synced.filter((result) => result.error !== undefined).length;
+    toast({
+      title: failedCount === 0 ? "Sync complete" : "Sync partly failed",
+      description: `${synced.length - failedCount} of ${synced.length} changes pushed.`,
+      variant: failedCount === 0 ? "default" : "destructive",
+    });
+
+    await refreshAllAccountData();
+    await compare();
+  };
+
+  const failedResults = results.filter((result) => result.error !== undefined);
+  const isApplying = progress !== null;
+
+  return (
+    <div className="max-w-7xl mx-auto px-8 py-6 space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold">Account Sync</h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Compare characters, scenes and cast between two accounts or environments, and push selected differences
+          either way. Items are matched by name; deletes can be undone from the Trash of the affected account.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-col md:flex-row gap-6 md:items-end">
+            <SidePicker
+              label="Left"
+              side={sides.left}
+              onChange={(side) => changeSide("left", side)}
+              accountLabel={accountLabel}
+              environments={environments}
+              testId="sync-left"
+            />
+            <ArrowLeftRight className="hidden md:block w-5 h-5 mb-2.5 text-muted-foreground shrink-0" />
+            <SidePicker
+              label="Right"
+              side={sides.right}
+              onChange={(side) => changeSide("right", side)}
+              accountLabel={accountLabel}
+              environments={environments}
+              testId="sync-right"
+            />
+          </div>
+          <div className="flex items-center gap-4">
+            <Button onClick={handleCompare} disabled={sameSide || isComparing || isApplying} data-testid="button-compare">
+              {isComparing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Compare
+            </Button>
+            {sameSide && <p className="text-sm text-muted-foreground">Choose a different account or environment for one side.</p>}
+            {isComparing && (
+              <p className="text-sm text-muted-foreground" data-testid="text-compare-progress">
+                {compareStep}
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {compareError !== null && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Comparison failed</AlertTitle>
+          <AlertDescription>
+            <ErrorDetails error={compareError} />
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {results.length > 0 &&
+        (failedResults.length === 0 ? (
+          <Alert data-testid="sync-results">
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertTitle>Pushed {results.length} changes</AlertTitle>
+            <AlertDescription>The comparison below has been refreshed.</AlertDescription>
+          </Alert>
+        ) : (
+          <Alert variant="destructive" data-testid="sync-results">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>
+              {failedResults.length} of {results.length} changes failed
+            </AlertTitle>
+            <AlertDescription>
+              <ul className="space-y-2 mt-2">
+                {failedResults.map(({ action, error }) => (
+                  <li key={action.entry.key} className="space-y-1">
+                    <p className="font-medium">
+                      {describeAction(action)}: "{action.entry.name}"
+                    </p>
+                    <ErrorDetails error={error} />
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        ))}
+
+      {entries !== null && entries.length === 0 && (
+        <div className="text-center py-16" data-testid="text-no-differences">
+          <p className="text-lg font-medium mb-2">No differences</p>
+          <p className="text-sm text-muted-foreground">Both sides have the same characters, scenes and cast</p>
+        </div>
+      )}
+
+      {entries !== null && entries.length > 0 && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_16rem_1fr] gap-4 px-6 text-sm font-semibold">
+            <p>
+              Left: {accountLabel(sides.left.userId)} ({environmentOf(sides.left.environment)?.label ?? sides.left.environment})
+            </p>
+            <p>Difference</p>
+            <p>
+              Right: {accountLabel(sides.right.userId)} ({environmentOf(sides.right.environment)?.label ?? sides.right.environment})
+            </p>
+          </div>
+
+          {SECTIONS.map(({ kind, title }) => {
+            const sectionEntries = entries.filter((entry) => entry.kind === kind);
+            if (sectionEntries.length === 0) return null;
+            return (
+              <section key={kind} className="space-y-3" data-testid={`diff-section-${kind}`}>
+                <h3 className="text-lg font-semibold">
+                  {title} <span className="text-muted-foreground font-normal">({sectionEntries.length})</span>
+                </h3>
+                {sectionEntries.map((entry) => (
+                  <DiffRow
+                    key={entry.key}
+                    entry={entry}
+                    from={selections[entry.key] ?? ""}
+                    onChange={(from) => setSelections((current) => ({ ...current, [entry.key]: from }))}
+                    disabled={isApplying}
+                  />
+                ))}
+              </section>
+            );
+          })}
+
+          <Card className="sticky bottom-4">
+            <CardContent className="pt-6 space-y-3">
+              {productionTargets.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Pushing into production</AlertTitle>
+                  <AlertDescription>
+                    Some selected changes write to {productionTargets.map((name) => environmentOf(name)?.label ?? name).join(", ")}.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {isApplying && progress && (
+                <div className="space-y-2">
+                  <Progress value={(progress.completed / Math.max(progress.total, 1)) * 100} />
+                  <p className="text-sm text-muted-foreground" data-testid="text-sync-progress">
+                    {progress.step} ({progress.completed}/{progress.total})
+                  </p>
+                </div>
+              )}
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">{actions.length} changes selected</p>
+                <Button onClick={handleApply} disabled={actions.length === 0 || isApplying || isComparing} data-testid="button-apply-sync">
+                  {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Push {actions.length} {actions.length === 1 ? "Change" : "Changes"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+/**
+ * Audit Page Component
+ *
+ * Shows the proxy's audit log of mutating calls (see server/audit.ts), to
+ * answer questions like "who changed this scene yesterday".
+ * Features:
+ * - Filters by account, caller (Cognito sub or username), entity type,
+ *   entity ID and date range, with Today/Yesterday shortcuts
+ * - One row per call: time, caller, account, environment, method and
+ *   endpoint, status and latency
+ * - Click a row to see its request body (secrets are redacted by the server)
+ *
+ * The log spans all accounts and environments; callers who are not admins
+ * only see entries for their own accounts.
+ */
+
+import { Fragment, useEffect, useState, type FormEvent } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Loader2, RefreshCw } from "lucide-react";
+import ErrorDetails from "@/components/ErrorDetails";
+import { cognitoAuth } from "@/lib/cognitoAuth";
+import { dayRange } from "@/lib/auditLog";
+import { useAuditLog } from "@/hooks/use-lunchwith";
+import { useToast } from "@/hooks/use-toast";
+import type { AuditLogFilters, UserAccount } from "@shared/api-types";
+
+interface AuditProps {
+  // All accounts of the signed-in user, used for contact names
+  accounts: UserAccount[];
+}
+
+// Filter form; "all" selects no account or entity type
+interface FilterForm {
+  userId: string;
+  user: string;
+  entityType: string;
+  entityId: string;
+  // Local calendar days, "YYYY-MM-DD"
+  from: string;
+  to: string;
+}
+
+const ENTITY_TYPES = [
+  { value: "character", label: "Characters" },
+  { value: "scene", label: "Scenes" },
+  { value: "cast", label: "Cast" },
+  { value: "story", label: "Stories" },
+  { value: "user", label: "Account settings" },
+];
+
+const EMPTY_FORM: FilterForm = { userId: "all", user: "", entityType: "all", entityId: "", from: "", to: "" };
+
+/**
+ * A local calendar day as "YYYY-MM-DD"
+ * @param offset - Days from today, e.g. -1 for yesterday
+ */
+function localDay(offset = 0): string {
+  const date = new Date();
+  date.setDate(date.getDate() + offset);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function toFilters(form: FilterForm): AuditLogFilters {
+  return {
+    userId: form.userId === "all" ? undefined : form.userId,
+    user: form.user.trim() || undefined,
+    entityType: form.entityType === "all" ? undefined : form.entityType,
+    entityId: form.entityId.trim() || undefined,
+    ...dayRange(form.from, form.to),
+  };
+}
+
+export default function Audit({ accounts }: AuditProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<FilterForm>(EMPTY_FORM);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: entries, isLoading, isFetching, error, refetch } = useAuditLog(filters);
+
+  // Report load failures
+  useEffect(() => {
+    if (!error) return;
+    toast({
+      title: "Error loading audit log",
+      description: <ErrorDetails error={error} />,
+      variant: "destructive",
+    });
+  }, [error]);
+
+  const accountLabel = (userId: string) => {
+    const account = accounts.find((entry) => entry.user_id === userId);
+    return account?.contactName ? `${account.contactName} (${userId})` : userId;
+  };
+
+  const updateForm = (changes: Partial<FilterForm>) => setForm((current) => ({ ...current, ...changes }));
+
+  const applyForm = (next: FilterForm) => {
+    setForm(next);
+    setFilters(toFilters(next));
+    setExpandedId(null);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    applyForm(form);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-8 py-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Audit Log</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Every create, update and delete sent through this app, with who sent it and how it went.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching} data-testid="button-refresh-audit">
+          <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSubmit} className="space-y-4" data-testid="form-audit-filters">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Account</Label>
+                <Select value={form.userId} onValueChange={(userId) => updateForm({ userId })}>
+                  <SelectTrigger data-testid="select-audit-account">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All accounts</SelectItem>
+                    {cognitoAuth.getAvailableUserIds().map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {accountLabel(id)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-user">Changed by</Label>
+                <Input
+                  id="audit-user"
+                  value={form.user}
+                  onChange={(event) => updateForm({ user: event.target.value })}
+                  placeholder="Cognito sub or username"
+                  data-testid="input-audit-user"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Entity type</Label>
+                <Select value={form.entityType} onValueChange={(entityType) => updateForm({ entityType })}>
+                  <SelectTrigger data-testid="select-audit-entity-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All types</SelectItem>
+                    {ENTITY_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-entity-id">Entity ID</Label>
+                <Input
+                  id="audit-entity-id"
+                  value={form.entityId}
+                  onChange={(event) => updateForm({ entityId: event.target.value })}
+                  placeholder="e.g. a scene ID"
+                  data-testid="input-audit-entity-id"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={form.from}
+                  onChange={(event) => updateForm({ from: event.target.value })}
+                  data-testid="input-audit-from"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={form.to}
+                  onChange={(event) => updateForm({ to: event.target.value })}
+                  data-testid="input-audit-to"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button type="submit" data-testid="button-apply-audit-filters">
+                Apply Filters
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => applyForm({ ...form, from: localDay(), to: localDay() })}
+                data-testid="button-audit-today"
+              >
+                Today
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => applyForm({ ...form, from: localDay(-1), to: localDay(-1) })}
+                data-testid="button-audit-yesterday"
+              >
+                Yesterday
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => applyForm(EMPTY_FORM)} data-testid="button-clear-audit-filters">
+                Clear
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : !entries || entries.length === 0 ? (
+        <div className="text-center py-16" data-testid="audit-empty">
+          <p className="text-lg font-medium mb-2">No matching calls</p>
+          <p className="text-sm text-muted-foreground">Creates, updates and deletes will appear here</p>
+        </div>
+      ) : (
+        <Card>
+          <Table data-testid="table-audit">
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Time</TableHead>
+                <TableHead>Changed by</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>Request</TableHead>
+                <TableHead className="w-24">Status</TableHead>
+                <TableHead className="w-24 text-right">Latency</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const expanded = expandedId === entry.id;
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(expanded ? null : entry.id)}
+                      data-testid={`audit-entry-${entry.id}`}
+                    >
+                      <TableCell>
+                        {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <p>{entry.author}</p>
+                        {entry.sub !== entry.author && (
+                          <p className="text-xs text-muted-foreground font-mono">{entry.sub}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <p>{accountLabel(entry.userId)}</p>
+                        <p className="text-xs text-muted-foreground">{entry.environment}</p>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2 min-w-0">
+                          <Badge variant="outline">{entry.method}</Badge>
+                          <span className="font-mono text-sm break-all">{entry.endpoint}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={entry.status < 400 ? "secondary" : "destructive"}>{entry.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{entry.latencyMs} ms</TableCell>
+                    </TableRow>
+                    {expanded && (
+                      <TableRow data-testid={`audit-entry-body-${entry.id}`}>
+                        <TableCell />
+                        <TableCell colSpan={6}>
+                          {entry.requestBody === null ? (
+                            <p className="text-sm text-muted-foreground">No request body</p>
+                          ) : (
+                            <pre className="text-xs font-mono bg-muted rounded-md p-3 overflow-x-auto whitespace-pre-wrap break-all">
+                              {JSON.stringify(entry.requestBody, null, 2)}
+                            </pre>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -5,10 +5,13 @@
  * Features:
  * - View complete character information (name, description, motivation)
  * - Edit character using a dialog form
- * - Delete character with confirmation dialog
+ * - Delete character with confirmation dialog, undoable for a few seconds from the toast
+ * - Copy the character into another of the user's accounts
+ * - History tab with every recorded change and "revert to this version"
  * - Icon-based actions with tooltips
  * - Loading state while fetching data
  * - Automatic navigation back to characters list after deletion
+ * - Opens instantly from the characters list via the shared query cache
  * 
  * Dialogs:
  * - Character edit form
@@ -19,16 +22,21 @@ import { useState, useEffect } from "react";
 import { useRoute, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { ChevronLeft, Edit, Trash2, Loader2 } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChevronLeft, Edit, Trash2, Loader2, Send } from "lucide-react";
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import CharacterForm from "@/components/CharacterForm";
-import { apiClient } from "@/lib/lunchWithApi";
+import EntityHistory from "@/components/EntityHistory";
+import CopyToAccountDialog, { canCopyToAccount } from "@/components/CopyToAccountDialog";
+import { useCharacter, useUpdateCharacter, useDeleteCharacter, useHideDeleted } from "@/hooks/use-lunchwith";
 import { useToast } from "@/hooks/use-toast";
-import type { Character } from "@shared/api-types";
+import { useUndoableDelete } from "@/hooks/use-undoable-delete";
+import ErrorDetails from "@/components/ErrorDetails";
+import type { Character, UserAccount } from "@shared/api-types";
 import IdDisplay from "@/components/IdDisplay";
 import {
   AlertDialog,
@@ -41,44 +49,37 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-export default function CharacterDetail() {
+interface CharacterDetailProps {
+  // All accounts of the signed-in user, offered as copy targets
+  accounts: UserAccount[];
+}
+
+export default function CharacterDetail({ accounts }: CharacterDetailProps) {
   const [, params] = useRoute("/characters/:id");
   const [, setLocation] = useLocation();
   
-  const [character, setCharacter] = useState<Character | null>(null);
   const [formOpen, setFormOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
+  const [copyOpen, setCopyOpen] = useState(false);
   
   const { toast } = useToast();
   const characterId = params?.id || "";
 
-  /**
-   * Loads character data from the API
-   * Only executes if characterId is present
-   */
-  const loadCharacter = async () => {
-    if (!characterId) return;
-    
-    try {
-      setIsLoading(true);
-      const data = await apiClient.getCharacter(characterId);
-      setCharacter(data);
-    } catch (error) {
-      toast({
-        title: "Error loading character",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const { data: character, isLoading, error: loadError } = useCharacter(characterId);
+  const updateCharacter = useUpdateCharacter();
+  const deleteCharacter = useDeleteCharacter();
+  const hideDeleted = useHideDeleted();
+  const scheduleDelete = useUndoableDelete();
 
-  // Load character data when component mounts or characterId changes
+  // Report load failures
   useEffect(() => {
-    loadCharacter();
-  }, [characterId]);
+    if (!loadError) return;
+    toast({
+      title: "Error loading character",
+      description: <ErrorDetails error={loadError} />,
+      variant: "destructive",
+    });
+  }, [loadError]);
 
   /**
    * Navigates back to the characters list page
@@ -97,26 +98,27 @@ export default function CharacterDetail() {
   /**
    * Saves character updates
    * @param characterData - Partial character data from the form
+   * @returns Whether it was saved (the form keeps its draft otherwise)
    */
-  const handleSave = async (characterData: Partial<Character>) => {
+  const handleSave = async (characterData: Partial<Character>): Promise<boolean> => {
     try {
       if (characterData.character_id) {
         // Exclude character_id from the body as it should only be in the URL
         const { character_id, ...updateData } = characterData;
-        await apiClient.updateCharacter(character_id, updateData);
+        await updateCharacter.mutateAsync({ characterId: character_id, updates: updateData });
         toast({
           title: "Character updated",
           description: "The character has been updated successfully.",
         });
-        // Reload character data to show the updates
-        await loadCharacter();
       }
+      return true;
     } catch (error) {
       toast({
         title: "Error updating character",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
+        description: <ErrorDetails error={error} />,
         variant: "destructive",
       });
+      return false;
     }
   };
 
@@ -128,27 +130,23 @@ export default function CharacterDetail() {
   };
 
   /**
-   * Confirms and executes character deletion
-   * Navigates back to characters list on success
+   * Confirms character deletion
+   * Hides the character and navigates back to the characters list; the DELETE
+   * is sent once the undo window passes
    */
-  const handleDeleteConfirm = async () => {
+  const handleDeleteConfirm = () => {
     if (!character) return;
 
-    try {
-      await apiClient.deleteCharacter(character.character_id);
-      toast({
-        title: "Character deleted",
-        description: "The character has been deleted successfully.",
-      });
-      // Navigate back to characters list after successful deletion
-      setLocation("/characters");
-    } catch (error) {
-      toast({
-        title: "Error deleting character",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
-        variant: "destructive",
-      });
-    }
+    const characterId = character.character_id;
+    scheduleDelete({
+      key: `character:${characterId}`,
+      title: "Character deleted",
+      label: "character",
+      page: "/characters",
+      hide: () => hideDeleted.character(characterId),
+      commit: () => deleteCharacter.mutateAsync(characterId),
+    });
+    setLocation("/characters");
   };
 
   if (isLoading || !character) {
@@ -174,60 +172,100 @@ export default function CharacterDetail() {
         <h2 className="text-3xl font-bold">{character.name}</h2>
       </div>
 
-      <div className="space-y-8">
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-start justify-between gap-4 mb-3">
-              <h3 className="text-base font-semibold">Character Information</h3>
-              <div className="flex gap-1">
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={handleEdit}
-                      className="h-7 w-7"
-                      data-testid="button-edit-character"
-                    >
-                      <Edit className="w-3.5 h-3.5" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Edit character</p>
-                  </TooltipContent>
-                </Tooltip>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={handleDeleteClick}
-                      className="h-7 w-7"
-                      data-testid="button-delete-character"
-                    >
-                      <Trash2 className="w-3.5 h-3.5" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Delete character</p>
-                  </TooltipContent>
-                </Tooltip>
-              </div>
-            </div>
-            <div className="space-y-1.5 text-sm">
-              <IdDisplay id={character.character_id} label="ID" testId="text-character-detail-id" />
-              <div>
-                <span className="text-muted-foreground">Description </span>
-                <span className="text-foreground line-clamp-2">{character.description}</span>
-              </div>
-              <div>
-                <span className="text-muted-foreground">Motivation </span>
-                <span className="text-foreground line-clamp-2">{character.motivation}</span>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+      <Tabs defaultValue="details">
+        <TabsList className="mb-6">
+          <TabsTrigger value="details" data-testid="tab-character-details">
+            Details
+          </TabsTrigger>
+          <TabsTrigger value="history" data-testid="tab-character-history">
+            History
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details">
+          <div className="space-y-8">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <h3 className="text-base font-semibold">Character Information</h3>
+                  <div className="flex gap-1">
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={handleEdit}
+                          className="h-7 w-7"
+                          data-testid="button-edit-character"
+                        >
+                          <Edit className="w-3.5 h-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Edit character</p>
+                      </TooltipContent>
+                    </Tooltip>
+                    {canCopyToAccount() && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setCopyOpen(true)}
+                            className="h-7 w-7"
+                            data-testid="button-copy-character-to-account"
+                          >
+                            <Send className="w-3.5 h-3.5" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Copy to account…</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={handleDeleteClick}
+                          className="h-7 w-7"
+                          data-testid="button-delete-character"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Delete character</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+                </div>
+                <div className="space-y-1.5 text-sm">
+                  <IdDisplay id={character.character_id} label="ID" testId="text-character-detail-id" />
+                  <div>
+                    <span className="text-muted-foreground">Description </span>
+                    <span className="text-foreground line-clamp-2">{character.description}</span>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Motivation </span>
+                    <span className="text-foreground line-clamp-2">{character.motivation}</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <EntityHistory
+            entityType="character"
+            entityId={character.character_id}
+            fields={{ name: "Name", description: "Description", motivation: "Motivation" }}
+            onRevert={(content) => updateCharacter.mutateAsync({ characterId: character.character_id, updates: content })}
+          />
+        </TabsContent>
+      </Tabs>
 
       <CharacterForm
         open={formOpen}
@@ -236,12 +274,19 @@ export default function CharacterDetail() {
         onSave={handleSave}
       />
 
+      <CopyToAccountDialog
+        open={copyOpen}
+        onOpenChange={setCopyOpen}
+        item={{ kind: "character", character }}
+        accounts={accounts}
+      />
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent data-testid="dialog-confirm-delete">
           <AlertDialogHeader>
             <AlertDialogTitle>Confirm Delete</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{character.name}"? This action cannot be undone.
+              Are you sure you want to delete "{character.name}"? You can undo this for a few seconds afterwards, or restore it later from the Trash.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
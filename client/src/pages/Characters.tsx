@@ -6,29 +6,50 @@
  * - Search across all character fields (name, ID, description, motivation)
  * - Create, edit, and delete characters
  * - Duplicate existing characters
+ * - Import characters from CSV or cells pasted from a spreadsheet
+ * - Copy a character into another of the user's accounts
  * - Empty state when no characters exist
  * - Loading state while fetching data
+ *
+ * Data comes from the shared query cache (see use-lunchwith), so returning
+ * to this page does not refetch and saves appear immediately.
  */
 
 import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus, Loader2, Search } from "lucide-react";
+import { Plus, Loader2, Search, Upload } from "lucide-react";
 import CharacterCard from "@/components/CharacterCard";
 import CharacterForm from "@/components/CharacterForm";
-import { apiClient } from "@/lib/lunchWithApi";
+import CharacterImportDialog from "@/components/CharacterImportDialog";
+import CopyToAccountDialog, { canCopyToAccount, type CopyToAccountItem } from "@/components/CopyToAccountDialog";
+import { useCharacters, useCreateCharacter, useUpdateCharacter, useDeleteCharacter } from "@/hooks/use-lunchwith";
 import { useToast } from "@/hooks/use-toast";
-import type { Character } from "@shared/api-types";
+import ErrorDetails from "@/components/ErrorDetails";
+import type { Character, UserAccount } from "@shared/api-types";
 
-export default function Characters() {
+interface CharactersProps {
+  // All accounts of the signed-in user, offered as copy targets
+  accounts: UserAccount[];
+}
+
+export default function Characters({ accounts }: CharactersProps) {
   // State management
-  const [characters, setCharacters] = useState<Character[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [formOpen, setFormOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [copyItem, setCopyItem] = useState<CopyToAccountItem | null>(null);
   const [editingCharacter, setEditingCharacter] = useState<Character | undefined>(); // undefined = creating new character
-  const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
 
+  const { data, isLoading, error: loadError } = useCharacters();
+  const createCharacter = useCreateCharacter();
+  const updateCharacter = useUpdateCharacter();
+  const deleteCharacter = useDeleteCharacter();
+
+  // Filter out deleted characters
+  const characters = useMemo(() => (data ?? []).filter((char) => !char.deleted), [data]);
+
   /**
    * Memoized filtered characters based on search query
    * Searches across: name, character_id, description, and motivation fields
@@ -48,33 +69,15 @@ export default function Characters() {
     );
   }, [characters, searchQuery]);
 
-  /**
-   * Loads all characters from the API
-   * Filters out deleted characters
-   * Sets loading state and handles errors with toast notifications
-   */
-  const loadCharacters = async () => {
-    try {
-      setIsLoading(true);
-      const data = await apiClient.getCharacters();
-      // Filter out deleted characters
-      const activeCharacters = data.filter((char) => !char.deleted);
-      setCharacters(activeCharacters);
-    } catch (error) {
-      toast({
-        title: "Error loading characters",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Load characters on component mount
+  // Report load failures
   useEffect(() => {
-    loadCharacters();
-  }, []);
+    if (!loadError) return;
+    toast({
+      title: "Error loading characters",
+      description: <ErrorDetails error={loadError} />,
+      variant: "destructive",
+    });
+  }, [loadError]);
 
   /**
    * Opens the character form in edit mode with the selected character
@@ -95,21 +98,22 @@ export default function Characters() {
   /**
    * Saves a character (create or update based on presence of character_id)
    * @param characterData - Partial character data from the form
+   * @returns Whether it was saved (the form keeps its draft otherwise)
    */
-  const handleSave = async (characterData: Partial<Character>) => {
+  const handleSave = async (characterData: Partial<Character>): Promise<boolean> => {
     try {
       if (characterData.character_id) {
         // Update existing character
         // Exclude character_id from the body as it should only be in the URL
         const { character_id, ...updateData } = characterData;
-        await apiClient.updateCharacter(character_id, updateData);
+        await updateCharacter.mutateAsync({ characterId: character_id, updates: updateData });
         toast({
           title: "Character updated",
           description: "The character has been updated successfully.",
         });
       } else {
         // Create new character
-        await apiClient.createCharacter({
+        await createCharacter.mutateAsync({
           name: characterData.name || "",
           description: characterData.description || "",
           motivation: characterData.motivation || "",
@@ -119,14 +123,14 @@ export default function Characters() {
           description: "The character has been created successfully.",
         });
       }
-      // Reload characters to show the updated list
-      await loadCharacters();
+      return true;
     } catch (error) {
       toast({
         title: "Error saving character",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
+        description: <ErrorDetails error={error} />,
         variant: "destructive",
       });
+      return false;
     }
   };
 
@@ -140,17 +144,15 @@ export default function Characters() {
     }
 
     try {
-      await apiClient.deleteCharacter(characterId);
+      await deleteCharacter.mutateAsync(characterId);
       toast({
         title: "Character deleted",
         description: "The character has been deleted successfully.",
       });
-      // Reload characters to show the updated list
-      await loadCharacters();
     } catch (error) {
       toast({
         title: "Error deleting character",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
+        description: <ErrorDetails error={error} />,
         variant: "destructive",
       });
     }
@@ -163,7 +165,7 @@ export default function Characters() {
   const handleDuplicate = async (character: Character) => {
     try {
       // Create a copy with only the fields allowed by InsertCharacter
-      await apiClient.createCharacter({
+      await createCharacter.mutateAsync({
         name: `${character.name} (Copy)`,
         description: character.description,
         motivation: character.motivation,
@@ -172,12 +174,10 @@ export default function Characters() {
         title: "Character duplicated",
         description: "The character has been duplicated successfully.",
       });
-      // Reload characters to show the new duplicate
-      await loadCharacters();
     } catch (error) {
       toast({
         title: "Error duplicating character",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
+        description: <ErrorDetails error={error} />,
         variant: "destructive",
       });
     }
@@ -195,10 +195,16 @@ export default function Characters() {
     <div className="max-w-7xl mx-auto px-8 py-6">
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-3xl font-bold">Characters</h2>
-        <Button onClick={handleAdd} data-testid="button-add-character">
-          <Plus className="w-4 h-4 mr-2" />
-          Add New Character
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)} data-testid="button-import-characters">
+            <Upload className="w-4 h-4 mr-2" />
+            Import Characters
+          </Button>
+          <Button onClick={handleAdd} data-testid="button-add-character">
+            <Plus className="w-4 h-4 mr-2" />
+            Add New Character
+          </Button>
+        </div>
       </div>
 
       {characters.length === 0 ? (
@@ -238,6 +244,7 @@ export default function Characters() {
                 <CharacterCard
                   key={character.character_id}
                   character={character}
+                  onCopyToAccount={canCopyToAccount() ? (char) => setCopyItem({ kind: "character", character: char }) : undefined}
                 />
               ))}
             </div>
@@ -251,6 +258,15 @@ export default function Characters() {
         character={editingCharacter}
         onSave={handleSave}
       />
+
+      <CharacterImportDialog open={importOpen} onOpenChange={setImportOpen} characters={characters} />
+
+      <CopyToAccountDialog
+        open={copyItem !== null}
+        onOpenChange={(open) => !open && setCopyItem(null)}
+        item={copyItem}
+        accounts={accounts}
+      />
     </div>
   );
 }
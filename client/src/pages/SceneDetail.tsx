@@ -5,10 +5,17 @@
  * Features:
  * - View and edit scene information (name, description)
  * - Delete scene with confirmation dialog
+ * - Export the scene and its cast as a scene bundle file (see lib/sceneBundle)
+ * - Copy the scene and its cast into another of the user's accounts
+ * - History tab with every recorded change to the scene and to each cast
+ *   member, and "revert to this version"
  * - Manage cast members: create, edit, delete, search
+ * - Scene and cast member deletes can be undone from the toast for a few seconds
  * - Search across cast member fields (role, goal, start)
  * - Full information dialog for scene details
+ * - Start a story from the scene and cast characters into its roles
  * - Icon-based actions with tooltips for better UX
+ * - Scene and cast come from the shared query cache, with optimistic saves
  * - Loading and empty states
  * 
  * This is the most complex page with multiple dialogs and state management:
@@ -24,7 +31,9 @@ import { useRoute, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { ChevronLeft, Plus, Loader2, Edit, Trash2, Eye, Search } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, Plus, Loader2, Edit, Trash2, Eye, Search, Play, Download, Send } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -40,9 +49,26 @@ import {
 import CastItem from "@/components/CastItem";
 import CastForm from "@/components/CastForm";
 import SceneForm from "@/components/SceneForm";
-import { apiClient } from "@/lib/lunchWithApi";
+import StoryLauncher from "@/components/StoryLauncher";
+import EntityHistory from "@/components/EntityHistory";
+import CopyToAccountDialog, { canCopyToAccount } from "@/components/CopyToAccountDialog";
+import {
+  useScene,
+  useCastMembers,
+  useUpdateScene,
+  useDeleteScene,
+  useCreateCast,
+  useUpdateCast,
+  useDeleteCast,
+  useHideDeleted,
+} from "@/hooks/use-lunchwith";
 import { useToast } from "@/hooks/use-toast";
-import type { Scene, Cast } from "@shared/api-types";
+import { useUndoableDelete } from "@/hooks/use-undoable-delete";
+import { buildSceneBundle, downloadJson, sceneBundleFileName } from "@/lib/sceneBundle";
+import { getSelectedEnvironment } from "@/lib/environment";
+import { cognitoAuth } from "@/lib/cognitoAuth";
+import ErrorDetails from "@/components/ErrorDetails";
+import type { Scene, Cast, UserAccount } from "@shared/api-types";
 import IdDisplay from "@/components/IdDisplay";
 import {
   AlertDialog,
@@ -55,13 +81,15 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-export default function SceneDetail() {
+interface SceneDetailProps {
+  // All accounts of the signed-in user, offered as copy targets
+  accounts: UserAccount[];
+}
+
+export default function SceneDetail({ accounts }: SceneDetailProps) {
   const [, params] = useRoute("/scenes/:id");
   const [, setLocation] = useLocation();
   
-  // Data state
-  const [scene, setScene] = useState<Scene | null>(null);
-  const [castMembers, setCastMembers] = useState<Cast[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   
   // Multiple dialogs requiring separate state for each
@@ -71,13 +99,33 @@ export default function SceneDetail() {
   const [deleteCastDialogOpen, setDeleteCastDialogOpen] = useState(false);
   const [deletingCastId, setDeletingCastId] = useState<string | null>(null);
   const [showFullInfo, setShowFullInfo] = useState(false);
+  const [launcherOpen, setLauncherOpen] = useState(false);
+  const [copyOpen, setCopyOpen] = useState(false);
+  const [historyCastId, setHistoryCastId] = useState<string | null>(null); // null = first cast member
   
   const [editingCast, setEditingCast] = useState<Cast | undefined>(); // undefined = creating new cast member
-  const [isLoading, setIsLoading] = useState(true);
   
   const { toast } = useToast();
   const sceneId = params?.id || "";
 
+  // Data from the shared query cache
+  const { data: scene, isLoading: isSceneLoading, error: sceneError } = useScene(sceneId);
+  const { data: castData, isLoading: isCastLoading, error: castError } = useCastMembers(sceneId);
+  const updateScene = useUpdateScene();
+  const deleteScene = useDeleteScene();
+  const createCast = useCreateCast(sceneId);
+  const updateCast = useUpdateCast(sceneId);
+  const deleteCast = useDeleteCast(sceneId);
+  const hideDeleted = useHideDeleted();
+  const scheduleDelete = useUndoableDelete();
+  const isLoading = isSceneLoading || isCastLoading;
+
+  // Filter out deleted cast members
+  const castMembers = useMemo(() => (castData ?? []).filter((cast) => !cast.deleted), [castData]);
+
+  // Cast member whose history is shown in the History tab
+  const historyCast = castMembers.find((cast) => cast.cast_id === historyCastId) ?? castMembers[0];
+
   /**
    * Memoized filtered cast members based on search query
    * Searches across: role, goal, and start fields
@@ -96,61 +144,24 @@ export default function SceneDetail() {
     );
   }, [castMembers, searchQuery]);
 
-  /**
-   * Loads scene data from the API
-   * Only executes if sceneId is present
-   */
-  const loadScene = async () => {
-    if (!sceneId) return;
-    
-    try {
-      const data = await apiClient.getScene(sceneId);
-      setScene(data);
-    } catch (error) {
-      toast({
-        title: "Error loading scene",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
-        variant: "destructive",
-      });
-    }
-  };
-
-  /**
-   * Loads cast members for this scene from the API
-   * Filters out deleted cast members
-   * Only executes if sceneId is present
-   */
-  const loadCastMembers = async () => {
-    if (!sceneId) return;
-    
-    try {
-      const data = await apiClient.getCastMembers(sceneId);
-      // Filter out deleted cast members
-      const activeCastMembers = data.filter((cast) => !cast.deleted);
-      setCastMembers(activeCastMembers);
-    } catch (error) {
-      toast({
-        title: "Error loading cast members",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
-        variant: "destructive",
-      });
-    }
-  };
-
-  /**
-   * Loads both scene and cast member data in parallel
-   * Sets loading state during fetch
-   */
-  const loadData = async () => {
-    setIsLoading(true);
-    await Promise.all([loadScene(), loadCastMembers()]);
-    setIsLoading(false);
-  };
+  // Report load failures
+  useEffect(() => {
+    if (!sceneError) return;
+    toast({
+      title: "Error loading scene",
+      description: <ErrorDetails error={sceneError} />,
+      variant: "destructive",
+    });
+  }, [sceneError]);
 
-  // Load data when component mounts or sceneId changes
   useEffect(() => {
-    loadData();
-  }, [sceneId]);
+    if (!castError) return;
+    toast({
+      title: "Error loading cast members",
+      description: <ErrorDetails error={castError} />,
+      variant: "destructive",
+    });
+  }, [castError]);
 
   const handleBack = () => {
     setLocation("/scenes");
@@ -160,23 +171,24 @@ export default function SceneDetail() {
     setSceneFormOpen(true);
   };
 
-  const handleSaveScene = async (sceneData: Partial<Scene>) => {
+  const handleSaveScene = async (sceneData: Partial<Scene>): Promise<boolean> => {
     try {
       if (sceneData.scene_id) {
         const { scene_id, ...updateData } = sceneData;
-        await apiClient.updateScene(scene_id, updateData);
+        await updateScene.mutateAsync({ sceneId: scene_id, updates: updateData });
         toast({
           title: "Scene updated",
           description: "The scene has been updated successfully.",
         });
-        await loadScene();
       }
+      return true;
     } catch (error) {
       toast({
         title: "Error updating scene",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
+        description: <ErrorDetails error={error} />,
         variant: "destructive",
       });
+      return false;
     }
   };
 
@@ -184,23 +196,35 @@ export default function SceneDetail() {
     setDeleteDialogOpen(true);
   };
 
-  const handleDeleteConfirm = async () => {
+  /**
+   * Hides the scene and returns to the scenes list; the DELETE is sent once
+   * the undo window passes
+   */
+  const handleDeleteConfirm = () => {
     if (!scene) return;
 
-    try {
-      await apiClient.deleteScene(scene.scene_id);
-      toast({
-        title: "Scene deleted",
-        description: "The scene has been deleted successfully.",
-      });
-      setLocation("/scenes");
-    } catch (error) {
-      toast({
-        title: "Error deleting scene",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
-        variant: "destructive",
-      });
-    }
+    scheduleDelete({
+      key: `scene:${sceneId}`,
+      title: "Scene deleted",
+      label: "scene",
+      page: "/scenes",
+      hide: () => hideDeleted.scene(sceneId),
+      commit: () => deleteScene.mutateAsync(sceneId),
+    });
+    setLocation("/scenes");
+  };
+
+  /**
+   * Downloads the scene and its current cast members as a scene bundle
+   */
+  const handleExport = () => {
+    if (!scene) return;
+
+    const bundle = buildSceneBundle(scene, castMembers, {
+      environment: getSelectedEnvironment(),
+      userId: cognitoAuth.getSelectedUserId(),
+    });
+    downloadJson(sceneBundleFileName(scene.name), bundle);
   };
 
   const handleAddCast = () => {
@@ -213,18 +237,18 @@ export default function SceneDetail() {
     setCastFormOpen(true);
   };
 
-  const handleSaveCast = async (castData: Partial<Cast>) => {
+  const handleSaveCast = async (castData: Partial<Cast>): Promise<boolean> => {
     try {
       if (castData.cast_id) {
         // Exclude cast_id and scene_id from the body as they should only be in the URL
         const { cast_id, scene_id, ...updateData } = castData;
-        await apiClient.updateCast(sceneId, cast_id, updateData);
+        await updateCast.mutateAsync({ castId: cast_id, updates: updateData });
         toast({
           title: "Cast member updated",
           description: "The cast member has been updated successfully.",
         });
       } else {
-        await apiClient.createCast(sceneId, {
+        await createCast.mutateAsync({
           scene_id: sceneId,
           role: castData.role || "",
           goal: castData.goal || "",
@@ -235,13 +259,14 @@ export default function SceneDetail() {
           description: "The cast member has been created successfully.",
         });
       }
-      await loadCastMembers();
+      return true;
     } catch (error) {
       toast({
         title: "Error saving cast member",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
+        description: <ErrorDetails error={error} />,
         variant: "destructive",
       });
+      return false;
     }
   };
 
@@ -250,25 +275,23 @@ export default function SceneDetail() {
     setDeleteCastDialogOpen(true);
   };
 
-  const handleDeleteCastConfirm = async () => {
+  /**
+   * Hides the cast member; the DELETE is sent once the undo window passes
+   */
+  const handleDeleteCastConfirm = () => {
     if (!deletingCastId) return;
 
-    try {
-      await apiClient.deleteCast(sceneId, deletingCastId);
-      toast({
-        title: "Cast member deleted",
-        description: "The cast member has been deleted successfully.",
-      });
-      await loadCastMembers();
-      setDeleteCastDialogOpen(false);
-      setDeletingCastId(null);
-    } catch (error) {
-      toast({
-        title: "Error deleting cast member",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
-        variant: "destructive",
-      });
-    }
+    const castId = deletingCastId;
+    scheduleDelete({
+      key: `cast:${castId}`,
+      title: "Cast member deleted",
+      label: "cast member",
+      page: `/scenes/${sceneId}`,
+      hide: () => hideDeleted.cast(sceneId, castId),
+      commit: () => deleteCast.mutateAsync(castId),
+    });
+    setDeleteCastDialogOpen(false);
+    setDeletingCastId(null);
   };
 
   if (isLoading || !scene) {
@@ -294,132 +317,235 @@ export default function SceneDetail() {
         <h2 className="text-3xl font-bold">{scene.name}</h2>
       </div>
 
-      <div className="space-y-8">
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-start justify-between gap-4 mb-3">
-              <h3 className="text-base font-semibold">Scene Information</h3>
-              <div className="flex gap-1">
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => setShowFullInfo(true)}
-                      className="h-7 w-7"
-                      data-testid="button-view-scene-info"
-                    >
-                      <Eye className="w-3.5 h-3.5" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>View full information</p>
-                  </TooltipContent>
-                </Tooltip>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={handleEditScene}
-                      className="h-7 w-7"
-                      data-testid="button-edit-scene-info"
-                    >
-                      <Edit className="w-3.5 h-3.5" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Edit scene</p>
-                  </TooltipContent>
-                </Tooltip>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={handleDeleteClick}
-                      className="h-7 w-7"
-                      data-testid="button-delete-scene-info"
-                    >
-                      <Trash2 className="w-3.5 h-3.5" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Delete scene</p>
-                  </TooltipContent>
-                </Tooltip>
-              </div>
-            </div>
-            <div className="space-y-1.5 text-sm">
-              <IdDisplay id={scene.scene_id} label="ID" testId="text-scene-detail-id" />
-              <div>
-                <span className="text-muted-foreground">Description </span>
-                <span className="text-foreground line-clamp-2">{scene.description}</span>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <div>
-          <div className="flex items-center justify-between mb-6">
-            <h3 className="text-xl font-semibold">Cast Members</h3>
-            <Button onClick={handleAddCast} data-testid="button-add-cast">
-              <Plus className="w-4 h-4 mr-2" />
-              Add Cast Member
-            </Button>
-          </div>
+      <Tabs defaultValue="details">
+        <TabsList className="mb-6">
+          <TabsTrigger value="details" data-testid="tab-scene-details">
+            Details
+          </TabsTrigger>
+          <TabsTrigger value="history" data-testid="tab-scene-history">
+            History
+          </TabsTrigger>
+        </TabsList>
 
-          {castMembers.length === 0 ? (
+        <TabsContent value="details">
+          <div className="space-y-8">
             <Card>
-              <CardContent className="text-center py-8">
-                <p className="text-base mb-2">No cast members yet</p>
-                <p className="text-sm text-muted-foreground mb-4">
-                  Add cast members to bring this scene to life
-                </p>
-                <Button onClick={handleAddCast}>
+              <CardContent className="pt-6">
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <h3 className="text-base font-semibold">Scene Information</h3>
+                  <div className="flex gap-1">
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setLauncherOpen(true)}
+                          className="h-7 w-7"
+                          data-testid="button-start-story"
+                        >
+                          <Play className="w-3.5 h-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Start story</p>
+                      </TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setShowFullInfo(true)}
+                          className="h-7 w-7"
+                          data-testid="button-view-scene-info"
+                        >
+                          <Eye className="w-3.5 h-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>View full information</p>
+                      </TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={handleEditScene}
+                          className="h-7 w-7"
+                          data-testid="button-edit-scene-info"
+                        >
+                          <Edit className="w-3.5 h-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Edit scene</p>
+                      </TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={handleExport}
+                          disabled={isCastLoading}
+                          className="h-7 w-7"
+                          data-testid="button-export-scene"
+                        >
+                          <Download className="w-3.5 h-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Export scene bundle</p>
+                      </TooltipContent>
+                    </Tooltip>
+                    {canCopyToAccount() && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setCopyOpen(true)}
+                            className="h-7 w-7"
+                            data-testid="button-copy-scene-to-account"
+                          >
+                            <Send className="w-3.5 h-3.5" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Copy to account…</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={handleDeleteClick}
+                          className="h-7 w-7"
+                          data-testid="button-delete-scene-info"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Delete scene</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+                </div>
+                <div className="space-y-1.5 text-sm">
+                  <IdDisplay id={scene.scene_id} label="ID" testId="text-scene-detail-id" />
+                  <div>
+                    <span className="text-muted-foreground">Description </span>
+                    <span className="text-foreground line-clamp-2">{scene.description}</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div>
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-xl font-semibold">Cast Members</h3>
+                <Button onClick={handleAddCast} data-testid="button-add-cast">
                   <Plus className="w-4 h-4 mr-2" />
                   Add Cast Member
                 </Button>
-              </CardContent>
-            </Card>
-          ) : (
-            <>
-              <div className="relative mb-4">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <Input
-                  placeholder="Search by any keyword..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-10"
-                  data-testid="input-search-cast"
-                />
               </div>
 
-              {filteredCastMembers.length === 0 ? (
+              {castMembers.length === 0 ? (
                 <Card>
                   <CardContent className="text-center py-8">
-                    <p className="text-base mb-2">No cast members found</p>
-                    <p className="text-sm text-muted-foreground">
-                      Try adjusting your search query
+                    <p className="text-base mb-2">No cast members yet</p>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Add cast members to bring this scene to life
                     </p>
+                    <Button onClick={handleAddCast}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Cast Member
+                    </Button>
                   </CardContent>
                 </Card>
               ) : (
-                <div className="space-y-4">
-                  {filteredCastMembers.map((cast) => (
-                    <CastItem
-                      key={cast.cast_id}
-                      cast={cast}
-                      onEdit={handleEditCast}
-                      onDelete={handleDeleteCast}
+                <>
+                  <div className="relative mb-4">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      placeholder="Search by any keyword..."
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      className="pl-10"
+                      data-testid="input-search-cast"
                     />
-                  ))}
-                </div>
+                  </div>
+
+                  {filteredCastMembers.length === 0 ? (
+                    <Card>
+                      <CardContent className="text-center py-8">
+                        <p className="text-base mb-2">No cast members found</p>
+                        <p className="text-sm text-muted-foreground">
+                          Try adjusting your search query
+                        </p>
+                      </CardContent>
+                    </Card>
+                  ) : (
+                    <div className="space-y-4">
+                      {filteredCastMembers.map((cast) => (
+                        <CastItem
+                          key={cast.cast_id}
+                          cast={cast}
+                          onEdit={handleEditCast}
+                          onDelete={handleDeleteCast}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </>
               )}
-            </>
+            </div>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="history" className="space-y-8">
+          <div>
+            <h3 className="text-xl font-semibold mb-4">Scene</h3>
+            <EntityHistory
+              entityType="scene"
+              entityId={scene.scene_id}
+              fields={{ name: "Name", description: "Description" }}
+              onRevert={(content) => updateScene.mutateAsync({ sceneId: scene.scene_id, updates: content })}
+            />
+          </div>
+
+          {historyCast && (
+            <div>
+              <div className="flex items-center justify-between gap-4 mb-4">
+                <h3 className="text-xl font-semibold">Cast Member</h3>
+                <Select value={historyCast.cast_id} onValueChange={setHistoryCastId}>
+                  <SelectTrigger className="w-64" data-testid="select-history-cast">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {castMembers.map((cast) => (
+                      <SelectItem key={cast.cast_id} value={cast.cast_id}>
+                        {cast.role}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <EntityHistory
+                key={historyCast.cast_id}
+                entityType="cast"
+                entityId={historyCast.cast_id}
+                fields={{ role: "Role", goal: "Goal", start: "Start" }}
+                onRevert={(content) => updateCast.mutateAsync({ castId: historyCast.cast_id, updates: content })}
+              />
+            </div>
           )}
-        </div>
-      </div>
+        </TabsContent>
+      </Tabs>
 
       <CastForm
         open={castFormOpen}
@@ -436,6 +562,21 @@ export default function SceneDetail() {
         onSave={handleSaveScene}
       />
 
+      <CopyToAccountDialog
+        open={copyOpen}
+        onOpenChange={setCopyOpen}
+        item={{ kind: "scene", scene }}
+        accounts={accounts}
+      />
+
+      <StoryLauncher
+        open={launcherOpen}
+        onOpenChange={setLauncherOpen}
+        scene={scene}
+        castMembers={castMembers}
+        onOpenStory={(storyId) => setLocation(`/stories/${storyId}`)}
+      />
+
       <Dialog open={showFullInfo} onOpenChange={setShowFullInfo}>
         <DialogContent data-testid="dialog-scene-info">
           <DialogHeader>
@@ -460,7 +601,7 @@ export default function SceneDetail() {
           <AlertDialogHeader>
             <AlertDialogTitle>Confirm Delete</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{scene.name}"? This action cannot be undone and will also delete all associated cast members.
+              Are you sure you want to delete "{scene.name}"? This will also delete all associated cast members. You can undo this for a few seconds afterwards, or restore it later from the Trash.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -481,7 +622,7 @@ export default function SceneDetail() {
           <AlertDialogHeader>
             <AlertDialogTitle>Confirm Delete</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this cast member? This action cannot be undone.
+              Are you sure you want to delete this cast member? You can undo this for a few seconds afterwards, or restore it later from the Trash.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
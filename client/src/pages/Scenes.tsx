@@ -6,33 +6,56 @@
  * - Search across scene fields (name, ID, description)
  * - Create, edit, and delete scenes
  * - Duplicate existing scenes
+ * - Import a scene with its cast from a scene bundle file
+ * - Copy a scene with its cast into another of the user's accounts
  * - View scene details and cast members
  * - Display cast member count for each scene
  * - Empty state when no scenes exist
  * - Loading state while fetching data
+ *
+ * Data comes from the shared query cache (see use-lunchwith), so returning
+ * to this page does not refetch and saves appear immediately.
  */
 
 import { useState, useEffect, useMemo } from "react";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus, Loader2, Search } from "lucide-react";
+import { Plus, Loader2, Search, Upload } from "lucide-react";
 import SceneCard from "@/components/SceneCard";
 import SceneForm from "@/components/SceneForm";
-import { apiClient } from "@/lib/lunchWithApi";
+import SceneImportDialog from "@/components/SceneImportDialog";
+import CopyToAccountDialog, { canCopyToAccount, type CopyToAccountItem } from "@/components/CopyToAccountDialog";
+import { useScenes, useCastMembersByScene, useCreateScene, useUpdateScene, useDeleteScene } from "@/hooks/use-lunchwith";
 import { useToast } from "@/hooks/use-toast";
-import type { Scene } from "@shared/api-types";
+import ErrorDetails from "@/components/ErrorDetails";
+import type { Scene, UserAccount } from "@shared/api-types";
 
-export default function Scenes() {
+interface ScenesProps {
+  // All accounts of the signed-in user, offered as copy targets
+  accounts: UserAccount[];
+}
+
+export default function Scenes({ accounts }: ScenesProps) {
   const [, setLocation] = useLocation();
-  const [scenes, setScenes] = useState<Scene[]>([]);
-  const [castMembersByScene, setCastMembersByScene] = useState<Record<string, any[]>>({}); // Cache of cast arrays keyed by scene_id
   const [searchQuery, setSearchQuery] = useState("");
   const [formOpen, setFormOpen] = useState(false);
   const [editingScene, setEditingScene] = useState<Scene | undefined>(); // undefined = creating new scene
-  const [isLoading, setIsLoading] = useState(true);
+  const [importOpen, setImportOpen] = useState(false);
+  const [copyItem, setCopyItem] = useState<CopyToAccountItem | null>(null);
   const { toast } = useToast();
 
+  const { data, isLoading, error: loadError } = useScenes();
+  const createScene = useCreateScene();
+  const updateScene = useUpdateScene();
+  const deleteScene = useDeleteScene();
+
+  // Filter out deleted scenes
+  const scenes = useMemo(() => (data ?? []).filter((scene) => !scene.deleted), [data]);
+
+  // Cast members for every scene, fetched in parallel and cached per scene
+  const castMembersByScene = useCastMembersByScene(scenes.map((scene) => scene.scene_id));
+
   /**
    * Memoized filtered scenes based on search query
    * Searches across: name, scene_id, and description fields
@@ -51,50 +74,15 @@ export default function Scenes() {
     );
   }, [scenes, searchQuery]);
 
-  /**
-   * Loads all scenes from the API and fetches cast members for each scene
-   * Filters out deleted scenes and deleted cast members
-   * Uses Promise.all to fetch cast members in parallel for better performance
-   * Gracefully handles errors for individual cast member fetches
-   */
-  const loadScenes = async () => {
-    try {
-      setIsLoading(true);
-      const data = await apiClient.getScenes();
-      // Filter out deleted scenes
-      const activeScenes = data.filter((scene) => !scene.deleted);
-      setScenes(activeScenes);
-      
-      // Fetch cast members for all scenes in parallel
-      const castData: Record<string, any[]> = {};
-      await Promise.all(
-        activeScenes.map(async (scene) => {
-          try {
-            const cast = await apiClient.getCastMembers(scene.scene_id);
-            // Filter out deleted cast members
-            castData[scene.scene_id] = cast.filter((c: any) => !c.deleted);
-          } catch (error) {
-            // If fetching cast fails for a scene, set empty array
-            castData[scene.scene_id] = [];
-          }
-        })
-      );
-      setCastMembersByScene(castData);
-    } catch (error) {
-      toast({
-        title: "Error loading scenes",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Load scenes on component mount
+  // Report load failures
   useEffect(() => {
-    loadScenes();
-  }, []);
+    if (!loadError) return;
+    toast({
+      title: "Error loading scenes",
+      description: <ErrorDetails error={loadError} />,
+      variant: "destructive",
+    });
+  }, [loadError]);
 
   /**
    * Navigates to the scene detail page
@@ -123,21 +111,22 @@ export default function Scenes() {
   /**
    * Saves a scene (create or update based on presence of scene_id)
    * @param sceneData - Partial scene data from the form
+   * @returns Whether it was saved (the form keeps its draft otherwise)
    */
-  const handleSave = async (sceneData: Partial<Scene>) => {
+  const handleSave = async (sceneData: Partial<Scene>): Promise<boolean> => {
     try {
       if (sceneData.scene_id) {
         // Update existing scene
         // Exclude scene_id from the body as it should only be in the URL
         const { scene_id, ...updateData } = sceneData;
-        await apiClient.updateScene(scene_id, updateData);
+        await updateScene.mutateAsync({ sceneId: scene_id, updates: updateData });
         toast({
           title: "Scene updated",
           description: "The scene has been updated successfully.",
         });
       } else {
         // Create new scene
-        await apiClient.createScene({
+        await createScene.mutateAsync({
           name: sceneData.name || "",
           description: sceneData.description || "",
         });
@@ -146,14 +135,14 @@ export default function Scenes() {
           description: "The scene has been created successfully.",
         });
       }
-      // Reload scenes to show the updated list
-      await loadScenes();
+      return true;
     } catch (error) {
       toast({
         title: "Error saving scene",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
+        description: <ErrorDetails error={error} />,
         variant: "destructive",
       });
+      return false;
     }
   };
 
@@ -167,17 +156,15 @@ export default function Scenes() {
     }
 
     try {
-      await apiClient.deleteScene(sceneId);
+      await deleteScene.mutateAsync(sceneId);
       toast({
         title: "Scene deleted",
         description: "The scene has been deleted successfully.",
       });
-      // Reload scenes to show the updated list
-      await loadScenes();
     } catch (error) {
       toast({
         title: "Error deleting scene",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
+        description: <ErrorDetails error={error} />,
         variant: "destructive",
       });
     }
@@ -191,7 +178,7 @@ export default function Scenes() {
   const handleDuplicate = async (scene: Scene) => {
     try {
       // Create a copy with only the fields allowed by InsertScene
-      await apiClient.createScene({
+      await createScene.mutateAsync({
         name: `${scene.name} (Copy)`,
         description: scene.description,
       });
@@ -199,12 +186,10 @@ export default function Scenes() {
         title: "Scene duplicated",
         description: "The scene has been duplicated successfully.",
       });
-      // Reload scenes to show the new duplicate
-      await loadScenes();
     } catch (error) {
       toast({
         title: "Error duplicating scene",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
+        description: <ErrorDetails error={error} />,
         variant: "destructive",
       });
     }
@@ -222,10 +207,16 @@ export default function Scenes() {
     <div className="max-w-7xl mx-auto px-8 py-6">
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-3xl font-bold">Scenes</h2>
-        <Button onClick={handleAdd} data-testid="button-add-scene">
-          <Plus className="w-4 h-4 mr-2" />
-          Add New Scene
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)} data-testid="button-import-scene">
+            <Upload className="w-4 h-4 mr-2" />
+            Import Scene
+          </Button>
+          <Button onClick={handleAdd} data-testid="button-add-scene">
+            <Plus className="w-4 h-4 mr-2" />
+            Add New Scene
+          </Button>
+        </div>
       </div>
 
       {scenes.length === 0 ? (
@@ -265,8 +256,9 @@ export default function Scenes() {
                 <SceneCard
                   key={scene.scene_id}
                   scene={scene}
-                  castMembers={castMembersByScene[scene.scene_id] || []}
+                  castMembers={(castMembersByScene[scene.scene_id] ?? []).filter((cast) => !cast.deleted)}
                   onView={handleView}
+                  onCopyToAccount={canCopyToAccount() ? (copied) => setCopyItem({ kind: "scene", scene: copied }) : undefined}
                 />
               ))}
             </div>
@@ -280,6 +272,15 @@ export default function Scenes() {
         scene={editingScene}
         onSave={handleSave}
       />
+
+      <SceneImportDialog open={importOpen} onOpenChange={setImportOpen} scenes={scenes} />
+
+      <CopyToAccountDialog
+        open={copyItem !== null}
+        onOpenChange={(open) => !open && setCopyItem(null)}
+        item={copyItem}
+        accounts={accounts}
+      />
     </div>
   );
 }
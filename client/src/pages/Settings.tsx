@@ -0,0 +1,387 @@
+/**
+ * Settings Page Component
+ *
+ * Displays and edits the preferences of the currently selected LWAI account.
+ * Features:
+ * - Read-only model, prompt and created-on information
+ * - Editable contact name and SQS queue URL with validation
+ * - Only changed fields are sent to PUT /user/me/{user_id}
+ * - Friendly handling of the API's "No updatable fields provided" error
+ * - One-click backup of the account and a restore wizard (see lib/accountBackup)
+ * - Whether form drafts are synced to the server (see lib/formDrafts)
+ */
+
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, parseISO, isValid } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Loader2, Download, Upload } from "lucide-react";
+import { apiClient } from "@/lib/lunchWithApi";
+import { createAccountBackup, accountBackupFileName, type BackupProgress } from "@/lib/accountBackup";
+import { downloadJson } from "@/lib/sceneBundle";
+import { getSelectedEnvironment } from "@/lib/environment";
+import { isDraftSyncEnabled, setDraftSyncEnabled } from "@/lib/formDrafts";
+import RestoreBackupDialog from "@/components/RestoreBackupDialog";
+import { useToast } from "@/hooks/use-toast";
+import ErrorDetails from "@/components/ErrorDetails";
+import { LunchWithApiError } from "@/lib/apiError";
+import type { UserAccount, UserAccountProfile, UpdateUserPreferences } from "@shared/api-types";
+import IdDisplay from "@/components/IdDisplay";
+
+/**
+ * SQS QueueUrl format: https://sqs.<region>.amazonaws.com/<12-digit account id>/<queue name>
+ * Queue names are 1-80 alphanumeric, hyphen or underscore characters, with an
+ * optional ".fifo" suffix for FIFO queues
+ */
+const SQS_QUEUE_URL_PATTERN =
+  /^https:\/\/sqs\.[a-z0-9-]+\.amazonaws\.com(\.cn)?\/\d{12}\/[A-Za-z0-9_-]{1,80}(\.fifo)?$/;
+
+const NO_UPDATABLE_FIELDS = "No updatable fields provided";
+
+const preferencesSchema = z.object({
+  contactName: z.string().trim().max(100, "Contact name must be 100 characters or fewer"),
+  sqs_url: z
+    .string()
+    .trim()
+    .refine((value) => value === "" || SQS_QUEUE_URL_PATTERN.test(value), {
+      message: "Must be an SQS QueueUrl, e.g. https://sqs.us-west-2.amazonaws.com/123456789012/MyQueue",
+    }),
+});
+
+type PreferencesFormValues = z.infer<typeof preferencesSchema>;
+
+interface SettingsProps {
+  userId: string;
+  // All accounts of the signed-in user, offered as restore targets
+  accounts: UserAccount[];
+  onProfileUpdated: (profile: UserAccountProfile) => void;
+}
+
+/**
+ * Formats an API timestamp for display, falling back to the raw value
+ * Timestamps may be RFC3339 with "Z" or without a timezone
+ */
+function formatTimestamp(value: string | undefined) {
+  if (!value) return "—";
+  const date = parseISO(value);
+  return isValid(date) ? format(date, "PPpp") : value;
+}
+
+export default function Settings({ userId, accounts, onProfileUpdated }: SettingsProps) {
+  const [profile, setProfile] = useState<UserAccountProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [backupProgress, setBackupProgress] = useState<BackupProgress | null>(null);
+  const [restoreOpen, setRestoreOpen] = useState(false);
+  const [syncDrafts, setSyncDrafts] = useState(isDraftSyncEnabled());
+  const { toast } = useToast();
+
+  const form = useForm<PreferencesFormValues>({
+    resolver: zodResolver(preferencesSchema),
+    defaultValues: { contactName: "", sqs_url: "" },
+  });
+
+  /**
+   * Loads the account profile and resets the form to its current values
+   */
+  const loadProfile = async () => {
+    if (!userId) return;
+
+    try {
+      setIsLoading(true);
+      const data = await apiClient.getUserAccount(userId);
+      setProfile(data);
+      form.reset({
+        contactName: data.preferences.contactName ?? "",
+        sqs_url: data.preferences.sqs_url ?? "",
+      });
+    } catch (error) {
+      toast({
+        title: "Error loading settings",
+        description: <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Reload whenever the selected account changes
+  useEffect(() => {
+    loadProfile();
+  }, [userId]);
+
+  /**
+   * Saves only the fields that differ from the loaded profile
+   * @param values - Validated form values
+   */
+  const handleSave = async (values: PreferencesFormValues) => {
+    if (!profile) return;
+
+    const updates: UpdateUserPreferences = {};
+    if (values.contactName !== (profile.preferences.contactName ?? "")) {
+      updates.contactName = values.contactName;
+    }
+    if (values.sqs_url !== (profile.preferences.sqs_url ?? "")) {
+      updates.sqs_url = values.sqs_url;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      toast({
+        title: "Nothing to save",
+        description: "Change the contact name or SQS queue URL first.",
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const updated = await apiClient.updateUserAccount(userId, updates);
+      setProfile(updated);
+      form.reset({
+        contactName: updated.preferences.contactName ?? "",
+        sqs_url: updated.preferences.sqs_url ?? "",
+      });
+      onProfileUpdated(updated);
+      toast({
+        title: "Settings saved",
+        description: "Your account preferences have been updated.",
+      });
+    } catch (error) {
+      const noUpdatableFields =
+        error instanceof LunchWithApiError &&
+        error.status === 400 &&
+        error.detail.includes(NO_UPDATABLE_FIELDS);
+      toast({
+        title: "Error saving settings",
+        description: noUpdatableFields
+          ? "Only the contact name and SQS queue URL can be changed."
+          : <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Reads the whole account and downloads it as a backup file
+   */
+  const handleBackup = async () => {
+    setBackupProgress({ completed: 0, total: 1, step: "Starting backup" });
+    try {
+      const backup = await createAccountBackup(
+        apiClient,
+        { environment: getSelectedEnvironment(), userId },
+        setBackupProgress
+      );
+      downloadJson(accountBackupFileName(backup), backup);
+      const castCount = backup.scenes.reduce((sum, scene) => sum + scene.cast.length, 0);
+      toast({
+        title: "Backup downloaded",
+        description: `${backup.characters.length} characters, ${backup.scenes.length} scenes and ${castCount} cast members.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error creating backup",
+        description: <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+    } finally {
+      setBackupProgress(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="max-w-7xl mx-auto px-8 py-6">
+        <h2 className="text-3xl font-bold mb-6">Settings</h2>
+        <p className="text-sm text-muted-foreground">Account settings could not be loaded.</p>
+      </div>
+    );
+  }
+
+  const { preferences } = profile;
+
+  return (
+    <div className="max-w-7xl mx-auto px-8 py-6">
+      <h2 className="text-3xl font-bold mb-6">Settings</h2>
+
+      <div className="space-y-8">
+        <Card>
+          <CardContent className="pt-6">
+            <h3 className="text-base font-semibold mb-3">Account</h3>
+            <div className="space-y-1.5 text-sm">
+              <IdDisplay id={preferences.user_id} label="User ID" testId="text-settings-user-id" />
+              <div>
+                <span className="text-muted-foreground">Model </span>
+                <span className="text-foreground" data-testid="text-settings-model-name">
+                  {preferences.model_name || "—"}
+                </span>
+                <span className="text-muted-foreground"> created {formatTimestamp(preferences.model_created_on)}</span>
+              </div>
+              <IdDisplay id={preferences.prompt_id} label="Prompt ID" testId="text-settings-prompt-id" />
+              <div>
+                <span className="text-muted-foreground">Prompt created </span>
+                <span className="text-foreground">{formatTimestamp(preferences.prompt_created_on)}</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <h3 className="text-base font-semibold mb-3">Preferences</h3>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSave)} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="contactName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Contact Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Contact name" data-testid="input-contact-name" />
+                      </FormControl>
+                      <FormDescription>Shown in the header and account switcher.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="sqs_url"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>SQS Queue URL</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          placeholder="https://sqs.us-west-2.amazonaws.com/123456789012/MyQueue"
+                          className="font-mono"
+                          data-testid="input-sqs-url"
+                        />
+                      </FormControl>
+                      <FormDescription>Story responses for this account are sent to this queue.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => form.reset()}
+                    disabled={isSaving || !form.formState.isDirty}
+                    data-testid="button-reset-settings"
+                  >
+                    Reset
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={isSaving || !form.formState.isDirty}
+                    data-testid="button-save-settings"
+                  >
+                    {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Save Settings
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <h3 className="text-base font-semibold mb-1">Backup &amp; Restore</h3>
+            <p className="text-sm text-muted-foreground mb-4">
+              Download every character, scene and cast member of this account, or restore
+              a backup into this or another account.
+            </p>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={handleBackup}
+                disabled={!!backupProgress}
+                data-testid="button-backup-account"
+              >
+                {backupProgress ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="w-4 h-4 mr-2" />
+                )}
+                Download Backup
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setRestoreOpen(true)}
+                disabled={!!backupProgress}
+                data-testid="button-restore-backup"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Restore Backup…
+              </Button>
+              {backupProgress && (
+                <span className="text-sm text-muted-foreground" data-testid="text-backup-progress">
+                  {backupProgress.step}
+                </span>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <h3 className="text-base font-semibold mb-1">Drafts</h3>
+            <p className="text-sm text-muted-foreground mb-4">
+              Unsaved character, scene and cast forms are kept as drafts in this browser. Syncing also stores them on
+              the server, so they can be restored from another browser.
+            </p>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="sync-drafts"
+                checked={syncDrafts}
+                onCheckedChange={(checked) => {
+                  setDraftSyncEnabled(checked);
+                  setSyncDrafts(checked);
+                }}
+                data-testid="switch-sync-drafts"
+              />
+              <Label htmlFor="sync-drafts">Sync drafts to the server</Label>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <RestoreBackupDialog
+        open={restoreOpen}
+        onOpenChange={setRestoreOpen}
+        userId={userId}
+        accounts={accounts}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+/**
+ * Stories Page Component
+ *
+ * Displays a grid of all active stories and lets the user start new ones.
+ * Features:
+ * - Search across story fields (story ID, scene ID, scene name)
+ * - Start a new story from an existing scene
+ * - Open the story console for lifecycle actions
+ * - Empty state when no stories are active
+ * - Loading state while fetching data
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Play, Loader2, Search, RefreshCw } from "lucide-react";
+import StoryCard from "@/components/StoryCard";
+import StartStoryDialog from "@/components/StartStoryDialog";
+import { apiClient } from "@/lib/lunchWithApi";
+import { useToast } from "@/hooks/use-toast";
+import ErrorDetails from "@/components/ErrorDetails";
+import type { Story, Scene } from "@shared/api-types";
+
+export default function Stories() {
+  const [, setLocation] = useLocation();
+  const [stories, setStories] = useState<Story[]>([]);
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [startDialogOpen, setStartDialogOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+
+  /**
+   * Lookup of scene names keyed by scene_id, used to label story cards
+   */
+  const sceneNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    scenes.forEach((scene) => {
+      names[scene.scene_id] = scene.name;
+    });
+    return names;
+  }, [scenes]);
+
+  /**
+   * Memoized filtered stories based on search query
+   * Searches across: story_id, scene_id, and the scene name
+   * Returns all stories when search query is empty
+   */
+  const filteredStories = useMemo(() => {
+    if (!searchQuery.trim()) return stories;
+
+    const query = searchQuery.toLowerCase();
+    return stories.filter(
+      (story) =>
+        (story.story_id ?? "").toLowerCase().includes(query) ||
+        (story.scene_id ?? "").toLowerCase().includes(query) ||
+        (sceneNames[story.scene_id] ?? "").toLowerCase().includes(query)
+    );
+  }, [stories, sceneNames, searchQuery]);
+
+  /**
+   * Loads all stories and scenes from the API in parallel
+   * Scenes are needed to label stories and to start new ones
+   */
+  const loadStories = async () => {
+    try {
+      setIsLoading(true);
+      const [storyData, sceneData] = await Promise.all([
+        apiClient.getStories(),
+        apiClient.getScenes(),
+      ]);
+      setStories(storyData);
+      // Filter out deleted scenes
+      setScenes(sceneData.filter((scene) => !scene.deleted));
+    } catch (error) {
+      toast({
+        title: "Error loading stories",
+        description: <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Load stories on component mount
+  useEffect(() => {
+    loadStories();
+  }, []);
+
+  /**
+   * Navigates to the story console
+   * @param storyId - ID of the story to view
+   */
+  const handleView = (storyId: string) => {
+    setLocation(`/stories/${storyId}`);
+  };
+
+  /**
+   * Starts a new story and opens its console on success
+   * @param storyId - ID to assign to the new story
+   * @param sceneId - Scene to run
+   */
+  const handleStart = async (storyId: string, sceneId: string) => {
+    try {
+      const story = await apiClient.startScene(storyId, sceneId);
+      toast({
+        title: "Story started",
+        description: "The scene is now running.",
+      });
+      setLocation(`/stories/${story?.story_id ?? storyId}`);
+    } catch (error) {
+      toast({
+        title: "Error starting story",
+        description: <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-8 py-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-3xl font-bold">Stories</h2>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadStories} data-testid="button-refresh-stories">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+          <Button onClick={() => setStartDialogOpen(true)} data-testid="button-start-story">
+            <Play className="w-4 h-4 mr-2" />
+            Start Story
+          </Button>
+        </div>
+      </div>
+
+      {stories.length === 0 ? (
+        <div className="text-center py-16">
+          <p className="text-lg font-medium mb-2">No active stories</p>
+          <p className="text-sm text-muted-foreground mb-6">
+            Start a story from one of your scenes to run it here
+          </p>
+          <Button onClick={() => setStartDialogOpen(true)}>
+            <Play className="w-4 h-4 mr-2" />
+            Start Story
+          </Button>
+        </div>
+      ) : (
+        <>
+          <div className="relative mb-6">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by any keyword..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+              data-testid="input-search-stories"
+            />
+          </div>
+
+          {filteredStories.length === 0 ? (
+            <div className="text-center py-16">
+              <p className="text-lg font-medium mb-2">No stories found</p>
+              <p className="text-sm text-muted-foreground">
+                Try adjusting your search query
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {filteredStories.map((story) => (
+                <StoryCard
+                  key={story.story_id}
+                  story={story}
+                  sceneName={sceneNames[story.scene_id]}
+                  onView={handleView}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <StartStoryDialog
+        open={startDialogOpen}
+        onOpenChange={setStartDialogOpen}
+        scenes={scenes}
+        onStart={handleStart}
+      />
+    </div>
+  );
+}
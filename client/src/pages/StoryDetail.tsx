@@ -0,0 +1,342 @@
+/**
+ * Story Detail Page Component
+ *
+ * Live console for a single active story.
+ * Features:
+ * - View story information (story ID, scene, finishup/end_conversation state)
+ * - View the casting list with bound characters and summarize flags
+ * - Lifecycle actions: finish up, end conversation, end scene
+ * - Mark individual cast entries for summarization
+ * - Chat-style transcript to post lines and generate cast replies
+ * - Side panel to edit or clear each cast entry's augment for the current take
+ * - Manual refresh to pick up server-side changes
+ *
+ * Ending the scene removes the story, so the page navigates back to the
+ * stories list once end_scene succeeds.
+ */
+
+import { useState, useEffect } from "react";
+import { useRoute, useLocation, Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChevronLeft, Loader2, RefreshCw, FastForward, MessageSquareOff, Square } from "lucide-react";
+import StoryCastingItem from "@/components/StoryCastingItem";
+import AugmentPanel from "@/components/AugmentPanel";
+import StoryTranscript from "@/components/StoryTranscript";
+import { apiClient } from "@/lib/lunchWithApi";
+import { useToast } from "@/hooks/use-toast";
+import ErrorDetails from "@/components/ErrorDetails";
+import type { Story, Scene, Cast } from "@shared/api-types";
+import IdDisplay from "@/components/IdDisplay";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+export default function StoryDetail() {
+  const [, params] = useRoute("/stories/:id");
+  const [, setLocation] = useLocation();
+
+  // Data state
+  const [story, setStory] = useState<Story | null>(null);
+  const [scene, setScene] = useState<Scene | null>(null);
+  const [castMembers, setCastMembers] = useState<Cast[]>([]);
+
+  const [endSceneDialogOpen, setEndSceneDialogOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isActing, setIsActing] = useState(false); // true while a lifecycle action is in flight
+
+  const { toast } = useToast();
+  const storyId = params?.id || "";
+
+  /**
+   * Loads the story, then its scene and the scene's cast members
+   * Scene data is used for labels and to fill in casting details the story omits
+   */
+  const loadStory = async () => {
+    if (!storyId) return;
+
+    try {
+      setIsLoading(true);
+      const data = await apiClient.getStory(storyId);
+      setStory(data);
+
+      const [sceneData, castData] = await Promise.all([
+        apiClient.getScene(data.scene_id).catch(() => null),
+        apiClient.getCastMembers(data.scene_id).catch(() => [] as Cast[]),
+      ]);
+      setScene(sceneData);
+      setCastMembers(castData);
+    } catch (error) {
+      toast({
+        title: "Error loading story",
+        description: <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Load story when component mounts or storyId changes
+  useEffect(() => {
+    loadStory();
+  }, [storyId]);
+
+  const handleBack = () => {
+    setLocation("/stories");
+  };
+
+  /**
+   * Runs a lifecycle action that returns the updated story
+   * @param action - API call to perform
+   * @param successTitle - Toast title shown on success
+   * @param errorTitle - Toast title shown on failure
+   */
+  const runStoryAction = async (
+    action: () => Promise<Story>,
+    successTitle: string,
+    errorTitle: string
+  ) => {
+    try {
+      setIsActing(true);
+      const updated = await action();
+      if (updated) {
+        setStory((prev) => (prev ? { ...prev, ...updated } : updated));
+      }
+      toast({ title: successTitle });
+    } catch (error) {
+      toast({
+        title: errorTitle,
+        description: <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+    } finally {
+      setIsActing(false);
+    }
+  };
+
+  const handleFinishUp = () =>
+    runStoryAction(
+      () => apiClient.finishUp(storyId),
+      "Finishing up",
+      "Error finishing up story"
+    );
+
+  const handleEndConversation = () =>
+    runStoryAction(
+      () => apiClient.endConversation(storyId),
+      "Ending conversation",
+      "Error ending conversation"
+    );
+
+  const handleSummarize = (castId: string) =>
+    runStoryAction(
+      () => apiClient.summarizeCast(storyId, castId),
+      "Cast member marked for summarization",
+      "Error marking cast member"
+    );
+
+  /**
+   * Ends the scene and returns to the stories list
+   */
+  const handleEndSceneConfirm = async () => {
+    try {
+      setIsActing(true);
+      await apiClient.endScene(storyId);
+      toast({
+        title: "Scene ended",
+        description: "Scene summaries are being generated.",
+      });
+      setLocation("/stories");
+    } catch (error) {
+      toast({
+        title: "Error ending scene",
+        description: <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+    } finally {
+      setIsActing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!story) {
+    return (
+      <div className="max-w-7xl mx-auto px-8 py-6">
+        <Button variant="ghost" onClick={handleBack} className="mb-2" data-testid="button-back">
+          <ChevronLeft className="w-4 h-4 mr-2" />
+          Back to Stories
+        </Button>
+        <div className="text-center py-16">
+          <p className="text-lg font-medium mb-2">Story not found</p>
+          <p className="text-sm text-muted-foreground">
+            It may have ended or belong to a different account
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const castById: Record<string, Cast> = {};
+  castMembers.forEach((cast) => {
+    castById[cast.cast_id] = cast;
+  });
+  const casting = story.casting ?? [];
+
+  return (
+    <div className="max-w-7xl mx-auto px-8 py-6">
+      <div className="mb-6">
+        <Button
+          variant="ghost"
+          onClick={handleBack}
+          className="mb-2"
+          data-testid="button-back"
+        >
+          <ChevronLeft className="w-4 h-4 mr-2" />
+          Back to Stories
+        </Button>
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-3xl font-bold">{scene?.name ?? "Story"}</h2>
+          <Button variant="outline" onClick={loadStory} disabled={isActing} data-testid="button-refresh-story">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-8 lg:col-span-2">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-start justify-between gap-4 mb-3">
+                <h3 className="text-base font-semibold">Story Information</h3>
+                <div className="flex gap-2">
+                  <Badge
+                    variant={story.finishup ? "default" : "outline"}
+                    data-testid="badge-story-finishup"
+                  >
+                    Finish up: {story.finishup ? "on" : "off"}
+                  </Badge>
+                  <Badge
+                    variant={story.end_conversation ? "default" : "outline"}
+                    data-testid="badge-story-end-conversation"
+                  >
+                    End conversation: {story.end_conversation ? "on" : "off"}
+                  </Badge>
+                </div>
+              </div>
+              <div className="space-y-1.5 text-sm">
+                <IdDisplay id={story.story_id} label="Story ID" testId="text-story-detail-id" />
+                <div className="flex items-center gap-2">
+                  <IdDisplay id={story.scene_id} label="Scene ID" testId="text-story-detail-scene-id" />
+                  {scene && (
+                    <Link href={`/scenes/${scene.scene_id}`} className="text-xs underline text-muted-foreground">
+                      View scene
+                    </Link>
+                  )}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2 mt-4">
+                <Button
+                  variant="outline"
+                  onClick={handleFinishUp}
+                  disabled={isActing || story.finishup}
+                  data-testid="button-finish-up"
+                >
+                  <FastForward className="w-4 h-4 mr-2" />
+                  Finish Up
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleEndConversation}
+                  disabled={isActing || story.end_conversation}
+                  data-testid="button-end-conversation"
+                >
+                  <MessageSquareOff className="w-4 h-4 mr-2" />
+                  End Conversation
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => setEndSceneDialogOpen(true)}
+                  disabled={isActing}
+                  data-testid="button-end-scene"
+                >
+                  <Square className="w-4 h-4 mr-2" />
+                  End Scene
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div>
+            <h3 className="text-xl font-semibold mb-6">Casting</h3>
+            {casting.length === 0 ? (
+              <Card>
+                <CardContent className="text-center py-8">
+                  <p className="text-base mb-2">No casting entries</p>
+                  <p className="text-sm text-muted-foreground">
+                    Add cast members to the scene before starting a story
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-4">
+                {casting.map((entry) => (
+                  <StoryCastingItem
+                    key={entry.cast_id}
+                    casting={entry}
+                    cast={castById[entry.cast_id]}
+                    disabled={isActing}
+                    onSummarize={handleSummarize}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          <StoryTranscript storyId={story.story_id} casting={casting} castById={castById} />
+        </div>
+
+        <aside>
+          <AugmentPanel storyId={story.story_id} casting={casting} castById={castById} />
+        </aside>
+      </div>
+
+      <AlertDialog open={endSceneDialogOpen} onOpenChange={setEndSceneDialogOpen}>
+        <AlertDialogContent data-testid="dialog-confirm-end-scene">
+          <AlertDialogHeader>
+            <AlertDialogTitle>End Scene</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to end this scene? The story will stop and scene summaries will be generated.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-end-scene">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleEndSceneConfirm}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-end-scene"
+            >
+              End Scene
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+/**
+ * Trash Page Component
+ *
+ * Lists soft-deleted characters, scenes and cast members so accidental
+ * deletes can be undone.
+ * Features:
+ * - Tabs per entity type with deleted-item counts
+ * - Deletion context: when it was deleted, the scene a cast member belongs
+ *   to, and whether it was deleted along with that scene
+ * - Restore with PUT { deleted: false }; if the API will not restore the record,
+ *   it is recreated with the same content under a new ID
+ * - Cast members of a deleted scene can be restored once the scene is restored
+ *
+ * The API does not return deleted items, so the page lists the deletes this
+ * client recorded (see lib/trash): only items deleted from this browser.
+ */
+
+import { useMemo, type ReactNode } from "react";
+import { Link } from "wouter";
+import { Card, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Info, Loader2, RotateCcw } from "lucide-react";
+import IdDisplay from "@/components/IdDisplay";
+import ErrorDetails from "@/components/ErrorDetails";
+import {
+  useScenes,
+  useTrash,
+  useRestoreCharacter,
+  useRestoreScene,
+  useRestoreCast,
+  type RestoreResult,
+} from "@/hooks/use-lunchwith";
+import { useToast } from "@/hooks/use-toast";
+import type { Cast } from "@shared/api-types";
+
+interface TrashItemProps {
+  testId: string;
+  title: string;
+  id: string;
+  // ISO timestamp of the delete
+  deletedAt: string;
+  description?: string;
+  context?: ReactNode;
+  restoreDisabledReason?: string;
+  isRestoring: boolean;
+  onRestore: () => void;
+}
+
+/**
+ * One deleted item with its context and a Restore button
+ */
+function TrashItem({
+  testId,
+  title,
+  id,
+  deletedAt,
+  description,
+  context,
+  restoreDisabledReason,
+  isRestoring,
+  onRestore,
+}: TrashItemProps) {
+  const restoreButton = (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={onRestore}
+      disabled={isRestoring || !!restoreDisabledReason}
+      data-testid="button-restore"
+    >
+      {isRestoring ? (
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+      ) : (
+        <RotateCcw className="w-4 h-4 mr-2" />
+      )}
+      Restore
+    </Button>
+  );
+
+  return (
+    <Card data-testid={testId}>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="flex-1 min-w-0 space-y-1">
+          <h3 className="text-lg font-medium" data-testid="text-trash-title">
+            {title}
+          </h3>
+          <IdDisplay id={id} />
+          <p className="text-xs text-muted-foreground">Deleted {new Date(deletedAt).toLocaleString()}</p>
+          {description && (
+            <p className="text-sm text-muted-foreground line-clamp-2">{description}</p>
+          )}
+          {context && <div className="text-sm text-muted-foreground">{context}</div>}
+        </div>
+        {restoreDisabledReason ? (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              {/* Disabled buttons don't emit pointer events, so wrap for the tooltip */}
+              <span tabIndex={0}>{restoreButton}</span>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>{restoreDisabledReason}</p>
+            </TooltipContent>
+          </Tooltip>
+        ) : (
+          restoreButton
+        )}
+      </CardHeader>
+    </Card>
+  );
+}
+
+function EmptyTrash({ label }: { label: string }) {
+  return (
+    <div className="text-center py-16">
+      <p className="text-lg font-medium mb-2">No deleted {label}</p>
+      <p className="text-sm text-muted-foreground">{label[0].toUpperCase() + label.slice(1)} you delete in this browser will appear here</p>
+    </div>
+  );
+}
+
+export default function Trash() {
+  const { toast } = useToast();
+
+  const trash = useTrash();
+  // Scene names for cast context; deleted scenes come from the Trash
+  const { data: sceneData } = useScenes();
+  const restoreCharacter = useRestoreCharacter();
+  const restoreScene = useRestoreScene();
+  const restoreCast = useRestoreCast();
+
+  const sceneById = useMemo(() => new Map((sceneData ?? []).map((scene) => [scene.scene_id, scene])), [sceneData]);
+  const deletedSceneById = useMemo(
+    () => new Map(trash.scenes.map(({ item }) => [item.scene_id, item])),
+    [trash.scenes]
+  );
+
+  /**
+   * Runs a restore and reports whether the item came back as-is or as a copy
+   * @param label - Entity label for messages, e.g. "Character"
+   */
+  const handleRestore = async <T,>(label: string, name: string, restore: () => Promise<RestoreResult<T>>) => {
+    try {
+      const { recreated } = await restore();
+      toast({
+        title: `${label} restored`,
+        description: recreated
+          ? `"${name}" could not be undeleted, so it was recreated with the same content under a new ID.`
+          : `"${name}" has been restored.`,
+      });
+    } catch (error) {
+      toast({
+        title: `Error restoring ${label.toLowerCase()}`,
+        description: <ErrorDetails error={error} />,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Where a deleted cast member lived, and whether its scene is deleted too
+   * @param withScene - Whether it was deleted along with the scene
+   */
+  const castContext = (cast: Cast, withScene?: boolean) => {
+    const scene = sceneById.get(cast.scene_id);
+    const deletedScene = deletedSceneById.get(cast.scene_id);
+    return (
+      <span className="flex items-center gap-2 flex-wrap">
+        <span>
+          Scene:{" "}
+          {scene ? (
+            <Link href={`/scenes/${cast.scene_id}`} className="underline">
+              {scene.name}
+            </Link>
+          ) : (
+            deletedScene?.name ?? cast.scene_id
+          )}
+        </span>
+        {deletedScene && <Badge variant="secondary">Scene deleted</Badge>}
+        {withScene && <Badge variant="outline">Deleted with the scene</Badge>}
+      </span>
+    );
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-8 py-6">
+      <div className="mb-6 space-y-3">
+        <div>
+          <h2 className="text-3xl font-bold">Trash</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Deleted characters, scenes and cast members. Restore anything deleted by mistake.
+          </p>
+        </div>
+        <p className="flex items-start gap-2 text-sm text-muted-foreground" data-testid="text-trash-scope">
+          <Info className="w-4 h-4 mt-0.5 shrink-0" />
+          The LunchWith.ai API does not list deleted items, so only deletes made from this app in this browser
+          appear here. Items deleted in another browser or through other tools are not shown.
+        </p>
+      </div>
+
+      <Tabs defaultValue="characters">
+        <TabsList className="mb-6">
+          <TabsTrigger value="characters" data-testid="tab-trash-characters">
+            Characters ({trash.characters.length})
+          </TabsTrigger>
+          <TabsTrigger value="scenes" data-testid="tab-trash-scenes">
+            Scenes ({trash.scenes.length})
+          </TabsTrigger>
+          <TabsTrigger value="cast" data-testid="tab-trash-cast">
+            Cast Members ({trash.cast.length})
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="characters" className="space-y-4">
+          {trash.characters.length === 0 ? (
+            <EmptyTrash label="characters" />
+          ) : (
+            trash.characters.map(({ item: character, deletedAt }) => (
+              <TrashItem
+                key={character.character_id}
+                testId={`trash-character-${character.character_id}`}
+                title={character.name}
+                id={character.character_id}
+                deletedAt={deletedAt}
+                description={character.description}
+                isRestoring={restoreCharacter.isPending && restoreCharacter.variables?.character_id === character.character_id}
+                onRestore={() =>
+                  handleRestore("Character", character.name, () => restoreCharacter.mutateAsync(character))
+                }
+              />
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="scenes" className="space-y-4">
+          {trash.scenes.length === 0 ? (
+            <EmptyTrash label="scenes" />
+          ) : (
+            trash.scenes.map(({ item: scene, deletedAt }) => {
+              const deletedCastCount = trash.cast.filter(({ item }) => item.scene_id === scene.scene_id).length;
+              return (
+                <TrashItem
+                  key={scene.scene_id}
+                  testId={`trash-scene-${scene.scene_id}`}
+                  title={scene.name}
+                  id={scene.scene_id}
+                  deletedAt={deletedAt}
+                  description={scene.description}
+                  context={
+                    deletedCastCount > 0 &&
+                    `${deletedCastCount} deleted cast member${deletedCastCount === 1 ? "" : "s"} (restore them from the Cast Members tab)`
+                  }
+                  isRestoring={restoreScene.isPending && restoreScene.variables?.scene_id === scene.scene_id}
+                  onRestore={() => handleRestore("Scene", scene.name, () => restoreScene.mutateAsync(scene))}
+                />
+              );
+            })
+          )}
+        </TabsContent>
+
+        <TabsContent value="cast" className="space-y-4">
+          {trash.cast.length === 0 ? (
+            <EmptyTrash label="cast members" />
+          ) : (
+            trash.cast.map(({ item: cast, deletedAt, withScene }) => (
+              <TrashItem
+                key={cast.cast_id}
+                testId={`trash-cast-${cast.cast_id}`}
+                title={cast.role}
+                id={cast.cast_id}
+                deletedAt={deletedAt}
+                description={cast.goal}
+                context={castContext(cast, withScene)}
+                restoreDisabledReason={deletedSceneById.has(cast.scene_id) ? "Restore the scene first" : undefined}
+                isRestoring={restoreCast.isPending && restoreCast.variables?.cast_id === cast.cast_id}
+                onRestore={() => handleRestore("Cast member", cast.role, () => restoreCast.mutateAsync(cast))}
+              />
+            ))
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { AuthError } from "./auth";
+import { confirmAccountUpstream } from "./accountCheck";
+import type { Forward } from "./history";
+
+// Answers every request with the status, recording the paths read
+const forwardWith = (status: number) => {
+  const paths: string[] = [];
+  const forward: Forward = async (endpoint) => {
+    paths.push(endpoint);
+    return new Response(JSON.stringify({}), { status });
+  };
+  return { forward, paths };
+};
+
+// Checks are remembered per token, so each test uses tokens of its own
+const token = () => `Bearer token-${randomUUID()}`;
+
+describe("confirmAccountUpstream", () => {
+  it("asks upstream for the account once and then reuses the answer", async () => {
+    const { forward, paths } = forwardWith(200);
+    const authHeader = token();
+
+    await confirmAccountUpstream(authHeader, "account-1", "beta", forward);
+    await confirmAccountUpstream(authHeader, "account-1", "beta", forward);
+
+    assert.deepEqual(paths, ["/user/me/account-1"]);
+  });
+
+  it("checks each token, account and environment separately", async () => {
+    const { forward, paths } = forwardWith(200);
+    const authHeader = token();
+
+    await confirmAccountUpstream(authHeader, "account-1", "beta", forward);
+    await confirmAccountUpstream(authHeader, "account-2", "beta", forward);
+    await confirmAccountUpstream(authHeader, "account-1", "local", forward);
+    await confirmAccountUpstream(token(), "account-1", "beta", forward);
+
+    assert.equal(paths.length, 4);
+  });
+
+  it("turns upstream refusals into AuthErrors and does not remember them", async () => {
+    const authHeader = token();
+    for (const status of [401, 403] as const) {
+      const { forward, paths } = forwardWith(status);
+
+      for (let attempt = 0; attempt < 2; attempt++) {
+        await assert.rejects(confirmAccountUpstream(authHeader, "account-1", "beta", forward), (error: unknown) => {
+          return error instanceof AuthError && error.status === status;
+        });
+      }
+      assert.equal(paths.length, 2);
+    }
+  });
+
+  it("fails when upstream cannot answer", async () => {
+    const { forward } = forwardWith(502);
+
+    await assert.rejects(confirmAccountUpstream(token(), "account-1", "beta", forward), (error: unknown) => {
+      return !(error instanceof AuthError) && error instanceof Error && /status 502/.test(error.message);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { createHash } from "crypto";
+import { AuthError } from "./auth";
+import type { Forward } from "./history";
+
+/**
+ * Upstream account checks for the local-data routes.
+ *
+ * Without token verification (see auth.ts) this server cannot tell a real
+ * token from a made-up one, yet /api/history, /api/audit, /api/drafts and
+ * GET /api/story-responses serve data the upstream API never sees. Before
+ * those routes touch storage, the caller's token and selected account are
+ * checked by asking the selected environment for the account
+ * (GET /user/me/{user_id}): the upstream API verifies the token and refuses
+ * accounts the caller may not use.
+ *
+ * Accepted checks are remembered for CHECK_TTL_MS per token, account and
+ * environment, so polling routes do not call upstream on every request.
+ * Refusals are not remembered.
+ */
+
+// How long an accepted check is reused, in milliseconds
+const CHECK_TTL_MS = 60 * 1000;
+// Most checks remembered; the oldest is forgotten first
+const MAX_CHECKS = 500;
+
+// Check key -> when it was accepted
+const acceptedChecks = new Map<string, number>();
+
+/**
+ * Key of a check; the token is hashed so it is not kept in memory as is
+ */
+function checkKey(authHeader: string, userId: string, environment: string): string {
+  const tokenHash = createHash("sha256").update(authHeader).digest("hex");
+  return `${tokenHash}:${environment}:${userId}`;
+}
+
+function rememberCheck(key: string) {
+  acceptedChecks.delete(key);
+  acceptedChecks.set(key, Date.now());
+  if (acceptedChecks.size > MAX_CHECKS) {
+    acceptedChecks.delete(acceptedChecks.keys().next().value!);
+  }
+}
+
+/**
+ * Confirms with the upstream API that the token may use the account
+ * @param forward - Forwards to the selected environment as the proxy does
+ * @throws AuthError (401/403) if upstream refuses the token or the account,
+ *   or an Error if the check could not be made
+ */
+export async function confirmAccountUpstream(
+  authHeader: string,
+  userId: string,
+  environment: string,
+  forward: Forward,
+): Promise<void> {
+  const key = checkKey(authHeader, userId, environment);
+  const acceptedAt = acceptedChecks.get(key);
+  if (acceptedAt !== undefined && Date.now() - acceptedAt < CHECK_TTL_MS) return;
+
+  const response = await forward(`/user/me/${encodeURIComponent(userId)}`, "GET");
+  if (response.status === 401) {
+    throw new AuthError(401, "Unauthorized", "The LunchWith.ai API did not accept the access token");
+  }
+  if (response.status === 403) {
+    throw new AuthError(403, "Forbidden", `Account ${userId} is not an account of the current user`);
+  }
+  if (!response.ok) {
+    throw new Error(`Account check failed with status ${response.status}`);
+  }
+
+  rememberCheck(key);
+}
@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { auditTarget, isMutatingMethod, redactBody } from "./audit";
+
+describe("redactBody", () => {
+  it("replaces values under secret-looking keys at any depth", () => {
+    const redacted = redactBody({
+      name: "Ava",
+      password: "hunter2",
+      nested: { apiKey: "k", api_key: "k", "API-KEY": "k", accessToken: "t", list: [{ clientSecret: "s" }] },
+      Authorization: "Bearer x",
+      credentials: { user: "u" },
+    });
+
+    assert.deepEqual(redacted, {
+      name: "Ava",
+      password: "[redacted]",
+      nested: { apiKey: "[redacted]", api_key: "[redacted]", "API-KEY": "[redacted]", accessToken: "[redacted]", list: [{ clientSecret: "[redacted]" }] },
+      Authorization: "[redacted]",
+      credentials: "[redacted]",
+    });
+  });
+
+  it("cuts long strings short and notes their length", () => {
+    const redacted = redactBody({ description: "x".repeat(1500) }) as { description: string };
+
+    assert.equal(redacted.description, `${"x".repeat(1000)}… (1500 characters)`);
+  });
+
+  it("keeps other values as they are", () => {
+    assert.deepEqual(redactBody([1, true, null, "short"]), [1, true, null, "short"]);
+    assert.equal(redactBody(undefined), undefined);
+  });
+});
+
+describe("auditTarget", () => {
+  it("reads the resource and id from the path", () => {
+    assert.deepEqual(auditTarget("/character/c1"), { entityType: "character", entityId: "c1" });
+    assert.deepEqual(auditTarget("/scene/s1?force=true"), { entityType: "scene", entityId: "s1" });
+    assert.deepEqual(auditTarget("/character"), { entityType: "character", entityId: null });
+  });
+
+  it("identifies cast paths by the cast id", () => {
+    assert.deepEqual(auditTarget("/cast/s1/k1"), { entityType: "cast", entityId: "k1" });
+    assert.deepEqual(auditTarget("/cast/s1"), { entityType: "cast", entityId: null });
+  });
+
+  it("has no target for the API root", () => {
+    assert.deepEqual(auditTarget("/"), { entityType: null, entityId: null });
+  });
+});
+
+describe("isMutatingMethod", () => {
+  it("matches writes in any case and nothing else", () => {
+    assert.ok(["POST", "put", "Patch", "DELETE"].every(isMutatingMethod));
+    assert.ok(!["GET", "HEAD", "OPTIONS"].some(isMutatingMethod));
+  });
+});
@@ -0,0 +1,68 @@
+import { storage } from "./storage";
+import type { InsertAuditEntry } from "@shared/schema";
+
+/**
+ * Audit log of mutating calls through the LunchWith.ai proxy.
+ *
+ * Every POST, PUT, PATCH and DELETE the proxy forwards is recorded once its
+ * response is sent: the caller's Cognito sub and username, the selected LWAI
+ * account and environment, the endpoint, the status returned to the browser,
+ * the latency, and the request body. Reads go through /api/audit.
+ *
+ * Bodies are stored redacted: values under keys that look like secrets
+ * (passwords, tokens, API keys) are replaced, and long strings are cut short.
+ */
+
+const MUTATING_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+const SECRET_KEY = /password|secret|token|authorization|api[-_]?key|credential/i;
+const REDACTED = "[redacted]";
+
+// Longest string stored from a request body, in characters
+const MAX_STRING_LENGTH = 1000;
+
+export function isMutatingMethod(method: string): boolean {
+  return MUTATING_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Copies a request body with secrets replaced and long strings truncated
+ */
+export function redactBody(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} characters)`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(redactBody);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, SECRET_KEY.test(key) ? REDACTED : redactBody(field)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * The resource a call targets: the first path segment and the id after it
+ * Cast paths (/cast/{scene_id}/{cast_id}) are identified by the cast id.
+ * @param endpoint - Path relative to the API base, possibly with a query string
+ */
+export function auditTarget(endpoint: string): { entityType: string | null; entityId: string | null } {
+  const [resource, ...ids] = endpoint.split("?")[0].split("/").filter(Boolean);
+  const entityId = resource === "cast" ? ids[1] : ids[0];
+  return { entityType: resource ?? null, entityId: entityId ?? null };
+}
+
+/**
+ * Records a call in the audit log
+ * Failures are logged, never thrown: auditing must not break the proxy.
+ */
+export async function recordAuditEntry(entry: InsertAuditEntry) {
+  try {
+    const requestBody = redactBody(entry.requestBody ?? null) as InsertAuditEntry["requestBody"];
+    await storage.createAuditEntry({ ...entry, requestBody });
+  } catch (error) {
+    console.error("Audit: failed to record call:", error);
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { generateKeyPairSync, sign, type KeyObject } from "crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+// auth.ts reads its configuration when it is loaded, so the JWKS file and the
+// pool and client ids are set up before it is imported below
+const USER_POOL_ID = "us-west-2_TestPool";
+const CLIENT_ID = "test-client";
+const ISSUER = `https://cognito-idp.us-west-2.amazonaws.com/${USER_POOL_ID}`;
+const KID = "test-key";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const { privateKey: otherPrivateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const jwksDir = mkdtempSync(path.join(tmpdir(), "auth-test-"));
+const jwksFile = path.join(jwksDir, "jwks.json");
+writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: KID, alg: "RS256" }] }));
+
+process.env.COGNITO_JWKS_FILE = jwksFile;
+process.env.COGNITO_USER_POOL_ID = USER_POOL_ID;
+process.env.COGNITO_CLIENT_ID = CLIENT_ID;
+
+const {
+  AuthError,
+  verifyAccessToken,
+  getLwaiAccounts,
+  assertAccountAccess,
+  getTokenAuthor,
+  getTokenSubject,
+} = await import("./auth");
+
+after(() => rmSync(jwksDir, { recursive: true, force: true }));
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+const now = () => Math.floor(Date.now() / 1000);
+
+// Builds a bearer header for a token with the given claims, signed like Cognito's
+function bearer(
+  claims: Record<string, unknown>,
+  { key = privateKey, header = { alg: "RS256", kid: KID } }: { key?: KeyObject; header?: Record<string, unknown> } = {},
+) {
+  const signed = `${encode(header)}.${encode({
+    sub: "sub-1",
+    iss: ISSUER,
+    client_id: CLIENT_ID,
+    token_use: "access",
+    exp: now() + 3600,
+    ...claims,
+  })}`;
+  const signature = sign("RSA-SHA256", Buffer.from(signed), key).toString("base64url");
+  return `Bearer ${signed}.${signature}`;
+}
+
+// Asserts that verifying the header fails with an AuthError of the status
+async function assertRejected(authHeader: string, status: number, detail?: RegExp) {
+  await assert.rejects(verifyAccessToken(authHeader), (error: unknown) => {
+    assert.ok(error instanceof AuthError);
+    assert.equal(error.status, status);
+    if (detail) assert.match(error.detail, detail);
+    return true;
+  });
+}
+
+describe("verifyAccessToken", () => {
+  it("returns the claims of a valid access token", async () => {
+    const claims = await verifyAccessToken(bearer({ username: "ava" }));
+
+    assert.equal(claims.sub, "sub-1");
+    assert.equal(claims.username, "ava");
+  });
+
+  it("rejects a header without a JWT", async () => {
+    await assertRejected("Bearer not-a-token", 401, /does not contain a JWT/);
+  });
+
+  it("rejects tokens that are not RS256", async () => {
+    await assertRejected(bearer({}, { header: { alg: "none", kid: KID } }), 401, /Unsupported token algorithm/);
+  });
+
+  it("rejects tokens signed by an unknown key", async () => {
+    await assertRejected(bearer({}, { header: { alg: "RS256", kid: "rotated-away" } }), 401, /unknown key/);
+  });
+
+  it("rejects a signature made with another key", async () => {
+    await assertRejected(bearer({}, { key: otherPrivateKey }), 401, /signature is invalid/);
+  });
+
+  it("rejects tokens without the required claims", async () => {
+    await assertRejected(bearer({ sub: 42 }), 401, /claims are invalid/);
+  });
+
+  it("rejects expired tokens, allowing for clock skew", async () => {
+    await assertRejected(bearer({ exp: now() - 120 }), 401, /expired/);
+    await verifyAccessToken(bearer({ exp: now() - 10 }));
+  });
+
+  it("rejects tokens that are not valid yet", async () => {
+    await assertRejected(bearer({ nbf: now() + 120 }), 401, /not valid yet/);
+  });
+
+  it("rejects tokens from another user pool", async () => {
+    await assertRejected(bearer({ iss: "https://cognito-idp.us-west-2.amazonaws.com/us-west-2_Other" }), 401, /different user pool/);
+  });
+
+  it("rejects tokens issued for another client", async () => {
+    await assertRejected(bearer({ client_id: "other-client" }), 401, /different client/);
+  });
+
+  it("rejects ID tokens", async () => {
+    await assertRejected(bearer({ token_use: "id" }), 401, /access token is required/);
+  });
+});
+
+describe("account claims", () => {
+  const claims = (extra: Record<string, unknown>) => ({ sub: "sub-1", exp: now() + 3600, ...extra });
+
+  it("reads lwai_accounts as an array, a JSON string or a comma-delimited string", () => {
+    assert.deepEqual(getLwaiAccounts(claims({ lwai_accounts: ["a", "b"] })), ["a", "b"]);
+    assert.deepEqual(getLwaiAccounts(claims({ lwai_accounts: '["a","b"]' })), ["a", "b"]);
+    assert.deepEqual(getLwaiAccounts(claims({ "custom:lwai_accounts": "a, b," })), ["a", "b"]);
+    assert.equal(getLwaiAccounts(claims({})), undefined);
+  });
+
+  it("refuses accounts missing from lwai_accounts unless the caller is an admin", () => {
+    assert.doesNotThrow(() => assertAccountAccess(claims({ lwai_accounts: ["a"] }), "a"));
+    assert.throws(() => assertAccountAccess(claims({ lwai_accounts: ["a"] }), "b"), (error: unknown) => {
+      return error instanceof AuthError && error.status === 403;
+    });
+    assert.doesNotThrow(() => assertAccountAccess(claims({ lwai_accounts: ["a"], "cognito:groups": ["admin"] }), "b"));
+    assert.doesNotThrow(() => assertAccountAccess(claims({}), "b"));
+  });
+
+  it("labels stub tokens with their username", () => {
+    assert.equal(getTokenAuthor("Bearer stub-ava"), "ava");
+    assert.equal(getTokenSubject("Bearer stub-ava"), "ava");
+    assert.equal(getTokenSubject("Bearer not-a-token"), "unknown");
+  });
+});
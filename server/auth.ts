@@ -0,0 +1,322 @@
+import { createPublicKey, verify, type KeyObject } from "crypto";
+import { readFile } from "fs/promises";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+/**
+ * Cognito access token verification for the proxy.
+ *
+ * Mirrors the rules the LunchWith.ai backend applies behind its JWT authorizer:
+ * - The token must be an RS256 JWT signed by a key in the configured JWKS
+ * - Expired tokens are rejected with 401
+ * - Non-admin callers may only select accounts listed in their lwai_accounts
+ *   claim; callers in the "admin" group (cognito:groups) may select any account
+ *
+ * JWKS source, first match wins:
+ * - COGNITO_JWKS_FILE: path to a local JWKS JSON file (tests, offline use)
+ * - COGNITO_JWKS_URL: URL of a JWKS document
+ * - COGNITO_USER_POOL_ID: the user pool's standard jwks.json URL
+ * With none of these set, verification is disabled and the proxy only checks
+ * that the headers are present (the upstream API still verifies tokens).
+ *
+ * COGNITO_USER_POOL_ID and COGNITO_CLIENT_ID, when set, are also checked
+ * against the token's iss and client_id claims.
+ *
+ * The JWKS is reloaded when a token names an unknown kid (keys rotate), but at
+ * most once per JWKS_RELOAD_INTERVAL_MS, and kids still unknown after a reload
+ * are remembered for a while so they do not trigger further reloads.
+ */
+
+const ADMIN_GROUP = "admin";
+
+// Allowed clock difference when checking exp/nbf, in seconds
+const CLOCK_SKEW_SECONDS = 30;
+
+// Shortest time between JWKS reloads, and how long an unknown kid is
+// remembered as unknown, in milliseconds
+const JWKS_RELOAD_INTERVAL_MS = 60 * 1000;
+const UNKNOWN_KID_TTL_MS = 10 * 60 * 1000;
+// Most unknown kids remembered; the oldest is forgotten first
+const MAX_UNKNOWN_KIDS = 100;
+
+export class AuthError extends Error {
+  constructor(
+    readonly status: 401 | 403,
+    readonly title: string,
+    readonly detail: string,
+  ) {
+    super(detail);
+  }
+}
+
+export interface TokenClaims {
+  sub: string;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+interface Jwk {
+  kid: string;
+  kty: string;
+  alg?: string;
+  [field: string]: unknown;
+}
+
+const tokenHeaderSchema = z.object({
+  alg: z.string().optional(),
+  kid: z.string().optional(),
+}).passthrough();
+
+// Claims the checks below read; others are kept as they are
+const tokenClaimsSchema = z.object({
+  sub: z.string(),
+  exp: z.number(),
+  nbf: z.number().optional(),
+  iss: z.string().optional(),
+  token_use: z.string().optional(),
+  client_id: z.string().optional(),
+}).passthrough();
+
+const tokenPayloadSchema = z.record(z.string(), z.unknown());
+
+const userPoolId = process.env.COGNITO_USER_POOL_ID;
+const clientId = process.env.COGNITO_CLIENT_ID;
+
+// User pool ids look like "us-west-2_AbCdEf123"; the region is the prefix
+const issuer = userPoolId
+  ? `https://cognito-idp.${userPoolId.split("_")[0]}.amazonaws.com/${userPoolId}`
+  : undefined;
+
+const jwksFile = process.env.COGNITO_JWKS_FILE;
+const jwksUrl = process.env.COGNITO_JWKS_URL ?? (issuer ? `${issuer}/.well-known/jwks.json` : undefined);
+
+export const isTokenVerificationEnabled = Boolean(jwksFile || jwksUrl);
+
+let cachedKeys: Map<string, KeyObject> | null = null;
+// When the JWKS was last requested, for JWKS_RELOAD_INTERVAL_MS
+let lastLoadStartedAt = 0;
+// Load in progress, shared by concurrent requests
+let pendingLoad: Promise<void> | null = null;
+// Kids missing from the JWKS, with when they were found missing
+const unknownKids = new Map<string, number>();
+
+async function loadKeys(): Promise<Map<string, KeyObject>> {
+  const raw = jwksFile
+    ? await readFile(jwksFile, "utf8")
+    : await fetch(jwksUrl!).then((response) => {
+        if (!response.ok) throw new Error(`JWKS request failed: ${response.status}`);
+        return response.text();
+      });
+
+  const { keys } = JSON.parse(raw) as { keys: Jwk[] };
+  const map = new Map<string, KeyObject>();
+  keys
+    .filter((jwk) => jwk.kty === "RSA")
+    .forEach((jwk) => map.set(jwk.kid, createPublicKey({ key: jwk, format: "jwk" })));
+  return map;
+}
+
+/**
+ * Loads the JWKS into cachedKeys
+ * A failed reload keeps the keys loaded before; only a failed first load throws.
+ */
+async function reloadKeys() {
+  pendingLoad ??= (async () => {
+    lastLoadStartedAt = Date.now();
+    try {
+      cachedKeys = await loadKeys();
+    } catch (error) {
+      if (!cachedKeys) throw error;
+      console.error("Auth: JWKS reload failed, keeping the keys loaded before:", error);
+    }
+  })().finally(() => {
+    pendingLoad = null;
+  });
+  await pendingLoad;
+}
+
+function rememberUnknownKid(kid: string) {
+  unknownKids.delete(kid);
+  unknownKids.set(kid, Date.now());
+  if (unknownKids.size > MAX_UNKNOWN_KIDS) {
+    unknownKids.delete(unknownKids.keys().next().value!);
+  }
+}
+
+/**
+ * Returns the signing key for a kid, reloading the JWKS for unknown kids so
+ * rotated keys are picked up (throttled, see JWKS_RELOAD_INTERVAL_MS)
+ */
+async function getSigningKey(kid: string): Promise<KeyObject | undefined> {
+  const cached = cachedKeys?.get(kid);
+  if (cached) return cached;
+
+  const missingSince = unknownKids.get(kid);
+  const knownMissing = missingSince !== undefined && Date.now() - missingSince < UNKNOWN_KID_TTL_MS;
+  if (!cachedKeys || (!knownMissing && Date.now() - lastLoadStartedAt >= JWKS_RELOAD_INTERVAL_MS)) {
+    await reloadKeys();
+  }
+
+  const key = cachedKeys?.get(kid);
+  if (!key) rememberUnknownKid(kid);
+  return key;
+}
+
+/**
+ * Decodes a base64url JSON segment of a token
+ * @throws if the segment is not base64url-encoded JSON
+ */
+function decodeSegment(segment: string): unknown {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+/**
+ * Verifies a bearer token and returns its claims
+ * @param authHeader - Authorization header value ("Bearer <token>")
+ * @throws AuthError (401) if the token is malformed, unsigned, expired or not for this pool
+ */
+export async function verifyAccessToken(authHeader: string): Promise<TokenClaims> {
+  const token = authHeader.replace(/^Bearer\s+/i, "");
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    throw new AuthError(401, "Unauthorized", "Authorization header does not contain a JWT");
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  let header: z.infer<typeof tokenHeaderSchema>;
+  let payload: unknown;
+  try {
+    header = tokenHeaderSchema.parse(decodeSegment(encodedHeader));
+    payload = decodeSegment(encodedPayload);
+  } catch {
+    throw new AuthError(401, "Unauthorized", "Access token could not be decoded");
+  }
+
+  if (header.alg !== "RS256" || !header.kid) {
+    throw new AuthError(401, "Unauthorized", `Unsupported token algorithm: ${header.alg ?? "none"}`);
+  }
+
+  const key = await getSigningKey(header.kid);
+  if (!key) {
+    throw new AuthError(401, "Unauthorized", "Access token was signed by an unknown key");
+  }
+
+  const signatureValid = verify(
+    "RSA-SHA256",
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    key,
+    Buffer.from(encodedSignature, "base64url"),
+  );
+  if (!signatureValid) {
+    throw new AuthError(401, "Unauthorized", "Access token signature is invalid");
+  }
+
+  const parsedClaims = tokenClaimsSchema.safeParse(payload);
+  if (!parsedClaims.success) {
+    throw new AuthError(401, "Unauthorized", `Access token claims are invalid: ${fromZodError(parsedClaims.error).message}`);
+  }
+  const claims = parsedClaims.data;
+
+  const now = Math.floor(Date.now() / 1000);
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) {
+    const expiredAt = new Date(claims.exp * 1000).toISOString();
+    throw new AuthError(401, "Token expired", `Access token expired at ${expiredAt}. Please sign in again.`);
+  }
+  if (claims.nbf !== undefined && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new AuthError(401, "Unauthorized", "Access token is not valid yet");
+  }
+  if (issuer && claims.iss !== issuer) {
+    throw new AuthError(401, "Unauthorized", "Access token was issued by a different user pool");
+  }
+  if (claims.token_use !== undefined && claims.token_use !== "access") {
+    throw new AuthError(401, "Unauthorized", "An access token is required, not an ID token");
+  }
+  if (clientId && claims.client_id !== clientId) {
+    throw new AuthError(401, "Unauthorized", "Access token was issued for a different client");
+  }
+
+  return claims;
+}
+
+/**
+ * Reads the lwai_accounts claim, which may be a JSON array, a JSON-encoded
+ * array string, or a comma-delimited string
+ * @returns The allowed account ids, or undefined if the claim is absent
+ */
+export function getLwaiAccounts(claims: TokenClaims): string[] | undefined {
+  const claim = claims.lwai_accounts ?? claims["custom:lwai_accounts"];
+  if (Array.isArray(claim)) return claim.map(String);
+  if (typeof claim !== "string") return undefined;
+
+  const trimmed = claim.trim();
+  if (trimmed.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed.map(String);
+    } catch {
+      // Fall through to comma-delimited parsing
+    }
+  }
+  return trimmed.split(",").map((id) => id.trim()).filter(Boolean);
+}
+
+export function isAdmin(claims: TokenClaims): boolean {
+  const groups = claims["cognito:groups"];
+  return Array.isArray(groups) && groups.includes(ADMIN_GROUP);
+}
+
+/**
+ * Checks that the caller may act on an account
+ * Without an lwai_accounts claim the upstream API decides (it maps sub to accounts)
+ * @throws AuthError (403) if the account is not in the caller's lwai_accounts
+ */
+export function assertAccountAccess(claims: TokenClaims, userId: string) {
+  if (isAdmin(claims)) return;
+
+  const accounts = getLwaiAccounts(claims);
+  if (accounts && !accounts.includes(userId)) {
+    throw new AuthError(403, "Forbidden", `Account ${userId} is not in this token's lwai_accounts`);
+  }
+}
+
+/**
+ * Reads a token's claims for labelling requests: the verified claims when
+ * there are some, otherwise the payload decoded without verification
+ */
+function readTokenPayload(token: string, claims?: TokenClaims): Record<string, unknown> | undefined {
+  if (claims) return claims;
+  try {
+    const payload = tokenPayloadSchema.safeParse(decodeSegment(token.split(".")[1] ?? ""));
+    return payload.success ? payload.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Who made a request, for history records: the token's username, else its sub
+ * Uses the verified claims when there are some; otherwise the token payload
+ * is decoded without verification, which is only good enough for labelling.
+ * Stub tokens from the mock sign-in ("stub-<username>") give the username.
+ */
+export function getTokenAuthor(authHeader: string, claims?: TokenClaims): string {
+  const token = authHeader.replace(/^Bearer\s+/i, "");
+  if (token.startsWith("stub-")) return token.slice("stub-".length) || "unknown";
+
+  const payload = readTokenPayload(token, claims);
+  const author = payload?.username ?? payload?.["cognito:username"] ?? payload?.sub;
+  return typeof author === "string" && author ? author : "unknown";
+}
+
+/**
+ * The Cognito sub of a request's token, for audit records
+ * Read the same way as getTokenAuthor. Stub tokens have no sub, so the stub
+ * username stands in for it.
+ */
+export function getTokenSubject(authHeader: string, claims?: TokenClaims): string {
+  const token = authHeader.replace(/^Bearer\s+/i, "");
+  if (token.startsWith("stub-")) return token.slice("stub-".length) || "unknown";
+
+  const sub = readTokenPayload(token, claims)?.sub;
+  return typeof sub === "string" && sub ? sub : "unknown";
+}
@@ -0,0 +1,18 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+/**
+ * Postgres connection for DbStorage, through the Neon serverless driver.
+ * The driver talks to Postgres over WebSockets; Node has no global WebSocket
+ * before v22, so the ws package provides it.
+ */
+
+neonConfig.webSocketConstructor = ws;
+
+export function createDatabase(connectionString: string) {
+  return drizzle({ client: new Pool({ connectionString }), schema });
+}
+
+export type Database = ReturnType<typeof createDatabase>;
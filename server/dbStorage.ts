@@ -0,0 +1,246 @@
+import { and, asc, desc, eq, gte, inArray, lt, or, sql, type SQL } from "drizzle-orm";
+import {
+  users,
+  storyResponses,
+  entityVersions,
+  auditLog,
+  formDrafts,
+  entityTemplates,
+  accountSnapshots,
+  type User,
+  type InsertUser,
+  type StoryResponse,
+  type InsertStoryResponse,
+  type EntityVersion,
+  type InsertEntityVersion,
+  type EntityType,
+  type AuditEntry,
+  type InsertAuditEntry,
+  type FormDraft,
+  type InsertFormDraft,
+  type FormDraftKey,
+  type EntityTemplate,
+  type InsertEntityTemplate,
+  type AccountSnapshot,
+  type InsertAccountSnapshot,
+} from "@shared/schema";
+import type { Database } from "./db";
+import type { IStorage, AuditLogFilter } from "./storage";
+
+/**
+ * IStorage backed by Postgres through Drizzle (tables in shared/schema.ts).
+ * Mirrors MemStorage: same filters, same ordering, same "not found" results.
+ * Rows with the same timestamp are ordered by their seq column (insertion
+ * order), as in MemStorage.
+ */
+export class DbStorage implements IStorage {
+  constructor(private readonly db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createStoryResponse(insertResponse: InsertStoryResponse): Promise<StoryResponse> {
+    const [response] = await this.db.insert(storyResponses).values(insertResponse).returning();
+    return response;
+  }
+
+  async getStoryResponses(
+    userId: string,
+    environment: string,
+    storyId: string,
+    since?: Date,
+  ): Promise<StoryResponse[]> {
+    return this.db
+      .select()
+      .from(storyResponses)
+      .where(
+        and(
+          eq(storyResponses.userId, userId),
+          eq(storyResponses.environment, environment),
+          eq(storyResponses.storyId, storyId),
+          since ? gte(storyResponses.receivedAt, since) : undefined,
+        ),
+      )
+      .orderBy(asc(storyResponses.receivedAt), asc(storyResponses.seq));
+  }
+
+  async createEntityVersion(insertVersion: InsertEntityVersion): Promise<EntityVersion> {
+    const [version] = await this.db.insert(entityVersions).values(insertVersion).returning();
+    return version;
+  }
+
+  async getEntityVersions(
+    userId: string,
+    environment: string,
+    entityType: EntityType,
+    entityId: string,
+  ): Promise<EntityVersion[]> {
+    return this.db
+      .select()
+      .from(entityVersions)
+      .where(
+        and(
+          eq(entityVersions.userId, userId),
+          eq(entityVersions.environment, environment),
+          eq(entityVersions.entityType, entityType),
+          eq(entityVersions.entityId, entityId),
+        ),
+      )
+      .orderBy(desc(entityVersions.createdAt), desc(entityVersions.seq));
+  }
+
+  async createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const [entry] = await this.db.insert(auditLog).values(insertEntry).returning();
+    return entry;
+  }
+
+  async getAuditEntries(filter: AuditLogFilter): Promise<AuditEntry[]> {
+    const conditions: Array<SQL | undefined> = [
+      filter.userIds ? inArray(auditLog.userId, filter.userIds) : undefined,
+      filter.user ? or(eq(auditLog.sub, filter.user), eq(auditLog.author, filter.user)) : undefined,
+      filter.entityType ? eq(auditLog.entityType, filter.entityType) : undefined,
+      filter.entityId ? eq(auditLog.entityId, filter.entityId) : undefined,
+      filter.since ? gte(auditLog.createdAt, filter.since) : undefined,
+      filter.until ? lt(auditLog.createdAt, filter.until) : undefined,
+    ];
+
+    return this.db
+      .select()
+      .from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.seq))
+      .limit(filter.limit);
+  }
+
+  /**
+   * Condition matching the draft with a key
+   */
+  private draftWhere({ owner, userId, environment, draftKey }: FormDraftKey) {
+    return and(
+      eq(formDrafts.owner, owner),
+      eq(formDrafts.userId, userId),
+      eq(formDrafts.environment, environment),
+      eq(formDrafts.draftKey, draftKey),
+    );
+  }
+
+  async getDraft(key: FormDraftKey): Promise<FormDraft | undefined> {
+    const [draft] = await this.db.select().from(formDrafts).where(this.draftWhere(key));
+    return draft;
+  }
+
+  async getDrafts(owner: string, userId: string, environment: string): Promise<FormDraft[]> {
+    return this.db
+      .select()
+      .from(formDrafts)
+      .where(
+        and(
+          eq(formDrafts.owner, owner),
+          eq(formDrafts.userId, userId),
+          eq(formDrafts.environment, environment),
+        ),
+      )
+      .orderBy(desc(formDrafts.updatedAt), desc(formDrafts.seq));
+  }
+
+  async saveDraft(insertDraft: InsertFormDraft): Promise<FormDraft> {
+    const [draft] = await this.db
+      .insert(formDrafts)
+      .values(insertDraft)
+      .onConflictDoUpdate({
+        target: [formDrafts.owner, formDrafts.userId, formDrafts.environment, formDrafts.draftKey],
+        // The database clock, as for new drafts, so updatedAt and seq agree
+        set: {
+          content: insertDraft.content,
+          seq: sql`nextval(pg_get_serial_sequence('form_drafts', 'seq'))`,
+          updatedAt: sql`now()`,
+        },
+      })
+      .returning();
+    return draft;
+  }
+
+  async deleteDraft(key: FormDraftKey): Promise<boolean> {
+    const deleted = await this.db.delete(formDrafts).where(this.draftWhere(key)).returning({ id: formDrafts.id });
+    return deleted.length > 0;
+  }
+
+  async getTemplates(userId: string, entityType?: EntityType): Promise<EntityTemplate[]> {
+    return this.db
+      .select()
+      .from(entityTemplates)
+      .where(
+        and(
+          eq(entityTemplates.userId, userId),
+          entityType ? eq(entityTemplates.entityType, entityType) : undefined,
+        ),
+      )
+      // Code point order, independent of the database's locale (as in MemStorage)
+      .orderBy(sql`${entityTemplates.name} collate "C"`, asc(entityTemplates.seq));
+  }
+
+  async getTemplate(id: string): Promise<EntityTemplate | undefined> {
+    const [template] = await this.db.select().from(entityTemplates).where(eq(entityTemplates.id, id));
+    return template;
+  }
+
+  async createTemplate(insertTemplate: InsertEntityTemplate): Promise<EntityTemplate> {
+    const [template] = await this.db.insert(entityTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateTemplate(id: string, changes: Partial<InsertEntityTemplate>): Promise<EntityTemplate | undefined> {
+    const [template] = await this.db
+      .update(entityTemplates)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(entityTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(entityTemplates)
+      .where(eq(entityTemplates.id, id))
+      .returning({ id: entityTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async createSnapshot(insertSnapshot: InsertAccountSnapshot): Promise<AccountSnapshot> {
+    const [snapshot] = await this.db.insert(accountSnapshots).values(insertSnapshot).returning();
+    return snapshot;
+  }
+
+  async getSnapshots(userId: string, environment: string): Promise<AccountSnapshot[]> {
+    return this.db
+      .select()
+      .from(accountSnapshots)
+      .where(and(eq(accountSnapshots.userId, userId), eq(accountSnapshots.environment, environment)))
+      .orderBy(desc(accountSnapshots.createdAt), desc(accountSnapshots.seq));
+  }
+
+  async getSnapshot(id: string): Promise<AccountSnapshot | undefined> {
+    const [snapshot] = await this.db.select().from(accountSnapshots).where(eq(accountSnapshots.id, id));
+    return snapshot;
+  }
+
+  async deleteSnapshot(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(accountSnapshots)
+      .where(eq(accountSnapshots.id, id))
+      .returning({ id: accountSnapshots.id });
+    return deleted.length > 0;
+  }
+}
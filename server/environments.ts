@@ -0,0 +1,105 @@
+/**
+ * Upstream LunchWith.ai environments the proxy can forward to.
+ *
+ * Built-in environments:
+ * - beta:  https://beta.lunchwith.ai
+ * - api2:  https://api2.lunchwith.ai (production data)
+ * - local: the in-process mock API (server/mockLunchWith.ts), only offered
+ *   when LUNCHWITH_API_MOCK=true or outside production (NODE_ENV)
+ *
+ * LUNCHWITH_ENVIRONMENTS adds or overrides environments with a JSON object of
+ * name -> base URL (or { baseUrl, label, production }). LUNCHWITH_ENVIRONMENT
+ * picks the default; LUNCHWITH_API_MOCK=true makes "local" the default.
+ * Each request may choose another environment with the X-LWAI-Environment header.
+ */
+
+export const ENVIRONMENT_HEADER = "x-lwai-environment";
+
+// Name of the environment served by the in-process mock
+export const MOCK_ENVIRONMENT = "local";
+
+export interface UpstreamEnvironment {
+  name: string;
+  label: string;
+  // Undefined means requests are served by the in-process mock
+  baseUrl?: string;
+  production: boolean;
+}
+
+const isMockEnabled = process.env.LUNCHWITH_API_MOCK === "true" || process.env.NODE_ENV !== "production";
+
+const BUILT_IN_ENVIRONMENTS: UpstreamEnvironment[] = [
+  { name: "beta", label: "Beta", baseUrl: "https://beta.lunchwith.ai", production: false },
+  { name: "api2", label: "API2", baseUrl: "https://api2.lunchwith.ai", production: true },
+  ...(isMockEnabled ? [{ name: MOCK_ENVIRONMENT, label: "Local mock", production: false }] : []),
+];
+
+/**
+ * Parses LUNCHWITH_ENVIRONMENTS, ignoring (and logging) malformed entries
+ */
+function parseConfiguredEnvironments(raw: string | undefined): UpstreamEnvironment[] {
+  if (!raw) return [];
+
+  let config: unknown;
+  try {
+    config = JSON.parse(raw);
+  } catch (error) {
+    console.error("Ignoring LUNCHWITH_ENVIRONMENTS: not valid JSON");
+    return [];
+  }
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    console.error("Ignoring LUNCHWITH_ENVIRONMENTS: expected an object of name -> base URL");
+    return [];
+  }
+
+  const environments: UpstreamEnvironment[] = [];
+  for (const [name, value] of Object.entries(config as Record<string, any>)) {
+    if (typeof value === "string") {
+      environments.push({ name, label: name, baseUrl: value, production: false });
+    } else if (value && typeof value === "object" && typeof value.baseUrl === "string") {
+      environments.push({
+        name,
+        label: typeof value.label === "string" ? value.label : name,
+        baseUrl: value.baseUrl,
+        production: value.production === true,
+      });
+    } else {
+      console.error(`Ignoring LUNCHWITH_ENVIRONMENTS entry "${name}": missing baseUrl`);
+    }
+  }
+  return environments;
+}
+
+function loadEnvironments(): Map<string, UpstreamEnvironment> {
+  const environments = new Map<string, UpstreamEnvironment>();
+  [...BUILT_IN_ENVIRONMENTS, ...parseConfiguredEnvironments(process.env.LUNCHWITH_ENVIRONMENTS)].forEach(
+    (environment) => environments.set(environment.name, environment),
+  );
+  return environments;
+}
+
+const environments = loadEnvironments();
+
+const defaultEnvironmentName = (() => {
+  const configured = process.env.LUNCHWITH_ENVIRONMENT;
+  if (configured && environments.has(configured)) return configured;
+  if (configured) console.error(`Unknown LUNCHWITH_ENVIRONMENT "${configured}", using the default`);
+  return process.env.LUNCHWITH_API_MOCK === "true" ? MOCK_ENVIRONMENT : "beta";
+})();
+
+export function listEnvironments(): UpstreamEnvironment[] {
+  return Array.from(environments.values());
+}
+
+export function getDefaultEnvironment(): UpstreamEnvironment {
+  return environments.get(defaultEnvironmentName)!;
+}
+
+/**
+ * Resolves the environment requested by a header value
+ * @returns The environment, the default when no name is given, or undefined if unknown
+ */
+export function resolveEnvironment(name: string | undefined): UpstreamEnvironment | undefined {
+  if (!name) return getDefaultEnvironment();
+  return environments.get(name);
+}
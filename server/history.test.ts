@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { matchEntityWrite, readEntityBefore, type Forward } from "./history";
+
+describe("matchEntityWrite", () => {
+  it("recognises character and scene writes", () => {
+    assert.deepEqual(matchEntityWrite("POST", "/character"), { entityType: "character", action: "create", entityId: undefined });
+    assert.deepEqual(matchEntityWrite("put", "/scene/s1"), { entityType: "scene", action: "update", entityId: "s1" });
+    assert.deepEqual(matchEntityWrite("DELETE", "/character/c1?soft=true"), { entityType: "character", action: "delete", entityId: "c1" });
+  });
+
+  it("recognises cast writes with their scene", () => {
+    assert.deepEqual(matchEntityWrite("POST", "/cast/s1"), { entityType: "cast", action: "create", sceneId: "s1", entityId: undefined });
+    assert.deepEqual(matchEntityWrite("PUT", "/cast/s1/k1"), { entityType: "cast", action: "update", sceneId: "s1", entityId: "k1" });
+  });
+
+  it("ignores reads, other methods and other paths", () => {
+    assert.equal(matchEntityWrite("GET", "/character/c1"), null);
+    assert.equal(matchEntityWrite("PATCH", "/character/c1"), null);
+    assert.equal(matchEntityWrite("POST", "/story/st1/post_response/k1"), null);
+    assert.equal(matchEntityWrite("POST", "/character/c1"), null);
+    assert.equal(matchEntityWrite("PUT", "/scene"), null);
+    assert.equal(matchEntityWrite("DELETE", "/cast/s1"), null);
+  });
+});
+
+describe("readEntityBefore", () => {
+  // Answers every request with the body and status, recording the paths read
+  const forwardWith = (body: unknown, status = 200) => {
+    const paths: string[] = [];
+    const forward: Forward = async (endpoint) => {
+      paths.push(endpoint);
+      return new Response(JSON.stringify(body), { status });
+    };
+    return { forward, paths };
+  };
+
+  it("reads cast members from the single-cast endpoint", async () => {
+    const { forward, paths } = forwardWith({ results: [{ cast_id: "k1", role: "Host" }] });
+
+    const before = await readEntityBefore({ entityType: "cast", action: "update", sceneId: "s1", entityId: "k1" }, forward);
+
+    assert.deepEqual(paths, ["/cast/s1/k1"]);
+    assert.deepEqual(before, { cast_id: "k1", role: "Host" });
+  });
+
+  it("reads nothing for creates and gives null when the read fails", async () => {
+    const { forward, paths } = forwardWith({ title: "Not Found" }, 404);
+
+    assert.equal(await readEntityBefore({ entityType: "character", action: "create" }, forward), null);
+    assert.equal(await readEntityBefore({ entityType: "character", action: "delete", entityId: "c1" }, forward), null);
+    assert.deepEqual(paths, ["/character/c1"]);
+  });
+});
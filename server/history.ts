@@ -0,0 +1,140 @@
+import { storage } from "./storage";
+import type { EntityAction, EntityType } from "@shared/schema";
+
+/**
+ * Version history for characters, scenes and cast members.
+ *
+ * The upstream API keeps no history, so the proxy records every successful
+ * write to these entities as a version: the entity before and after the
+ * write, who made it, and when. Reads go through /api/history.
+ *
+ * Writes recognised (paths relative to the API base):
+ * - POST   /character              PUT|DELETE /character/{id}
+ * - POST   /scene                  PUT|DELETE /scene/{id}
+ * - POST   /cast/{scene_id}        PUT|DELETE /cast/{scene_id}/{cast_id}
+ */
+
+export interface EntityWrite {
+  entityType: EntityType;
+  action: EntityAction;
+  // Unknown for creates until the response arrives
+  entityId?: string;
+  sceneId?: string;
+}
+
+// Forwards a request to the selected environment (the same way the proxy does)
+export type Forward = (endpoint: string, method: string, body?: unknown) => Promise<Response>;
+
+const ID_FIELDS: Record<EntityType, string> = {
+  character: "character_id",
+  scene: "scene_id",
+  cast: "cast_id",
+};
+
+const ACTIONS: Record<string, EntityAction> = { POST: "create", PUT: "update", DELETE: "delete" };
+
+/**
+ * Recognises a character, scene or cast write
+ * @param endpoint - Path relative to the API base, possibly with a query string
+ * @returns The write, or null for reads and other endpoints
+ */
+export function matchEntityWrite(method: string, endpoint: string): EntityWrite | null {
+  const action = ACTIONS[method.toUpperCase()];
+  if (!action) return null;
+
+  const [resource, ...ids] = endpoint.split("?")[0].split("/").filter(Boolean);
+  if (resource === "character" || resource === "scene") {
+    if (action === "create" ? ids.length !== 0 : ids.length !== 1) return null;
+    return { entityType: resource, action, entityId: ids[0] };
+  }
+  if (resource === "cast") {
+    if (action === "create" ? ids.length !== 1 : ids.length !== 2) return null;
+    return { entityType: "cast", action, sceneId: ids[0], entityId: ids[1] };
+  }
+  return null;
+}
+
+/**
+ * Parses an API response body
+ * Bodies may be wrapped in { results: [...] } and, for some legacy
+ * endpoints, JSON-encoded twice.
+ * @returns The unwrapped payload, or undefined if the body is not JSON
+ */
+function readPayload(text: string): any {
+  try {
+    let data = JSON.parse(text);
+    if (typeof data === "string") data = JSON.parse(data);
+    return data && typeof data === "object" && !Array.isArray(data) && "results" in data ? data.results : data;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads one entity from an API response body
+ */
+function readEntity(text: string): Record<string, unknown> | null {
+  const payload = readPayload(text);
+  const item = Array.isArray(payload) ? payload[0] : payload;
+  return item && typeof item === "object" ? item : null;
+}
+
+/**
+ * Reads the current state of the entity a write will change
+ * Cast members are read with GET /cast/{scene_id}/{cast_id}.
+ * @returns The entity, or null if it could not be read (the write still goes ahead)
+ */
+export async function readEntityBefore(write: EntityWrite, forward: Forward): Promise<Record<string, unknown> | null> {
+  if (!write.entityId) return null;
+
+  try {
+    const path =
+      write.entityType === "cast"
+        ? `/cast/${write.sceneId}/${write.entityId}`
+        : `/${write.entityType}/${write.entityId}`;
+    const response = await forward(path, "GET");
+    return response.ok ? readEntity(await response.text()) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Records a successful write as a version
+ * Failures are logged, never thrown: history must not break the proxy.
+ * @param responseText - Body of the upstream response to the write
+ * @returns The id of the entity written (read from the response for creates),
+ *   if known
+ */
+export async function recordEntityWrite(
+  write: EntityWrite,
+  context: { userId: string; environment: string; author: string },
+  before: Record<string, unknown> | null,
+  responseText: string,
+): Promise<string | undefined> {
+  try {
+    const responseEntity = readEntity(responseText);
+    // DELETE responses have no body: soft-deleted entities keep their content
+    const after =
+      write.action === "delete" ? (before ? { ...before, deleted: true } : null) : responseEntity;
+    const entityId = write.entityId ?? (after?.[ID_FIELDS[write.entityType]] as string | undefined);
+    if (!entityId) {
+      console.warn(`History: could not tell which ${write.entityType} was created; version not recorded`);
+      return undefined;
+    }
+
+    await storage.createEntityVersion({
+      ...context,
+      entityType: write.entityType,
+      entityId,
+      sceneId: write.sceneId ?? null,
+      action: write.action,
+      before,
+      after,
+    });
+    return entityId;
+  } catch (error) {
+    console.error("History: failed to record version:", error);
+    return write.entityId;
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { MockLunchWithAPI } from "./mockLunchWith";
+import { MOCK_ACCOUNTS } from "@shared/mock-accounts";
+
+const AUTH = "Bearer stub-tester";
+const [ACCOUNT, OTHER_ACCOUNT] = MOCK_ACCOUNTS.map((account) => account.user_id);
+
+describe("MockLunchWithAPI", () => {
+  let api: MockLunchWithAPI;
+
+  // Sends a call as ACCOUNT and returns the status and parsed body
+  const call = async (endpoint: string, method = "GET", body?: unknown, userId = ACCOUNT) => {
+    const response = await api.handle(endpoint, method, AUTH, userId, body);
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(() => {
+    api = new MockLunchWithAPI();
+  });
+
+  it("creates with POST and answers 200 with the new resource", async () => {
+    const { status, body } = await call("/character", "POST", { name: "Ava", motivation: "Welcome people" });
+
+    assert.equal(status, 200);
+    assert.equal(body.results[0].name, "Ava");
+    assert.equal(body.results[0].description, "");
+    assert.ok(body.results[0].character_id);
+  });
+
+  it("rejects a POST without the required fields", async () => {
+    const { status, body } = await call("/scene", "POST", { description: "No name" });
+
+    assert.equal(status, 400);
+    assert.deepEqual(body, { title: "Bad Request", detail: "Missing required field: name" });
+  });
+
+  it("treats a body that is not an object as having no fields", async () => {
+    const { status } = await call("/character", "POST", "Ava");
+
+    assert.equal(status, 400);
+  });
+
+  it("confirms a DELETE with title and detail", async () => {
+    const created = await call("/character", "POST", { name: "Ava" });
+    const characterId = created.body.results[0].character_id;
+
+    const { status, body } = await call(`/character/${characterId}`, "DELETE");
+
+    assert.equal(status, 200);
+    assert.deepEqual(body, { title: "Success", detail: `Deleted record with id: ${characterId}` });
+  });
+
+  it("no longer lists or returns soft-deleted items", async () => {
+    const created = await call("/character", "POST", { name: "Ava" });
+    const characterId = created.body.results[0].character_id;
+    await call(`/character/${characterId}`, "DELETE");
+
+    const listed = await call("/character");
+    assert.ok(listed.body.results.every((character: { character_id: string }) => character.character_id !== characterId));
+    assert.equal((await call(`/character/${characterId}`)).status, 404);
+    assert.equal((await call(`/character/${characterId}`, "DELETE")).status, 404);
+  });
+
+  it("restores a soft-deleted item with PUT { deleted: false }", async () => {
+    const created = await call("/character", "POST", { name: "Ava" });
+    const characterId = created.body.results[0].character_id;
+    await call(`/character/${characterId}`, "DELETE");
+
+    const restored = await call(`/character/${characterId}`, "PUT", { deleted: false });
+
+    assert.equal(restored.status, 200);
+    assert.equal(restored.body.results[0].deleted, false);
+    assert.equal((await call(`/character/${characterId}`)).status, 200);
+  });
+
+  it("deletes a scene's cast members along with the scene", async () => {
+    const scene = (await call("/scene", "POST", { name: "Cafe" })).body.results[0];
+    const cast = (await call(`/cast/${scene.scene_id}`, "POST", { role: "Host" })).body.results[0];
+
+    await call(`/scene/${scene.scene_id}`, "DELETE");
+
+    assert.equal((await call(`/scene/${scene.scene_id}`)).status, 404);
+    assert.equal((await call(`/cast/${scene.scene_id}/${cast.cast_id}`)).status, 404);
+    assert.deepEqual((await call(`/cast/${scene.scene_id}`)).body.results, []);
+  });
+
+  it("reads a single cast member of a scene", async () => {
+    const scene = (await call("/scene", "POST", { name: "Cafe" })).body.results[0];
+    const cast = (await call(`/cast/${scene.scene_id}`, "POST", { role: "Host", goal: "Pitch" })).body.results[0];
+
+    const { status, body } = await call(`/cast/${scene.scene_id}/${cast.cast_id}`);
+
+    assert.equal(status, 200);
+    assert.deepEqual(body.results, [cast]);
+  });
+
+  it("rejects a preferences update without allowed fields, listing them", async () => {
+    const { status, body } = await call(`/user/me/${ACCOUNT}`, "PUT", { model_name: "other" });
+
+    assert.equal(status, 400);
+    assert.equal(body.detail, "No updatable fields provided; allowed fields are: sqs_url, contactName");
+  });
+
+  it("updates allowed preference fields", async () => {
+    const { status, body } = await call(`/user/me/${ACCOUNT}`, "PUT", { contactName: "renamed", model_name: "other" });
+
+    assert.equal(status, 200);
+    assert.equal(body.results[0].preferences.contactName, "renamed");
+    assert.equal(body.results[0].preferences.model_name, "mock-model");
+  });
+
+  it("keeps each account's data separate", async () => {
+    await call("/character", "POST", { name: "Only in the first account" });
+
+    const other = await call("/character", "GET", undefined, OTHER_ACCOUNT);
+
+    assert.ok(other.body.results.every((character: { name: string }) => character.name !== "Only in the first account"));
+  });
+
+  it("refuses accounts that are not mock accounts", async () => {
+    const { status, body } = await call("/character", "GET", undefined, "someone-else");
+
+    assert.equal(status, 403);
+    assert.equal(body.title, "Forbidden");
+  });
+});
@@ -0,0 +1,472 @@
+import { randomUUID } from "crypto";
+import type {
+  ApiMessage,
+  Character,
+  Scene,
+  Cast,
+  Story,
+  StoryAugment,
+  StoryConversationResponse,
+  UserPreferences,
+} from "@shared/api-types";
+import { MOCK_ACCOUNTS } from "@shared/mock-accounts";
+import { storage } from "./storage";
+import { MOCK_ENVIRONMENT } from "./environments";
+
+/**
+ * In-process stand-in for the LunchWith.ai API, used when LUNCHWITH_API_MOCK=true.
+ *
+ * Mirrors the documented endpoints closely enough for offline development:
+ * - Resources are returned in the { results: [...], statusCode } envelope
+ * - Errors and confirmations (e.g. of a DELETE) are returned as { title, detail }
+ * - DELETE is a soft delete: items are marked deleted: true and are no longer
+ *   listed or returned by GET; PUT { deleted: false } brings them back
+ * - Each X-LWAI-User-Id has its own data, and only MOCK_ACCOUNTS are accepted
+ *
+ * Bearer tokens are not verified. Generated story replies are written straight
+ * to the local delivery inbox instead of an SQS queue.
+ */
+
+interface AccountData {
+  characters: Map<string, Character>;
+  scenes: Map<string, Scene>;
+  cast: Map<string, Cast>;
+  stories: Map<string, Story>;
+  // Keyed by `${story_id}/${cast_id}`
+  augments: Map<string, StoryAugment>;
+  preferences: UserPreferences;
+}
+
+class MockError extends Error {
+  constructor(
+    readonly status: number,
+    readonly title: string,
+    readonly detail: string,
+  ) {
+    super(detail);
+  }
+}
+
+const notFound = (what: string) => new MockError(404, "Not Found", `${what} not found`);
+
+function envelope(status: number, results: unknown[]): Response {
+  return Response.json({ results, statusCode: status }, { status });
+}
+
+function message(status: number, title: string, detail: ApiMessage["detail"]): Response {
+  return Response.json({ title, detail }, { status });
+}
+
+const deletedMessage = (id: string) => message(200, "Success", `Deleted record with id: ${id}`);
+
+/**
+ * The body's fields, or none if the body is not a JSON object
+ */
+function bodyFields(body: unknown): Record<string, unknown> {
+  return body && typeof body === "object" && !Array.isArray(body) ? (body as Record<string, unknown>) : {};
+}
+
+/**
+ * Returns the body's string fields, rejecting missing required ones with a 400
+ */
+function pickStrings(body: unknown, required: string[], optional: string[] = []): Record<string, string> {
+  const fields = bodyFields(body);
+  const picked: Record<string, string> = {};
+  for (const field of [...required, ...optional]) {
+    const value = fields[field];
+    if (value === undefined) {
+      if (required.includes(field)) {
+        throw new MockError(400, "Bad Request", `Missing required field: ${field}`);
+      }
+      continue;
+    }
+    if (typeof value !== "string") {
+      throw new MockError(400, "Bad Request", `Field ${field} must be a string`);
+    }
+    picked[field] = value;
+  }
+  return picked;
+}
+
+export class MockLunchWithAPI {
+  private accounts: Map<string, AccountData>;
+
+  constructor() {
+    this.accounts = new Map();
+    MOCK_ACCOUNTS.forEach((account) => {
+      this.accounts.set(account.user_id, this.seedAccount(account.user_id, account.contactName));
+    });
+  }
+
+  /**
+   * Handles one API call and returns the response the real API would send
+   * @param endpoint - Path after the API base, optionally with a query string
+   * @param method - HTTP method
+   * @param authToken - Authorization header value
+   * @param userId - X-LWAI-User-Id header value
+   * @param body - Parsed JSON body
+   */
+  async handle(endpoint: string, method: string, authToken: string, userId: string, body?: unknown): Promise<Response> {
+    try {
+      const account = this.accounts.get(userId);
+      if (!account) {
+        throw new MockError(403, "Forbidden", `User ${userId} is not an account of the current user`);
+      }
+
+      const segments = endpoint.split("?")[0].split("/").filter(Boolean);
+      const [resource, ...rest] = segments;
+
+      switch (resource) {
+        case "character":
+          return this.handleCharacter(account, method, rest, body);
+        case "scene":
+          return this.handleScene(account, method, rest, body);
+        case "cast":
+          return this.handleCast(account, method, rest, body);
+        case "story":
+          return await this.handleStory(account, method, rest, body);
+        case "user":
+          return this.handleUser(account, method, rest, authToken, body);
+        default:
+          throw notFound(`Endpoint ${endpoint}`);
+      }
+    } catch (error) {
+      if (error instanceof MockError) {
+        return message(error.status, error.title, error.detail);
+      }
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // CHARACTER / SCENE / CAST
+  // ============================================================================
+
+  private handleCharacter(account: AccountData, method: string, [characterId]: string[], body: unknown): Response {
+    if (!characterId) {
+      if (method === "GET") return envelope(200, this.live(account.characters));
+      if (method === "POST") {
+        const fields = pickStrings(body, ["name"], ["description", "motivation"]);
+        const character: Character = {
+          character_id: randomUUID(),
+          name: fields.name,
+          description: fields.description ?? "",
+          motivation: fields.motivation ?? "",
+        };
+        account.characters.set(character.character_id, character);
+        return envelope(200, [character]);
+      }
+    } else {
+      const character = account.characters.get(characterId);
+      if (!character || (character.deleted && method !== "PUT")) throw notFound(`Character ${characterId}`);
+      if (method === "GET") return envelope(200, [character]);
+      if (method === "PUT") {
+        const updated = { ...character, ...pickStrings(body, [], ["name", "description", "motivation"]), ...this.pickDeleted(body) };
+        account.characters.set(characterId, updated);
+        return envelope(200, [updated]);
+      }
+      if (method === "DELETE") {
+        account.characters.set(characterId, { ...character, deleted: true });
+        return deletedMessage(characterId);
+      }
+    }
+    throw this.methodNotAllowed(method);
+  }
+
+  private handleScene(account: AccountData, method: string, [sceneId]: string[], body: unknown): Response {
+    if (!sceneId) {
+      if (method === "GET") return envelope(200, this.live(account.scenes));
+      if (method === "POST") {
+        const fields = pickStrings(body, ["name"], ["description"]);
+        const scene: Scene = {
+          scene_id: randomUUID(),
+          name: fields.name,
+          description: fields.description ?? "",
+        };
+        account.scenes.set(scene.scene_id, scene);
+        return envelope(200, [scene]);
+      }
+    } else {
+      const scene = account.scenes.get(sceneId);
+      if (!scene || (scene.deleted && method !== "PUT")) throw notFound(`Scene ${sceneId}`);
+      if (method === "GET") return envelope(200, [scene]);
+      if (method === "PUT") {
+        const updated = { ...scene, ...pickStrings(body, [], ["name", "description"]), ...this.pickDeleted(body) };
+        account.scenes.set(sceneId, updated);
+        return envelope(200, [updated]);
+      }
+      if (method === "DELETE") {
+        // Deleting a scene also deletes its cast members
+        account.scenes.set(sceneId, { ...scene, deleted: true });
+        account.cast.forEach((cast, castId) => {
+          if (cast.scene_id === sceneId) account.cast.set(castId, { ...cast, deleted: true });
+        });
+        return deletedMessage(sceneId);
+      }
+    }
+    throw this.methodNotAllowed(method);
+  }
+
+  private handleCast(account: AccountData, method: string, [sceneId, castId]: string[], body: unknown): Response {
+    if (!sceneId || !account.scenes.has(sceneId)) throw notFound(`Scene ${sceneId}`);
+
+    if (!castId) {
+      if (method === "GET") {
+        return envelope(200, this.live(account.cast).filter((cast) => cast.scene_id === sceneId));
+      }
+      if (method === "POST") {
+        const fields = pickStrings(body, ["role"], ["goal", "start"]);
+        const cast: Cast = {
+          cast_id: randomUUID(),
+          scene_id: sceneId,
+          role: fields.role,
+          goal: fields.goal ?? "",
+          start: fields.start ?? "",
+        };
+        account.cast.set(cast.cast_id, cast);
+        return envelope(200, [cast]);
+      }
+    } else {
+      const cast = account.cast.get(castId);
+      if (!cast || cast.scene_id !== sceneId || (cast.deleted && method !== "PUT")) {
+        throw notFound(`Cast member ${castId}`);
+      }
+      if (method === "GET") return envelope(200, [cast]);
+      if (method === "PUT") {
+        const updated = { ...cast, ...pickStrings(body, [], ["role", "goal", "start"]), ...this.pickDeleted(body) };
+        account.cast.set(castId, updated);
+        return envelope(200, [updated]);
+      }
+      if (method === "DELETE") {
+        account.cast.set(castId, { ...cast, deleted: true });
+        return deletedMessage(castId);
+      }
+    }
+    throw this.methodNotAllowed(method);
+  }
+
+  // ============================================================================
+  // STORY
+  // ============================================================================
+
+  private async handleStory(account: AccountData, method: string, segments: string[], body: unknown): Promise<Response> {
+    const [storyId, action, first, second, third] = segments;
+
+    if (!storyId) {
+      if (method === "GET") return envelope(200, Array.from(account.stories.values()));
+      throw this.methodNotAllowed(method);
+    }
+
+    if (action === "start_scene" && method === "POST") {
+      const scene = account.scenes.get(first);
+      if (!scene || scene.deleted) throw notFound(`Scene ${first}`);
+      if (account.stories.has(storyId)) {
+        throw new MockError(409, "Conflict", `Story ${storyId} is already active`);
+      }
+      const story: Story = {
+        story_id: storyId,
+        scene_id: scene.scene_id,
+        casting: Array.from(account.cast.values())
+          .filter((cast) => cast.scene_id === scene.scene_id && !cast.deleted)
+          .map(({ cast_id, role, goal, start }) => ({ cast_id, role, goal, start })),
+      };
+      account.stories.set(storyId, story);
+      return envelope(200, [story]);
+    }
+
+    const story = account.stories.get(storyId);
+    if (!story) throw notFound(`Story ${storyId}`);
+
+    if (!action) {
+      if (method === "GET") return envelope(200, [story]);
+      throw this.methodNotAllowed(method);
+    }
+
+    const castingFor = (castId: string) => {
+      const casting = story.casting.find((entry) => entry.cast_id === castId);
+      if (!casting) throw notFound(`Cast member ${castId} in story ${storyId}`);
+      return casting;
+    };
+
+    switch (`${method} ${action}`) {
+      case "POST end_scene":
+        account.stories.delete(storyId);
+        Array.from(account.augments.keys())
+          .filter((key) => key.startsWith(`${storyId}/`))
+          .forEach((key) => account.augments.delete(key));
+        return deletedMessage(storyId);
+      case "POST finish_up":
+        story.finishup = true;
+        return envelope(200, [story]);
+      case "POST end_conversation":
+        story.end_conversation = true;
+        return envelope(200, [story]);
+      case "POST cast": {
+        // /story/{id}/cast/{character_id}/as/{cast_id}
+        const character = account.characters.get(first);
+        if (!character || character.deleted) throw notFound(`Character ${first}`);
+        if (second !== "as") throw notFound(`Endpoint /story/${segments.join("/")}`);
+        castingFor(third).character_id = character.character_id;
+        return envelope(200, [story]);
+      }
+      case "POST summarize":
+        castingFor(first).summarize = true;
+        return envelope(200, [story]);
+      case "POST post_response": {
+        castingFor(first);
+        const { response } = pickStrings(body, ["response"]);
+        const result: StoryConversationResponse = {
+          story_id: storyId,
+          cast_id: first,
+          response_json: { response },
+        };
+        return envelope(200, [result]);
+      }
+      case "GET get_response_step": {
+        const casting = castingFor(first);
+        await storage.createStoryResponse({
+          userId: account.preferences.user_id,
+          environment: MOCK_ENVIRONMENT,
+          storyId,
+          castId: first,
+          response: `(${casting.role ?? "Cast member"} replies in character.)`,
+        });
+        return message(200, "Posted", {
+          message: `Response for cast_id: ${first} being generated for story_id: ${storyId}`,
+        });
+      }
+    }
+
+    if (action === "augment") {
+      castingFor(first);
+      const key = `${storyId}/${first}`;
+      const existing = account.augments.get(key);
+      switch (method) {
+        case "GET":
+          return envelope(200, existing ? [existing] : []);
+        case "POST":
+        case "PUT": {
+          if (method === "PUT" && !existing) throw notFound(`Augment for ${first}`);
+          const { augment } = pickStrings(body, ["augment"]);
+          const saved: StoryAugment = { story_id: storyId, cast_id: first, augment };
+          account.augments.set(key, saved);
+          return envelope(200, [saved]);
+        }
+        case "DELETE":
+          if (!existing) throw notFound(`Augment for ${first}`);
+          account.augments.delete(key);
+          return deletedMessage(key);
+      }
+    }
+
+    throw notFound(`Endpoint ${method} /story/${segments.join("/")}`);
+  }
+
+  // ============================================================================
+  // USER
+  // ============================================================================
+
+  private handleUser(account: AccountData, method: string, [me, userId]: string[], authToken: string, body: unknown): Response {
+    if (me !== "me") throw notFound("Endpoint");
+
+    const name = authToken.replace(/^Bearer\s+/i, "").replace(/^stub-/, "") || "mock-user";
+    const identity = { sub: `mock-${name}`, email: `${name}@example.com`, name };
+
+    if (!userId) {
+      if (method !== "GET") throw this.methodNotAllowed(method);
+      const accounts = MOCK_ACCOUNTS.map((mockAccount) => ({
+        user_id: mockAccount.user_id,
+        contactName: this.accounts.get(mockAccount.user_id)?.preferences.contactName,
+      }));
+      return envelope(200, [{ identity, accounts }]);
+    }
+
+    const target = this.accounts.get(userId);
+    if (!target) {
+      throw new MockError(403, "Forbidden", `User ${userId} is not an account of the current user`);
+    }
+
+    if (method === "PUT") {
+      const allowed = ["sqs_url", "contactName"];
+      const updates = pickStrings(body, [], allowed);
+      if (Object.keys(updates).length === 0) {
+        throw new MockError(400, "Bad Request", `No updatable fields provided; allowed fields are: ${allowed.join(", ")}`);
+      }
+      target.preferences = { ...target.preferences, ...updates };
+    } else if (method !== "GET") {
+      throw this.methodNotAllowed(method);
+    }
+
+    return envelope(200, [{ identity: { ...identity, user_id: userId }, preferences: target.preferences }]);
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Allows PUT to restore a soft-deleted item with { deleted: false }
+   */
+  private pickDeleted(body: unknown): { deleted?: boolean } {
+    const { deleted } = bodyFields(body);
+    return typeof deleted === "boolean" ? { deleted } : {};
+  }
+
+  /**
+   * Items that are not soft-deleted, as lists return them
+   */
+  private live<T extends { deleted?: boolean }>(items: Map<string, T>): T[] {
+    return Array.from(items.values()).filter((item) => !item.deleted);
+  }
+
+  private methodNotAllowed(method: string) {
+    return new MockError(405, "Method Not Allowed", `${method} is not supported on this endpoint`);
+  }
+
+  private seedAccount(userId: string, contactName?: string): AccountData {
+    const now = new Date().toISOString();
+    const account: AccountData = {
+      characters: new Map(),
+      scenes: new Map(),
+      cast: new Map(),
+      stories: new Map(),
+      augments: new Map(),
+      preferences: {
+        user_id: userId,
+        sqs_url: "",
+        model_name: "mock-model",
+        model_created_on: now,
+        prompt_id: randomUUID(),
+        prompt_created_on: now,
+        contactName,
+      },
+    };
+
+    const character: Character = {
+      character_id: randomUUID(),
+      name: "Ada",
+      description: "A curious engineer who asks too many questions.",
+      motivation: "Understand how everything works.",
+    };
+    account.characters.set(character.character_id, character);
+
+    const scene: Scene = {
+      scene_id: randomUUID(),
+      name: "Lunch at the Cafe",
+      description: "Two colleagues meet for lunch at a busy cafe.",
+    };
+    account.scenes.set(scene.scene_id, scene);
+
+    [
+      { role: "Host", goal: "Pitch a new project idea", start: "Thanks for coming!" },
+      { role: "Guest", goal: "Decide whether to join the project", start: "Happy to be here." },
+    ].forEach((fields) => {
+      const cast: Cast = { cast_id: randomUUID(), scene_id: scene.scene_id, ...fields };
+      account.cast.set(cast.cast_id, cast);
+    });
+
+    return account;
+  }
+}
+
+export const mockLunchWith = new MockLunchWithAPI();
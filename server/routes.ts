@@ -1,9 +1,37 @@
-import type { Express } from "express";
+import type { Express, Request as ExpressRequest, Response as ExpressResponse } from "express";
 import { createServer, type Server } from "http";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "./storage";
+import { mockLunchWith } from "./mockLunchWith";
+import {
+  AuthError,
+  isTokenVerificationEnabled,
+  verifyAccessToken,
+  assertAccountAccess,
+  getLwaiAccounts,
+  isAdmin,
+  getTokenAuthor,
+  getTokenSubject,
+  type TokenClaims,
+} from "./auth";
+import {
+  ENVIRONMENT_HEADER,
+  listEnvironments,
+  getDefaultEnvironment,
+  resolveEnvironment,
+  type UpstreamEnvironment,
+} from "./environments";
+import { matchEntityWrite, readEntityBefore, recordEntityWrite, type Forward } from "./history";
+import { isMutatingMethod, auditTarget, recordAuditEntry } from "./audit";
+import { confirmAccountUpstream } from "./accountCheck";
+import { insertStoryResponseSchema, entityTypeSchema, draftContentSchema, type FormDraftKey } from "@shared/schema";
 
-const LUNCHWITH_API_BASE = "https://beta.lunchwith.ai";
+// Audit log page size: entries returned when no limit is given, and the most allowed
+const DEFAULT_AUDIT_LIMIT = 200;
+const MAX_AUDIT_LIMIT = 1000;
 
 async function proxyToLunchWithAPI(
+  baseUrl: string,
   endpoint: string,
   method: string,
   authToken: string,
@@ -27,10 +55,373 @@ async function proxyToLunchWithAPI(
     config.body = JSON.stringify(body);
   }
 
-  return fetch(`${LUNCHWITH_API_BASE}${endpoint}`, config);
+  return fetch(`${baseUrl}${endpoint}`, config);
+}
+
+/**
+ * Forwards requests to an environment's API (or the local mock) with the
+ * caller's token and selected account
+ */
+function forwardTo(environment: UpstreamEnvironment, authHeader: string, userId: string): Forward {
+  return (path, method, body) =>
+    environment.baseUrl
+      ? proxyToLunchWithAPI(environment.baseUrl, path, method, authHeader, userId, body)
+      : mockLunchWith.handle(path, method, authHeader, userId, body);
+}
+
+/**
+ * Checks that the caller may use an account before a local-data route reads
+ * or writes storage: against the verified token when token verification is
+ * enabled, otherwise by asking the upstream API (see accountCheck.ts)
+ * @returns The verified claims, or undefined without token verification
+ * @throws AuthError (401/403) if the caller may not use the account
+ */
+async function authorizeAccount(
+  authHeader: string,
+  userId: string,
+  environment: UpstreamEnvironment
+): Promise<TokenClaims | undefined> {
+  if (isTokenVerificationEnabled) {
+    const claims = await verifyAccessToken(authHeader);
+    assertAccountAccess(claims, userId);
+    return claims;
+  }
+  await confirmAccountUpstream(authHeader, userId, environment.name, forwardTo(environment, authHeader, userId));
+  return undefined;
+}
+
+/**
+ * Responds to an error thrown in a route: AuthErrors with their own status and
+ * message, anything else (e.g. a failed JWKS or storage call) with a 500
+ * @param action - What failed, for the log and the response, e.g. "Reading story responses"
+ */
+function sendRouteError(res: ExpressResponse, error: unknown, action: string) {
+  if (error instanceof AuthError) {
+    return res.status(error.status).json({ title: error.title, detail: error.detail });
+  }
+  console.error(`${action} failed:`, error);
+  res.status(500).json({
+    error: `${action} failed`,
+    message: error instanceof Error ? error.message : "Unknown error"
+  });
+}
+
+type DraftOwner = Omit<FormDraftKey, "draftKey">;
+
+/**
+ * Identifies whose drafts an /api/drafts request is for: the caller (token
+ * sub) within the selected account and environment
+ * Sends the error response and returns undefined if the request is invalid.
+ */
+async function resolveDraftOwner(req: ExpressRequest, res: ExpressResponse): Promise<DraftOwner | undefined> {
+  const authHeader = req.headers.authorization;
+  if (!authHeader) {
+    res.status(401).json({ error: "Missing authorization token in Authorization header" });
+    return undefined;
+  }
+
+  const userId = req.headers['x-lwai-user-id'] as string;
+  if (!userId) {
+    res.status(401).json({ error: "Missing X-LWAI-User-Id header" });
+    return undefined;
+  }
+
+  const environmentName = req.headers[ENVIRONMENT_HEADER] as string | undefined;
+  const environment = resolveEnvironment(environmentName);
+  if (!environment) {
+    res.status(400).json({ error: `Unknown environment "${environmentName}" in X-LWAI-Environment header` });
+    return undefined;
+  }
+
+  const claims = await authorizeAccount(authHeader, userId, environment);
+
+  return {
+    owner: getTokenSubject(authHeader, claims),
+    userId,
+    environment: environment.name,
+  };
+}
+
+/**
+ * Identifies the draft an /api/drafts/:draftKey request is for: its owner
+ * (see resolveDraftOwner) and the draft key in the path
+ */
+async function resolveDraftKey(req: ExpressRequest, res: ExpressResponse): Promise<FormDraftKey | undefined> {
+  const owner = await resolveDraftOwner(req, res);
+  return owner && { ...owner, draftKey: req.params.draftKey };
+}
+
+/**
+ * Normalizes a story response message as delivered to the account's SQS queue.
+ * Accepts both the raw API shape ({ story_id, cast_id, response_json: { response } })
+ * and a flattened shape ({ story_id, cast_id, response }).
+ * The account is the message's user_id, or else the relay's X-LWAI-User-Id header.
+ */
+function normalizeDeliveredResponse(body: any, headerUserId: string | undefined, environment: string) {
+  return {
+    userId: body?.user_id ?? body?.userId ?? headerUserId,
+    environment,
+    storyId: body?.story_id ?? body?.storyId,
+    castId: body?.cast_id ?? body?.castId,
+    response: body?.response_json?.response ?? body?.response,
+  };
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Local delivery endpoint for generated story responses.
+  // The LunchWith.ai backend sends responses to the account's SQS queue; a relay
+  // (e.g. a queue consumer) forwards each message body here so the browser can see it.
+  // The relay must send RESPONSE_DELIVERY_TOKEN in X-Delivery-Token, and the
+  // environment the queue belongs to in X-LWAI-Environment (default otherwise).
+  app.post("/api/story-responses", async (req, res) => {
+    try {
+      const deliveryToken = process.env.RESPONSE_DELIVERY_TOKEN;
+      if (!deliveryToken) {
+        return res.status(503).json({ error: "Response delivery is disabled: RESPONSE_DELIVERY_TOKEN is not set" });
+      }
+      if (req.headers["x-delivery-token"] !== deliveryToken) {
+        return res.status(401).json({ error: "Invalid or missing X-Delivery-Token header" });
+      }
+
+      const environmentName = req.headers[ENVIRONMENT_HEADER] as string | undefined;
+      const environment = resolveEnvironment(environmentName);
+      if (!environment) {
+        return res.status(400).json({ error: `Unknown environment "${environmentName}" in X-LWAI-Environment header` });
+      }
+
+      const parsed = insertStoryResponseSchema.safeParse(
+        normalizeDeliveredResponse(req.body, req.headers['x-lwai-user-id'] as string | undefined, environment.name)
+      );
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const response = await storage.createStoryResponse(parsed.data);
+      res.status(201).json(response);
+    } catch (error) {
+      console.error("Story response delivery error:", error);
+      res.status(500).json({
+        error: "Failed to store story response",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Lists delivered responses for a story in the selected account and
+  // environment, optionally only those received at or after `since` (inclusive, so a
+  // response stored in the same millisecond as the last one seen is not missed)
+  app.get("/api/story-responses/:storyId", async (req, res) => {
+    try {
+      const authHeader = req.headers.authorization;
+      if (!authHeader) {
+        return res.status(401).json({ error: "Missing authorization token in Authorization header" });
+      }
+
+      const userId = req.headers['x-lwai-user-id'] as string;
+      if (!userId) {
+        return res.status(401).json({ error: "Missing X-LWAI-User-Id header" });
+      }
+
+      let since: Date | undefined;
+      if (typeof req.query.since === "string") {
+        since = new Date(req.query.since);
+        if (isNaN(since.getTime())) {
+          return res.status(400).json({ error: "Invalid since timestamp" });
+        }
+      }
+
+      const environmentName = req.headers[ENVIRONMENT_HEADER] as string | undefined;
+      const environment = resolveEnvironment(environmentName);
+      if (!environment) {
+        return res.status(400).json({ error: `Unknown environment "${environmentName}" in X-LWAI-Environment header` });
+      }
+
+      await authorizeAccount(authHeader, userId, environment);
+
+      const responses = await storage.getStoryResponses(userId, environment.name, req.params.storyId, since);
+      res.json(responses);
+    } catch (error) {
+      sendRouteError(res, error, "Reading story responses");
+    }
+  });
+
+  // Upstream environments the client can choose from (see server/environments.ts)
+  app.get("/api/environments", (_req, res) => {
+    res.json({
+      default: getDefaultEnvironment().name,
+      environments: listEnvironments().map(({ name, label, production }) => ({ name, label, production })),
+    });
+  });
+
+  // Version history of a character, scene or cast member in the selected
+  // account and environment, newest first (recorded by the proxy below)
+  app.get("/api/history/:entityType/:entityId", async (req, res) => {
+    try {
+      const authHeader = req.headers.authorization;
+      if (!authHeader) {
+        return res.status(401).json({ error: "Missing authorization token in Authorization header" });
+      }
+
+      const userId = req.headers['x-lwai-user-id'] as string;
+      if (!userId) {
+        return res.status(401).json({ error: "Missing X-LWAI-User-Id header" });
+      }
+
+      const entityType = entityTypeSchema.safeParse(req.params.entityType);
+      if (!entityType.success) {
+        return res.status(400).json({ error: `Unknown entity type "${req.params.entityType}"` });
+      }
+
+      const environmentName = req.headers[ENVIRONMENT_HEADER] as string | undefined;
+      const environment = resolveEnvironment(environmentName);
+      if (!environment) {
+        return res.status(400).json({ error: `Unknown environment "${environmentName}" in X-LWAI-Environment header` });
+      }
+
+      await authorizeAccount(authHeader, userId, environment);
+
+      const versions = await storage.getEntityVersions(userId, environment.name, entityType.data, req.params.entityId);
+      res.json(versions);
+    } catch (error) {
+      sendRouteError(res, error, "Reading history");
+    }
+  });
+
+  // Form drafts synced from the browser (see client/src/lib/formDrafts.ts),
+  // private to the signed-in user within the selected account and environment.
+  // GET /api/drafts lists them, most recently saved first.
+  app.get("/api/drafts", async (req, res) => {
+    try {
+      const owner = await resolveDraftOwner(req, res);
+      if (!owner) return;
+
+      const drafts = await storage.getDrafts(owner.owner, owner.userId, owner.environment);
+      res.json(drafts);
+    } catch (error) {
+      sendRouteError(res, error, "Listing drafts");
+    }
+  });
+
+  app.get("/api/drafts/:draftKey", async (req, res) => {
+    try {
+      const key = await resolveDraftKey(req, res);
+      if (!key) return;
+
+      const draft = await storage.getDraft(key);
+      if (!draft) {
+        return res.status(404).json({ error: "No draft" });
+      }
+      res.json(draft);
+    } catch (error) {
+      sendRouteError(res, error, "Reading the draft");
+    }
+  });
+
+  app.put("/api/drafts/:draftKey", async (req, res) => {
+    try {
+      const key = await resolveDraftKey(req, res);
+      if (!key) return;
+
+      const content = draftContentSchema.safeParse(req.body?.content);
+      if (!content.success) {
+        return res.status(400).json({ error: fromZodError(content.error).message });
+      }
+
+      const draft = await storage.saveDraft({ ...key, content: content.data });
+      res.json(draft);
+    } catch (error) {
+      sendRouteError(res, error, "Saving the draft");
+    }
+  });
+
+  app.delete("/api/drafts/:draftKey", async (req, res) => {
+    try {
+      const key = await resolveDraftKey(req, res);
+      if (!key) return;
+
+      await storage.deleteDraft(key);
+      res.status(204).end();
+    } catch (error) {
+      sendRouteError(res, error, "Deleting the draft");
+    }
+  });
+
+  // Audit log of mutating proxy calls, newest first (recorded by the proxy below)
+  // Query: userId (account), user (Cognito sub or username), entityType,
+  // entityId, since/until (ISO timestamps) and limit. Callers whose token is
+  // verified see only their own accounts unless they are admins; without token
+  // verification, only the X-LWAI-User-Id account, once the upstream API has
+  // confirmed the caller may use it (see authorizeAccount).
+  app.get("/api/audit", async (req, res) => {
+    try {
+      const authHeader = req.headers.authorization;
+      if (!authHeader) {
+        return res.status(401).json({ error: "Missing authorization token in Authorization header" });
+      }
+
+      const query = (name: string) => (typeof req.query[name] === "string" && req.query[name]) || undefined;
+      const userId = query("userId");
+
+      let userIds: string[] | undefined;
+      if (isTokenVerificationEnabled) {
+        const claims = await verifyAccessToken(authHeader);
+        if (userId) {
+          assertAccountAccess(claims, userId);
+        } else if (!isAdmin(claims)) {
+          const selectedUserId = req.headers['x-lwai-user-id'] as string | undefined;
+          userIds = getLwaiAccounts(claims) ?? (selectedUserId ? [selectedUserId] : []);
+        }
+      } else {
+        // Without a verified token, the selected account is all the caller can show
+        const selectedUserId = req.headers['x-lwai-user-id'] as string | undefined;
+        if (!selectedUserId) {
+          return res.status(401).json({ error: "Missing X-LWAI-User-Id header" });
+        }
+        if (userId && userId !== selectedUserId) {
+          throw new AuthError(403, "Forbidden", `Account ${userId} is not the selected account`);
+        }
+        const environmentName = req.headers[ENVIRONMENT_HEADER] as string | undefined;
+        const environment = resolveEnvironment(environmentName);
+        if (!environment) {
+          return res.status(400).json({ error: `Unknown environment "${environmentName}" in X-LWAI-Environment header` });
+        }
+        await authorizeAccount(authHeader, selectedUserId, environment);
+        userIds = [selectedUserId];
+      }
+      if (userId) {
+        userIds = [userId];
+      }
+
+      const dates: Record<"since" | "until", Date | undefined> = { since: undefined, until: undefined };
+      for (const name of ["since", "until"] as const) {
+        const value = query(name);
+        if (!value) continue;
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+          return res.status(400).json({ error: `Invalid ${name} timestamp` });
+        }
+        dates[name] = date;
+      }
+
+      const limit = query("limit") ? Number(query("limit")) : DEFAULT_AUDIT_LIMIT;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_LIMIT) {
+        return res.status(400).json({ error: `limit must be a whole number from 1 to ${MAX_AUDIT_LIMIT}` });
+      }
+
+      const entries = await storage.getAuditEntries({
+        userIds,
+        user: query("user"),
+        entityType: query("entityType"),
+        entityId: query("entityId"),
+        ...dates,
+        limit,
+      });
+      res.json(entries);
+    } catch (error) {
+      sendRouteError(res, error, "Reading the audit log");
+    }
+  });
+
   // Proxy route for LunchWith.ai API to avoid CORS issues in the browser
   app.all("/api/lunchwith/*", async (req, res) => {
     try {
@@ -46,31 +437,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: "Missing X-LWAI-User-Id header" });
       }
       
+      // Verify the token and that it may act on the selected account
+      // (for /user/me/{user_id} the path parameter selects the account too)
+      let claims: TokenClaims | undefined;
+      if (isTokenVerificationEnabled) {
+        claims = await verifyAccessToken(authHeader);
+        assertAccountAccess(claims, userId);
+        const pathUserId = req.path.match(/^\/api\/lunchwith\/user\/me\/([^/]+)/)?.[1];
+        if (pathUserId) {
+          assertAccountAccess(claims, pathUserId);
+        }
+      }
+
+      // Pick the upstream environment for this request
+      const environmentName = req.headers[ENVIRONMENT_HEADER] as string | undefined;
+      const environment = resolveEnvironment(environmentName);
+      if (!environment) {
+        return res.status(400).json({ error: `Unknown environment "${environmentName}" in X-LWAI-Environment header` });
+      }
+
       // Extract the endpoint path and preserve query string
       // req.url includes both path and query string
       const endpoint = req.url.replace("/api/lunchwith", "");
+
+      // Mutating calls are audited once the response is sent, whatever the outcome.
+      // Without token verification the caller is only named once the upstream
+      // API has accepted the token, so a forged token cannot pose as someone else.
+      let writtenEntityId: string | undefined;
+      let upstreamStatus: number | undefined;
+      if (isMutatingMethod(req.method)) {
+        const startedAt = Date.now();
+        const target = auditTarget(endpoint);
+        res.on("finish", () => {
+          const identified =
+            claims !== undefined || (upstreamStatus !== undefined && upstreamStatus !== 401 && upstreamStatus !== 403);
+          void recordAuditEntry({
+            sub: identified ? getTokenSubject(authHeader, claims) : "unknown",
+            author: identified ? getTokenAuthor(authHeader, claims) : "unknown",
+            userId,
+            environment: environment.name,
+            method: req.method.toUpperCase(),
+            endpoint,
+            entityType: target.entityType,
+            entityId: writtenEntityId ?? target.entityId,
+            status: res.statusCode,
+            latencyMs: Date.now() - startedAt,
+            requestBody: req.method.toUpperCase() === "DELETE" ? null : req.body ?? null,
+          });
+        });
+      }
       
-      // Forward the request to LunchWith.ai API
-      const response = await proxyToLunchWithAPI(
-        endpoint,
-        req.method,
-        authHeader,
-        userId,
-        req.body
-      );
+      const forward = forwardTo(environment, authHeader, userId);
+
+      // Character, scene and cast writes are recorded in the version history,
+      // so read the entity as it is before the write
+      const write = matchEntityWrite(req.method, endpoint);
+      const before = write ? await readEntityBefore(write, forward) : null;
+
+      const response = await forward(endpoint, req.method, req.body);
+      upstreamStatus = response.status;
 
       // Get response text
       const responseText = await response.text();
+
+      if (write && response.ok) {
+        writtenEntityId = await recordEntityWrite(
+          write,
+          { userId, environment: environment.name, author: getTokenAuthor(authHeader, claims) },
+          before,
+          responseText
+        );
+      }
       
       // Set the status code
       res.status(response.status);
       
-      // Copy relevant headers
-      const contentType = response.headers.get("content-type");
-      if (contentType) {
-        res.setHeader("content-type", contentType);
+      // Copy relevant headers (request IDs let the client report which upstream call failed)
+      for (const header of ["content-type", "apigw-requestid", "x-amzn-requestid"]) {
+        const value = response.headers.get(header);
+        if (value) {
+          res.setHeader(header, value);
+        }
       }
 
+      res.setHeader("X-LWAI-Environment", environment.name);
+
       // Send the response
       if (responseText) {
         res.send(responseText);
@@ -78,6 +529,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.end();
       }
     } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ title: error.title, detail: error.detail });
+      }
       console.error("Proxy error:", error);
       res.status(500).json({ 
         error: "Proxy request failed", 
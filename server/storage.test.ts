@@ -0,0 +1,261 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { MemStorage, type IStorage } from "./storage";
+import { DbStorage } from "./dbStorage";
+import { createDatabase, type Database } from "./db";
+
+// The same checks run against both IStorage implementations; DbStorage only
+// when DATABASE_URL points at a database with the tables (`npm run db:push`).
+// Every test works in accounts of its own, so existing rows do not interfere.
+
+const database: Database | undefined = process.env.DATABASE_URL
+  ? createDatabase(process.env.DATABASE_URL)
+  : undefined;
+
+const implementations: Array<{ name: string; create?: () => IStorage }> = [
+  { name: "MemStorage", create: () => new MemStorage() },
+  { name: "DbStorage", create: database && (() => new DbStorage(database)) },
+];
+
+after(async () => {
+  await database?.$client.end();
+});
+
+for (const { name, create } of implementations) {
+  describe(name, { skip: !create && "DATABASE_URL is not set" }, () => {
+    const storage = () => create!();
+    const account = () => `test-account-${randomUUID()}`;
+
+    it("creates users and finds them by id and username", async () => {
+      const store = storage();
+      const username = `user-${randomUUID()}`;
+
+      const user = await store.createUser({ username, password: "secret" });
+
+      assert.deepEqual(await store.getUser(user.id), user);
+      assert.deepEqual(await store.getUserByUsername(username), user);
+      assert.equal(await store.getUser(randomUUID()), undefined);
+    });
+
+    it("lists story responses of one account, environment and story in the order received", async () => {
+      const store = storage();
+      const userId = account();
+      const base = { userId, environment: "dev", storyId: "story-1", castId: "cast-1" };
+      for (const response of ["first", "second", "third"]) {
+        await store.createStoryResponse({ ...base, response });
+      }
+      await store.createStoryResponse({ ...base, environment: "prod", response: "other environment" });
+      await store.createStoryResponse({ ...base, storyId: "story-2", response: "other story" });
+      await store.createStoryResponse({ ...base, userId: account(), response: "other account" });
+
+      const responses = await store.getStoryResponses(userId, "dev", "story-1");
+
+      // Written back to back, so some share a timestamp; seq keeps them in order
+      assert.deepEqual(responses.map((response) => response.response), ["first", "second", "third"]);
+    });
+
+    it("returns only story responses received at or after since", async () => {
+      const store = storage();
+      const userId = account();
+      const base = { userId, environment: "dev", storyId: "story-1", castId: "cast-1" };
+      await store.createStoryResponse({ ...base, response: "first" });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const second = await store.createStoryResponse({ ...base, response: "second" });
+
+      const responses = await store.getStoryResponses(userId, "dev", "story-1", second.receivedAt);
+
+      assert.deepEqual(responses.map((response) => response.response), ["second"]);
+    });
+
+    it("lists versions of one entity newest first, in the order written", async () => {
+      const store = storage();
+      const userId = account();
+      const base = { userId, environment: "dev", entityType: "character" as const, entityId: "character-1", author: "tester" };
+      await store.createEntityVersion({ ...base, action: "create", after: { name: "Ava" } });
+      for (let i = 0; i < 4; i++) {
+        await store.createEntityVersion({ ...base, action: "update", before: { name: "Ava" }, after: { name: `Ava ${i}` } });
+      }
+      await store.createEntityVersion({ ...base, entityId: "character-2", action: "create" });
+
+      const versions = await store.getEntityVersions(userId, "dev", "character", "character-1");
+
+      assert.deepEqual(
+        versions.map((version) => version.after),
+        [{ name: "Ava 3" }, { name: "Ava 2" }, { name: "Ava 1" }, { name: "Ava 0" }, { name: "Ava" }],
+      );
+      assert.equal(versions[4].action, "create");
+      assert.equal(versions[4].before, null);
+    });
+
+    it("filters audit entries and returns the newest up to the limit", async () => {
+      const store = storage();
+      const [userId, otherUserId] = [account(), account()];
+      const base = {
+        sub: "sub-1",
+        author: "tester",
+        userId,
+        environment: "dev",
+        method: "POST",
+        endpoint: "/character",
+        status: 200,
+        latencyMs: 12,
+      };
+      const written = [
+        await store.createAuditEntry({ ...base, entityType: "character", entityId: "character-1" }),
+        await store.createAuditEntry({ ...base, entityType: "scene", entityId: "scene-1" }),
+        await store.createAuditEntry({ ...base, sub: "sub-2", author: "other", entityType: "character", entityId: "character-2" }),
+        await store.createAuditEntry({ ...base, userId: otherUserId, entityType: "character" }),
+      ];
+
+      const all = await store.getAuditEntries({ userIds: [userId, otherUserId], limit: 10 });
+      assert.deepEqual(all.map((entry) => entry.id), written.map((entry) => entry.id).reverse());
+
+      assert.equal((await store.getAuditEntries({ userIds: [userId], limit: 10 })).length, 3);
+      assert.equal((await store.getAuditEntries({ userIds: [userId], user: "other", limit: 10 })).length, 1);
+      assert.equal((await store.getAuditEntries({ userIds: [userId], user: "sub-1", limit: 10 })).length, 2);
+      assert.equal((await store.getAuditEntries({ userIds: [userId], entityType: "character", limit: 10 })).length, 2);
+      assert.equal((await store.getAuditEntries({ userIds: [userId], entityId: "scene-1", limit: 10 })).length, 1);
+      assert.deepEqual(await store.getAuditEntries({ userIds: [userId, otherUserId], limit: 2 }), all.slice(0, 2));
+      assert.deepEqual(await store.getAuditEntries({ userIds: [], limit: 10 }), []);
+    });
+
+    it("filters audit entries by time, including since and excluding until", async () => {
+      const store = storage();
+      const userId = account();
+      const base = {
+        sub: "sub-1",
+        author: "tester",
+        userId,
+        environment: "dev",
+        method: "DELETE",
+        endpoint: "/scene/scene-1",
+        status: 200,
+        latencyMs: 5,
+      };
+      const first = await store.createAuditEntry(base);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const second = await store.createAuditEntry(base);
+
+      const since = await store.getAuditEntries({ userIds: [userId], since: second.createdAt, limit: 10 });
+      const until = await store.getAuditEntries({ userIds: [userId], until: second.createdAt, limit: 10 });
+
+      assert.deepEqual(since.map((entry) => entry.id), [second.id]);
+      assert.deepEqual(until.map((entry) => entry.id), [first.id]);
+    });
+
+    it("creates a draft, replaces it on save and keeps its id", async () => {
+      const store = storage();
+      const key = { owner: "sub-1", userId: account(), environment: "dev", draftKey: "character:new" };
+
+      const created = await store.saveDraft({ ...key, content: { name: "Ava" } });
+      const replaced = await store.saveDraft({ ...key, content: { name: "Ava Smith" } });
+
+      assert.equal(replaced.id, created.id);
+      assert.ok(replaced.updatedAt >= created.updatedAt);
+      assert.deepEqual((await store.getDraft(key))?.content, { name: "Ava Smith" });
+      assert.equal(await store.getDraft({ ...key, owner: "sub-2" }), undefined);
+    });
+
+    it("lists one user's drafts in an account and environment, most recently saved first", async () => {
+      const store = storage();
+      const userId = account();
+      const base = { owner: "sub-1", userId, environment: "dev", content: { name: "Ava" } };
+      await store.saveDraft({ ...base, draftKey: "character:new" });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await store.saveDraft({ ...base, draftKey: "scene:new" });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await store.saveDraft({ ...base, draftKey: "character:new", content: { name: "Ava again" } });
+      await store.saveDraft({ ...base, environment: "prod", draftKey: "scene:new" });
+      await store.saveDraft({ ...base, owner: "sub-2", draftKey: "scene:new" });
+
+      const drafts = await store.getDrafts("sub-1", userId, "dev");
+
+      assert.deepEqual(drafts.map((draft) => draft.draftKey), ["character:new", "scene:new"]);
+    });
+
+    it("orders drafts by when they were last saved, also within a millisecond", async () => {
+      const store = storage();
+      const userId = account();
+      const base = { owner: "sub-1", userId, environment: "dev", content: { name: "Ava" } };
+      for (const draftKey of ["character:new", "scene:new", "cast:scene-1:new"]) {
+        await store.saveDraft({ ...base, draftKey });
+      }
+      const resaved = await store.saveDraft({ ...base, draftKey: "character:new", content: { name: "Ava again" } });
+
+      const drafts = await store.getDrafts("sub-1", userId, "dev");
+
+      assert.deepEqual(drafts.map((draft) => draft.draftKey), ["character:new", "cast:scene-1:new", "scene:new"]);
+      assert.equal(drafts[0].id, resaved.id);
+    });
+
+    it("deletes a draft and reports whether there was one", async () => {
+      const store = storage();
+      const key = { owner: "sub-1", userId: account(), environment: "dev", draftKey: "scene:new" };
+      await store.saveDraft({ ...key, content: { name: "Cafe" } });
+
+      assert.equal(await store.deleteDraft(key), true);
+      assert.equal(await store.getDraft(key), undefined);
+      assert.equal(await store.deleteDraft(key), false);
+    });
+
+    it("lists an account's templates by name, optionally of one entity type", async () => {
+      const store = storage();
+      const userId = account();
+      const base = { userId, content: { description: "" }, createdBy: "tester" };
+      const waiter = await store.createTemplate({ ...base, entityType: "cast", name: "Waiter" });
+      const chef = await store.createTemplate({ ...base, entityType: "character", name: "Chef" });
+      const secondChef = await store.createTemplate({ ...base, entityType: "character", name: "Chef" });
+      const lower = await store.createTemplate({ ...base, entityType: "character", name: "apprentice" });
+      await store.createTemplate({ ...base, userId: account(), entityType: "character", name: "Baker" });
+
+      const all = await store.getTemplates(userId);
+      const characters = await store.getTemplates(userId, "character");
+
+      // Code point order puts upper case first; same names stay in the order created
+      assert.deepEqual(all.map((template) => template.id), [chef.id, secondChef.id, waiter.id, lower.id]);
+      assert.deepEqual(characters.map((template) => template.id), [chef.id, secondChef.id, lower.id]);
+    });
+
+    it("updates a template's given fields and deletes it", async () => {
+      const store = storage();
+      const template = await store.createTemplate({
+        userId: account(),
+        entityType: "scene",
+        name: "Cafe",
+        content: { description: "Busy" },
+        createdBy: "tester",
+      });
+
+      const updated = await store.updateTemplate(template.id, { name: "Quiet cafe", content: undefined });
+
+      assert.equal(updated?.name, "Quiet cafe");
+      assert.deepEqual(updated?.content, { description: "Busy" });
+      assert.ok(updated!.updatedAt >= template.updatedAt);
+      assert.deepEqual(await store.getTemplate(template.id), updated);
+      assert.equal(await store.updateTemplate(randomUUID(), { name: "Missing" }), undefined);
+      assert.equal(await store.deleteTemplate(template.id), true);
+      assert.equal(await store.getTemplate(template.id), undefined);
+      assert.equal(await store.deleteTemplate(template.id), false);
+    });
+
+    it("lists snapshots of one account and environment newest first, in the order taken", async () => {
+      const store = storage();
+      const userId = account();
+      const base = { userId, environment: "dev", data: { characters: [] }, createdBy: "tester" };
+      const taken = [];
+      for (const label of ["first", "second", "third"]) {
+        taken.push(await store.createSnapshot({ ...base, label }));
+      }
+      await store.createSnapshot({ ...base, environment: "prod", label: "other environment" });
+
+      const snapshots = await store.getSnapshots(userId, "dev");
+
+      assert.deepEqual(snapshots.map((snapshot) => snapshot.label), ["third", "second", "first"]);
+      assert.deepEqual(await store.getSnapshot(taken[0].id), taken[0]);
+      assert.equal(await store.deleteSnapshot(taken[0].id), true);
+      assert.equal(await store.getSnapshot(taken[0].id), undefined);
+      assert.equal(await store.deleteSnapshot(taken[0].id), false);
+    });
+  });
+}
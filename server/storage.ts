@@ -1,20 +1,118 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  type User,
+  type InsertUser,
+  type StoryResponse,
+  type InsertStoryResponse,
+  type EntityVersion,
+  type InsertEntityVersion,
+  type EntityType,
+  type AuditEntry,
+  type InsertAuditEntry,
+  type FormDraft,
+  type InsertFormDraft,
+  type FormDraftKey,
+  type EntityTemplate,
+  type InsertEntityTemplate,
+  type AccountSnapshot,
+  type InsertAccountSnapshot,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { createDatabase } from "./db";
+import { DbStorage } from "./dbStorage";
 
 // modify the interface with any CRUD methods
 // you might need
+//
+// Two implementations: MemStorage (in-process, lost on restart) and DbStorage
+// (Postgres through Drizzle). They must behave the same - filters, ordering,
+// upserts and "not found" results - so code written against one works
+// against the other.
+
+export interface AuditLogFilter {
+  // Accounts whose entries may be returned; undefined for all accounts
+  userIds?: string[];
+  // Cognito sub or author of the call
+  user?: string;
+  entityType?: string;
+  entityId?: string;
+  // Entries created at or after since, and before until
+  since?: Date;
+  until?: Date;
+  limit: number;
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  createStoryResponse(response: InsertStoryResponse): Promise<StoryResponse>;
+  // Responses to one story in an account and environment, oldest first,
+  // optionally only those received at or after since
+  getStoryResponses(userId: string, environment: string, storyId: string, since?: Date): Promise<StoryResponse[]>;
+  createEntityVersion(version: InsertEntityVersion): Promise<EntityVersion>;
+  // Versions of one entity in an account and environment, newest first
+  getEntityVersions(userId: string, environment: string, entityType: EntityType, entityId: string): Promise<EntityVersion[]>;
+  createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  // Entries matching every given filter, newest first
+  getAuditEntries(filter: AuditLogFilter): Promise<AuditEntry[]>;
+  getDraft(key: FormDraftKey): Promise<FormDraft | undefined>;
+  // Drafts of one user in an account and environment, most recently saved first
+  getDrafts(owner: string, userId: string, environment: string): Promise<FormDraft[]>;
+  // Creates the draft, or replaces the content of the draft with the same key
+  saveDraft(draft: InsertFormDraft): Promise<FormDraft>;
+  // Returns false if there was no such draft
+  deleteDraft(key: FormDraftKey): Promise<boolean>;
+  // Templates of an account, optionally of one entity type, by name
+  getTemplates(userId: string, entityType?: EntityType): Promise<EntityTemplate[]>;
+  getTemplate(id: string): Promise<EntityTemplate | undefined>;
+  createTemplate(template: InsertEntityTemplate): Promise<EntityTemplate>;
+  updateTemplate(id: string, changes: Partial<InsertEntityTemplate>): Promise<EntityTemplate | undefined>;
+  deleteTemplate(id: string): Promise<boolean>;
+  createSnapshot(snapshot: InsertAccountSnapshot): Promise<AccountSnapshot>;
+  // Snapshots of an account in an environment, newest first
+  getSnapshots(userId: string, environment: string): Promise<AccountSnapshot[]>;
+  getSnapshot(id: string): Promise<AccountSnapshot | undefined>;
+  deleteSnapshot(id: string): Promise<boolean>;
 }
 
+// Key of a draft in MemStorage
+const draftKeyOf = ({ owner, userId, environment, draftKey }: FormDraftKey) =>
+  JSON.stringify([owner, userId, environment, draftKey]);
+
+// Compares rows the way DbStorage orders them: by a timestamp, then by
+// insertion order (seq) for rows written in the same millisecond
+const byTime = <T extends { seq: number }>(timeOf: (row: T) => Date, direction: "asc" | "desc") =>
+  (a: T, b: T) => {
+    const order = timeOf(a).getTime() - timeOf(b).getTime() || a.seq - b.seq;
+    return direction === "asc" ? order : -order;
+  };
+
+// Orders by name the way DbStorage does (code point order, like COLLATE "C"),
+// then by insertion order
+const byName = (a: EntityTemplate, b: EntityTemplate) =>
+  (a.name < b.name ? -1 : a.name > b.name ? 1 : 0) || a.seq - b.seq;
+
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private storyResponses: Map<string, StoryResponse>;
+  private entityVersions: Map<string, EntityVersion>;
+  private auditEntries: Map<string, AuditEntry>;
+  // Keyed by draftKeyOf
+  private drafts: Map<string, FormDraft>;
+  private templates: Map<string, EntityTemplate>;
+  private snapshots: Map<string, AccountSnapshot>;
+  // Last seq given out; stands in for the tables' sequences in DbStorage
+  private lastSeq: number;
 
   constructor() {
     this.users = new Map();
+    this.storyResponses = new Map();
+    this.entityVersions = new Map();
+    this.auditEntries = new Map();
+    this.drafts = new Map();
+    this.templates = new Map();
+    this.snapshots = new Map();
+    this.lastSeq = 0;
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +131,176 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async createStoryResponse(insertResponse: InsertStoryResponse): Promise<StoryResponse> {
+    const id = randomUUID();
+    const response: StoryResponse = { ...insertResponse, id, seq: ++this.lastSeq, receivedAt: new Date() };
+    this.storyResponses.set(id, response);
+    return response;
+  }
+
+  async getStoryResponses(
+    userId: string,
+    environment: string,
+    storyId: string,
+    since?: Date,
+  ): Promise<StoryResponse[]> {
+    return Array.from(this.storyResponses.values())
+      .filter(
+        (response) =>
+          response.userId === userId &&
+          response.environment === environment &&
+          response.storyId === storyId &&
+          (!since || response.receivedAt >= since),
+      )
+      .sort(byTime((response) => response.receivedAt, "asc"));
+  }
+
+  async createEntityVersion(insertVersion: InsertEntityVersion): Promise<EntityVersion> {
+    const id = randomUUID();
+    const version: EntityVersion = {
+      ...insertVersion,
+      id,
+      seq: ++this.lastSeq,
+      sceneId: insertVersion.sceneId ?? null,
+      before: insertVersion.before ?? null,
+      after: insertVersion.after ?? null,
+      createdAt: new Date(),
+    };
+    this.entityVersions.set(id, version);
+    return version;
+  }
+
+  async getEntityVersions(
+    userId: string,
+    environment: string,
+    entityType: EntityType,
+    entityId: string,
+  ): Promise<EntityVersion[]> {
+    return Array.from(this.entityVersions.values())
+      .filter(
+        (version) =>
+          version.userId === userId &&
+          version.environment === environment &&
+          version.entityType === entityType &&
+          version.entityId === entityId,
+      )
+      .sort(byTime((version) => version.createdAt, "desc"));
+  }
+
+  async createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const id = randomUUID();
+    const entry: AuditEntry = {
+      ...insertEntry,
+      id,
+      seq: ++this.lastSeq,
+      entityType: insertEntry.entityType ?? null,
+      entityId: insertEntry.entityId ?? null,
+      requestBody: insertEntry.requestBody ?? null,
+      createdAt: new Date(),
+    };
+    this.auditEntries.set(id, entry);
+    return entry;
+  }
+
+  async getAuditEntries(filter: AuditLogFilter): Promise<AuditEntry[]> {
+    return Array.from(this.auditEntries.values())
+      .filter(
+        (entry) =>
+          (!filter.userIds || filter.userIds.includes(entry.userId)) &&
+          (!filter.user || entry.sub === filter.user || entry.author === filter.user) &&
+          (!filter.entityType || entry.entityType === filter.entityType) &&
+          (!filter.entityId || entry.entityId === filter.entityId) &&
+          (!filter.since || entry.createdAt >= filter.since) &&
+          (!filter.until || entry.createdAt < filter.until),
+      )
+      .sort(byTime((entry) => entry.createdAt, "desc"))
+      .slice(0, filter.limit);
+  }
+
+  async getDraft(key: FormDraftKey): Promise<FormDraft | undefined> {
+    return this.drafts.get(draftKeyOf(key));
+  }
+
+  async getDrafts(owner: string, userId: string, environment: string): Promise<FormDraft[]> {
+    return Array.from(this.drafts.values())
+      .filter((draft) => draft.owner === owner && draft.userId === userId && draft.environment === environment)
+      .sort(byTime((draft) => draft.updatedAt, "desc"));
+  }
+
+  async saveDraft(insertDraft: InsertFormDraft): Promise<FormDraft> {
+    const key = draftKeyOf(insertDraft);
+    const draft: FormDraft = {
+      ...insertDraft,
+      id: this.drafts.get(key)?.id ?? randomUUID(),
+      seq: ++this.lastSeq,
+      updatedAt: new Date(),
+    };
+    this.drafts.set(key, draft);
+    return draft;
+  }
+
+  async deleteDraft(key: FormDraftKey): Promise<boolean> {
+    return this.drafts.delete(draftKeyOf(key));
+  }
+
+  async getTemplates(userId: string, entityType?: EntityType): Promise<EntityTemplate[]> {
+    return Array.from(this.templates.values())
+      .filter((template) => template.userId === userId && (!entityType || template.entityType === entityType))
+      .sort(byName);
+  }
+
+  async getTemplate(id: string): Promise<EntityTemplate | undefined> {
+    return this.templates.get(id);
+  }
+
+  async createTemplate(insertTemplate: InsertEntityTemplate): Promise<EntityTemplate> {
+    const id = randomUUID();
+    const now = new Date();
+    const template: EntityTemplate = { ...insertTemplate, id, seq: ++this.lastSeq, createdAt: now, updatedAt: now };
+    this.templates.set(id, template);
+    return template;
+  }
+
+  async updateTemplate(id: string, changes: Partial<InsertEntityTemplate>): Promise<EntityTemplate | undefined> {
+    const existing = this.templates.get(id);
+    if (!existing) return undefined;
+
+    // Fields given as undefined are left as they are (as in an SQL update)
+    const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+    const template: EntityTemplate = { ...existing, ...defined, updatedAt: new Date() };
+    this.templates.set(id, template);
+    return template;
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    return this.templates.delete(id);
+  }
+
+  async createSnapshot(insertSnapshot: InsertAccountSnapshot): Promise<AccountSnapshot> {
+    const id = randomUUID();
+    const snapshot: AccountSnapshot = { ...insertSnapshot, id, seq: ++this.lastSeq, createdAt: new Date() };
+    this.snapshots.set(id, snapshot);
+    return snapshot;
+  }
+
+  async getSnapshots(userId: string, environment: string): Promise<AccountSnapshot[]> {
+    return Array.from(this.snapshots.values())
+      .filter((snapshot) => snapshot.userId === userId && snapshot.environment === environment)
+      .sort(byTime((snapshot) => snapshot.createdAt, "desc"));
+  }
+
+  async getSnapshot(id: string): Promise<AccountSnapshot | undefined> {
+    return this.snapshots.get(id);
+  }
+
+  async deleteSnapshot(id: string): Promise<boolean> {
+    return this.snapshots.delete(id);
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres when DATABASE_URL is set (see drizzle.config.ts; create the tables
+// with `npm run db:push`), otherwise in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DbStorage(createDatabase(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,135 @@
+/**
+ * Runtime schemas for LunchWith.ai API payloads
+ *
+ * Each schema mirrors an interface in api-types.ts and is annotated with that
+ * interface, so the compiler rejects a schema that drifts from its type.
+ * Objects use passthrough() so fields the API adds later are kept rather
+ * than silently stripped.
+ */
+
+import { z } from "zod";
+import type {
+  Character,
+  Scene,
+  Cast,
+  UserProfile,
+  UserAccountProfile,
+  StoryCasting,
+  Story,
+  StoryAugment,
+  StoryConversationResponse,
+  ApiMessage,
+} from "./api-types";
+
+export const characterSchema: z.ZodType<Character> = z
+  .object({
+    character_id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    motivation: z.string(),
+    deleted: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const sceneSchema: z.ZodType<Scene> = z
+  .object({
+    scene_id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    deleted: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const castSchema: z.ZodType<Cast> = z
+  .object({
+    cast_id: z.string(),
+    scene_id: z.string(),
+    role: z.string(),
+    goal: z.string(),
+    start: z.string(),
+    deleted: z.boolean().optional(),
+  })
+  .passthrough();
+
+const userIdentitySchema = z
+  .object({
+    sub: z.string(),
+    email: z.string().nullable(),
+    name: z.string().nullable(),
+  })
+  .passthrough();
+
+export const userProfileSchema: z.ZodType<UserProfile> = z
+  .object({
+    identity: userIdentitySchema,
+    accounts: z.array(
+      z
+        .object({
+          user_id: z.string(),
+          contactName: z.string().optional(),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+export const userAccountProfileSchema: z.ZodType<UserAccountProfile> = z
+  .object({
+    identity: userIdentitySchema.extend({ user_id: z.string() }),
+    preferences: z
+      .object({
+        user_id: z.string(),
+        sqs_url: z.string(),
+        model_name: z.string(),
+        model_created_on: z.string(),
+        prompt_id: z.string(),
+        prompt_created_on: z.string(),
+        contactName: z.string().optional(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+const storyCastingSchema: z.ZodType<StoryCasting> = z
+  .object({
+    cast_id: z.string(),
+    role: z.string().optional(),
+    goal: z.string().optional(),
+    start: z.string().optional(),
+    character_id: z.string().optional(),
+    summarize: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const storySchema: z.ZodType<Story> = z
+  .object({
+    story_id: z.string(),
+    scene_id: z.string(),
+    finishup: z.boolean().optional(),
+    end_conversation: z.boolean().optional(),
+    casting: z.array(storyCastingSchema),
+  })
+  .passthrough();
+
+export const storyAugmentSchema: z.ZodType<StoryAugment> = z
+  .object({
+    story_id: z.string(),
+    cast_id: z.string(),
+    augment: z.string(),
+  })
+  .passthrough();
+
+export const storyConversationResponseSchema: z.ZodType<StoryConversationResponse> = z
+  .object({
+    story_id: z.string(),
+    cast_id: z.string(),
+    response_json: z.object({ response: z.string() }).passthrough(),
+  })
+  .passthrough();
+
+export const apiMessageSchema: z.ZodType<ApiMessage> = z
+  .object({
+    title: z.string(),
+    detail: z.union([z.string(), z.object({ message: z.string() }).passthrough()]),
+  })
+  .passthrough();
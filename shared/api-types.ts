@@ -60,3 +60,96 @@ export interface UserAccountProfile {
   identity: UserAccountIdentity;
   preferences: UserPreferences;
 }
+
+export type UpdateUserPreferences = Partial<Pick<UserPreferences, 'sqs_url' | 'contactName'>>;
+
+export interface StoryCasting {
+  cast_id: string;
+  role?: string;
+  goal?: string;
+  start?: string;
+  character_id?: string;
+  summarize?: boolean;
+}
+
+export interface Story {
+  story_id: string;
+  scene_id: string;
+  finishup?: boolean;
+  end_conversation?: boolean;
+  casting: StoryCasting[];
+}
+
+export interface StoryAugment {
+  story_id: string;
+  cast_id: string;
+  augment: string;
+}
+
+export interface StoryConversationResponse {
+  story_id: string;
+  cast_id: string;
+  response_json: { response: string };
+}
+
+export interface DeliveredStoryResponse {
+  id: string;
+  userId: string;
+  environment: string;
+  storyId: string;
+  castId: string;
+  response: string;
+  receivedAt: string;
+}
+
+export type HistoryEntityType = 'character' | 'scene' | 'cast';
+
+// One recorded write to a character, scene or cast member (see server/history.ts)
+export interface EntityHistoryVersion {
+  id: string;
+  userId: string;
+  environment: string;
+  entityType: HistoryEntityType;
+  entityId: string;
+  sceneId: string | null;
+  action: 'create' | 'update' | 'delete';
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  author: string;
+  createdAt: string;
+}
+
+// One mutating call through the proxy (see server/audit.ts)
+export interface AuditLogEntry {
+  id: string;
+  // Cognito sub of the caller, and its username
+  sub: string;
+  author: string;
+  userId: string;
+  environment: string;
+  method: string;
+  endpoint: string;
+  entityType: string | null;
+  entityId: string | null;
+  status: number;
+  latencyMs: number;
+  requestBody: unknown;
+  createdAt: string;
+}
+
+// Audit log filters; every one given must match
+export interface AuditLogFilters {
+  userId?: string;
+  // Cognito sub or username
+  user?: string;
+  entityType?: string;
+  entityId?: string;
+  // ISO timestamps: entries at or after since, and before until
+  since?: string;
+  until?: string;
+}
+
+export interface ApiMessage {
+  title: string;
+  detail: string | { message: string };
+}
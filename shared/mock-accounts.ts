@@ -0,0 +1,13 @@
+/**
+ * LWAI accounts known to the local mock API (server/mockLunchWith.ts)
+ *
+ * The browser's stub auth mode signs in with these accounts, and the mock
+ * API only accepts them in X-LWAI-User-Id, so both sides must agree.
+ */
+
+import type { UserAccount } from "./api-types";
+
+export const MOCK_ACCOUNTS: UserAccount[] = [
+  { user_id: "00000000-0000-4000-8000-000000000001", contactName: "Mock Studio" },
+  { user_id: "00000000-0000-4000-8000-000000000002", contactName: "Mock Sandbox" },
+];
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, integer, bigserial, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,3 +16,206 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// Story responses delivered asynchronously by the LunchWith.ai backend
+// (relayed from the account's SQS queue to the local delivery endpoint), kept
+// per LWAI account and environment so each account only reads its own
+export const storyResponses = pgTable("story_responses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Insertion order, which orders rows with the same timestamp
+  seq: bigserial("seq", { mode: "number" }).notNull(),
+  userId: text("user_id").notNull(),
+  environment: text("environment").notNull(),
+  storyId: text("story_id").notNull(),
+  castId: text("cast_id").notNull(),
+  response: text("response").notNull(),
+  // Timestamps are kept to the millisecond, like JavaScript dates, so values
+  // read back compare exactly (e.g. in "received since" filters)
+  receivedAt: timestamp("received_at", { precision: 3 }).notNull().defaultNow(),
+}, (table) => [
+  index("story_responses_story_idx").on(table.userId, table.environment, table.storyId),
+]);
+
+export const insertStoryResponseSchema = createInsertSchema(storyResponses).pick({
+  userId: true,
+  environment: true,
+  storyId: true,
+  castId: true,
+  response: true,
+});
+
+export type InsertStoryResponse = z.infer<typeof insertStoryResponseSchema>;
+export type StoryResponse = typeof storyResponses.$inferSelect;
+
+// Version history of characters, scenes and cast members: one row per write
+// that passed through the LunchWith.ai proxy, since the upstream API keeps no
+// history. before/after hold the entity as JSON (null before a create).
+export const entityVersions = pgTable("entity_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  seq: bigserial("seq", { mode: "number" }).notNull(),
+  userId: text("user_id").notNull(),
+  environment: text("environment").notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id").notNull(),
+  // Scene of a cast member; null for characters and scenes
+  sceneId: text("scene_id"),
+  action: text("action").notNull(),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  author: text("author").notNull(),
+  createdAt: timestamp("created_at", { precision: 3 }).notNull().defaultNow(),
+}, (table) => [
+  index("entity_versions_entity_idx").on(table.userId, table.environment, table.entityType, table.entityId),
+]);
+
+export const entityTypeSchema = z.enum(["character", "scene", "cast"]);
+export const entityActionSchema = z.enum(["create", "update", "delete"]);
+
+export const insertEntityVersionSchema = createInsertSchema(entityVersions, {
+  entityType: entityTypeSchema,
+  action: entityActionSchema,
+}).pick({
+  userId: true,
+  environment: true,
+  entityType: true,
+  entityId: true,
+  sceneId: true,
+  action: true,
+  before: true,
+  after: true,
+  author: true,
+});
+
+export type EntityType = z.infer<typeof entityTypeSchema>;
+export type EntityAction = z.infer<typeof entityActionSchema>;
+export type InsertEntityVersion = z.infer<typeof insertEntityVersionSchema>;
+export type EntityVersion = typeof entityVersions.$inferSelect;
+
+// Audit log: one row per mutating call (POST, PUT, PATCH, DELETE) through the
+// LunchWith.ai proxy, with the caller, the selected account, the outcome and
+// the request body with secrets redacted (see server/audit.ts)
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  seq: bigserial("seq", { mode: "number" }).notNull(),
+  // Cognito sub of the caller, and a readable name for it (username)
+  sub: text("sub").notNull(),
+  author: text("author").notNull(),
+  userId: text("user_id").notNull(),
+  environment: text("environment").notNull(),
+  method: text("method").notNull(),
+  endpoint: text("endpoint").notNull(),
+  // Resource the call targets (first path segment, e.g. "scene") and its id
+  entityType: text("entity_type"),
+  entityId: text("entity_id"),
+  status: integer("status").notNull(),
+  latencyMs: integer("latency_ms").notNull(),
+  requestBody: jsonb("request_body"),
+  createdAt: timestamp("created_at", { precision: 3 }).notNull().defaultNow(),
+}, (table) => [
+  index("audit_log_created_at_idx").on(table.createdAt),
+  index("audit_log_user_idx").on(table.userId, table.createdAt),
+]);
+
+export const insertAuditEntrySchema = createInsertSchema(auditLog).pick({
+  sub: true,
+  author: true,
+  userId: true,
+  environment: true,
+  method: true,
+  endpoint: true,
+  entityType: true,
+  entityId: true,
+  status: true,
+  latencyMs: true,
+  requestBody: true,
+});
+
+export type InsertAuditEntry = z.infer<typeof insertAuditEntrySchema>;
+export type AuditEntry = typeof auditLog.$inferSelect;
+
+// Unsaved character, scene and cast form content, autosaved per signed-in user
+// (owner: Cognito sub), LWAI account and environment. draftKey names the form
+// and the entity it edits, e.g. "character:new" or "cast:<scene_id>:<cast_id>".
+export const formDrafts = pgTable("form_drafts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Taken again from the sequence on every save, so it follows updatedAt
+  seq: bigserial("seq", { mode: "number" }).notNull(),
+  owner: text("owner").notNull(),
+  userId: text("user_id").notNull(),
+  environment: text("environment").notNull(),
+  draftKey: text("draft_key").notNull(),
+  content: jsonb("content").notNull(),
+  updatedAt: timestamp("updated_at", { precision: 3 }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("form_drafts_key_idx").on(table.owner, table.userId, table.environment, table.draftKey),
+]);
+
+export const insertFormDraftSchema = createInsertSchema(formDrafts).pick({
+  owner: true,
+  userId: true,
+  environment: true,
+  draftKey: true,
+  content: true,
+});
+
+export type InsertFormDraft = z.infer<typeof insertFormDraftSchema>;
+export type FormDraft = typeof formDrafts.$inferSelect;
+export type FormDraftKey = Pick<InsertFormDraft, "owner" | "userId" | "environment" | "draftKey">;
+
+// Content of a draft: form field values by field name
+export const draftContentSchema = z.record(z.string(), z.string());
+
+// Reusable starting content for new characters, scenes and cast members,
+// shared by everyone working in an LWAI account
+export const entityTemplates = pgTable("entity_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  seq: bigserial("seq", { mode: "number" }).notNull(),
+  userId: text("user_id").notNull(),
+  entityType: text("entity_type").notNull(),
+  name: text("name").notNull(),
+  content: jsonb("content").notNull(),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at", { precision: 3 }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { precision: 3 }).notNull().defaultNow(),
+}, (table) => [
+  index("entity_templates_user_idx").on(table.userId, table.entityType),
+]);
+
+export const insertEntityTemplateSchema = createInsertSchema(entityTemplates, {
+  entityType: entityTypeSchema,
+}).pick({
+  userId: true,
+  entityType: true,
+  name: true,
+  content: true,
+  createdBy: true,
+});
+
+export type InsertEntityTemplate = z.infer<typeof insertEntityTemplateSchema>;
+export type EntityTemplate = typeof entityTemplates.$inferSelect;
+
+// Account snapshots: server-side copies of an account's characters, scenes and
+// cast in the account backup format (see client/src/lib/accountBackup.ts)
+export const accountSnapshots = pgTable("account_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  seq: bigserial("seq", { mode: "number" }).notNull(),
+  userId: text("user_id").notNull(),
+  environment: text("environment").notNull(),
+  label: text("label").notNull(),
+  data: jsonb("data").notNull(),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at", { precision: 3 }).notNull().defaultNow(),
+}, (table) => [
+  index("account_snapshots_user_idx").on(table.userId, table.environment, table.createdAt),
+]);
+
+export const insertAccountSnapshotSchema = createInsertSchema(accountSnapshots).pick({
+  userId: true,
+  environment: true,
+  label: true,
+  data: true,
+  createdBy: true,
+});
+
+export type InsertAccountSnapshot = z.infer<typeof insertAccountSnapshotSchema>;
+export type AccountSnapshot = typeof accountSnapshots.$inferSelect;